@@ -1,4 +1,45 @@
-import { ChatWidgetConfig, ChatMessage, ChatSession, WidgetTheme, WidgetEvents } from './types.js';
+import { ChatWidgetConfig, ChatMessage, ChatSession, WidgetTheme, WidgetEvents, StreamChunk, WebsiteContext } from './types.js';
+import {
+  DecodedFrame,
+  HandoffStreamEvent,
+  SocketMessageAck,
+  SocketSession,
+  SocketSessionMessage,
+  SocketStreamDone,
+  SocketStreamFrame,
+  SOCKET_EVENTS,
+  SourceReference,
+  StreamDecoder,
+  STREAM_PROTOCOL_HEADER,
+  STREAM_PROTOCOL_VERSION,
+  STREAM_RESUME_HEADER,
+} from './protocol.js';
+
+const MAX_RECONNECT_ATTEMPTS = 3;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const MAX_LIVE_RECONNECT_DELAY_MS = 30000;
+const DEFAULT_TYPING_LABEL = 'AI is typing';
+const SOCKET_CONNECT_TIMEOUT_MS = 5000;
+const SOCKET_ACK_TIMEOUT_MS = 10000;
+const SESSION_STORAGE_PREFIX = 'techsurf_chat_session_';
+const SESSION_TOKEN_STORAGE_PREFIX = 'techsurf_chat_session_token_';
+
+// An answer streaming over the socket; answers requested in other tabs have no resolve/reject
+interface SocketRequest {
+  state: StreamState;
+  resolve?: () => void;
+  reject?: (error: Error) => void;
+}
+
+// Progress of one streamed answer, kept across reconnects
+interface StreamState {
+  assistantMessage: string;
+  messageId: string;
+  messageElement: HTMLElement | null;
+  lastEventId: number | null;
+  finished: boolean;
+  sources: SourceReference[];
+}
 
 export class UniversalChatWidget {
   private config: ChatWidgetConfig;
@@ -8,8 +49,17 @@ export class UniversalChatWidget {
   private eventListeners: { [key: string]: Function[] } = {};
   private messages: ChatMessage[] = [];
   private sessionId: string;
+  // Signed by the server for the socket session; rejoins the same room from every tab
+  private sessionToken: string | null = null;
+  private conversationId: string | null = null;
+  private streamController: AbortController | null = null;
+  // Who answers the visitor; agent messages arrive over the live subscription
+  private handledBy: HandoffStreamEvent['status'] = 'bot';
+  private liveController: AbortController | null = null;
+  // socket.io connection when the websocket transport is in use; SSE otherwise
   private socket: any = null;
   private isConnected: boolean = false;
+  private socketRequests: Map<string, SocketRequest> = new Map();
 
   constructor(config: ChatWidgetConfig) {
     this.config = {
@@ -19,10 +69,12 @@ export class UniversalChatWidget {
       enableSounds: true,
       enableTypingIndicator: true,
       maxMessages: 50,
+      transport: 'auto',
       ...config
     };
     
-    this.sessionId = this.generateSessionId();
+    this.sessionId = this.loadSessionId();
+    this.sessionToken = this.loadSessionToken();
     this.bindMethods();
   }
 
@@ -37,6 +89,42 @@ export class UniversalChatWidget {
     return 'session_' + Math.random().toString(36).substr(2, 9) + Date.now().toString(36);
   }
 
+  // Shared by every tab of the site, so they join the same conversation over the socket
+  private loadSessionId(): string {
+    const key = SESSION_STORAGE_PREFIX + this.config.tenantId;
+    try {
+      const stored = window.localStorage.getItem(key);
+      if (stored) return stored;
+
+      const sessionId = this.generateSessionId();
+      window.localStorage.setItem(key, sessionId);
+      return sessionId;
+    } catch {
+      // Storage blocked (privacy settings): a session per page
+      return this.generateSessionId();
+    }
+  }
+
+  private loadSessionToken(): string | null {
+    try {
+      return window.localStorage.getItem(SESSION_TOKEN_STORAGE_PREFIX + this.config.tenantId);
+    } catch {
+      return null;
+    }
+  }
+
+  // The socket's session replaces the widget's own, so SSE requests and the live feed use it too
+  private saveSession({ sessionId, sessionToken }: SocketSession): void {
+    this.sessionId = sessionId;
+    this.sessionToken = sessionToken;
+    try {
+      window.localStorage.setItem(SESSION_STORAGE_PREFIX + this.config.tenantId, sessionId);
+      window.localStorage.setItem(SESSION_TOKEN_STORAGE_PREFIX + this.config.tenantId, sessionToken);
+    } catch {
+      // Storage blocked: the session lasts as long as the page
+    }
+  }
+
   public async init(): Promise<void> {
     if (this.isInitialized) {
       console.warn('TechSurf Chat Widget is already initialized');
@@ -48,6 +136,13 @@ export class UniversalChatWidget {
       await this.loadStyles();
       this.createWidget();
       this.setupEventListeners();
+
+      // Chat works over SSE until (and unless) the socket connects
+      if (this.config.transport !== 'sse') {
+        this.connectSocket().catch((error) => {
+          console.warn('⚠️ Websocket unavailable, using SSE:', error instanceof Error ? error.message : error);
+        });
+      }
       
       if (this.config.showOnLoad) {
         this.open();
@@ -216,6 +311,26 @@ export class UniversalChatWidget {
         opacity: 1;
       }
 
+      .techsurf-chat-handoff {
+        background: rgba(255, 255, 255, 0.15);
+        border: 1px solid rgba(255, 255, 255, 0.4);
+        color: white;
+        cursor: pointer;
+        font-size: 12px;
+        padding: 4px 10px;
+        border-radius: 12px;
+        margin-left: 10px;
+        white-space: nowrap;
+      }
+
+      .techsurf-chat-handoff:hover {
+        background: rgba(255, 255, 255, 0.25);
+      }
+
+      .techsurf-chat-handoff:disabled {
+        display: none;
+      }
+
       .techsurf-chat-messages {
         flex: 1;
         overflow-y: auto;
@@ -262,6 +377,47 @@ export class UniversalChatWidget {
         margin-right: 12px;
       }
 
+      .techsurf-chat-message-author {
+        display: block;
+        font-size: 11px;
+        font-weight: 600;
+        color: ${theme.textSecondary};
+        margin-bottom: 4px;
+      }
+
+      .techsurf-chat-notice {
+        text-align: center;
+        font-size: 12px;
+        color: ${theme.textSecondary};
+        margin: 0 0 16px;
+      }
+
+      .techsurf-chat-citation a {
+        color: ${theme.primary};
+        text-decoration: none;
+        font-size: 11px;
+      }
+
+      .techsurf-chat-sources {
+        margin: 8px 0 0;
+        padding: 8px 0 0 18px;
+        border-top: 1px solid ${theme.border};
+        font-size: 12px;
+      }
+
+      .techsurf-chat-sources li {
+        margin-bottom: 4px;
+      }
+
+      .techsurf-chat-sources a {
+        color: ${theme.primary};
+      }
+
+      .techsurf-chat-source-snippet {
+        display: block;
+        color: ${theme.textSecondary};
+      }
+
       .techsurf-chat-input {
         padding: 16px 20px;
         border-top: 1px solid ${theme.border};
@@ -328,6 +484,18 @@ export class UniversalChatWidget {
         fill: white;
       }
 
+      .techsurf-chat-send-button.techsurf-chat-stop svg {
+        display: none;
+      }
+
+      .techsurf-chat-send-button.techsurf-chat-stop::before {
+        content: '';
+        width: 10px;
+        height: 10px;
+        border-radius: 2px;
+        background: white;
+      }
+
       .techsurf-chat-typing {
         padding: 8px 16px;
         color: ${theme.textSecondary};
@@ -437,6 +605,13 @@ export class UniversalChatWidget {
     return "#" + (0x1000000 + (Math.round((t - R) * p) + R) * 0x10000 + (Math.round((t - G) * p) + G) * 0x100 + (Math.round((t - B) * p) + B)).toString(16).slice(1);
   }
 
+  // The page's declared language unless the config sets one; the browser's preferences go as Accept-Language
+  private getWebsiteContext(): Partial<WebsiteContext> {
+    const context: Partial<WebsiteContext> = this.config.websiteContext || {};
+    const pageLanguage = document.documentElement.lang;
+    return !context.language && pageLanguage ? { ...context, language: pageLanguage } : context;
+  }
+
   private getPositionStyles(): string {
     const margin = '20px';
     
@@ -472,6 +647,7 @@ export class UniversalChatWidget {
             <h4 class="techsurf-chat-title">${this.config.title || 'Chat with us'}</h4>
             <p class="techsurf-chat-subtitle">We typically reply in a few minutes</p>
           </div>
+          <button class="techsurf-chat-handoff" type="button">Talk to a person</button>
           <button class="techsurf-chat-close" type="button">
             <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
               <path d="M10 8.586L15.657 2.929a1 1 0 111.414 1.414L11.414 10l5.657 5.657a1 1 0 01-1.414 1.414L10 11.414l-5.657 5.657a1 1 0 01-1.414-1.414L8.586 10 2.929 4.343A1 1 0 014.343 2.929L10 8.586z"/>
@@ -485,7 +661,7 @@ export class UniversalChatWidget {
           </div>
         </div>
         <div class="techsurf-chat-typing" style="display: none;">
-          <span class="techsurf-chat-typing-dots">AI is typing</span>
+          <span class="techsurf-chat-typing-dots">${DEFAULT_TYPING_LABEL}</span>
         </div>
         <div class="techsurf-chat-input">
           <div class="techsurf-chat-input-container">
@@ -494,7 +670,7 @@ export class UniversalChatWidget {
               placeholder="Type your message..."
               rows="1"
             ></textarea>
-            <button class="techsurf-chat-send-button" type="button">
+            <button class="techsurf-chat-send-button" type="button" aria-label="Send message">
               <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
                 <path d="M15.854.146a.5.5 0 01.11.54L13.026 8.74a.5.5 0 01-.456.302H8.5V4.5a.5.5 0 00-.854-.353L.646 11.147a.5.5 0 00.708.707l6.5-6.5V10.5a.5.5 0 00.5.5h4.07l2.938-7.94a.5.5 0 01.692-.414z"/>
               </svg>
@@ -522,12 +698,23 @@ export class UniversalChatWidget {
 
     const button = this.container.querySelector('.techsurf-chat-button') as HTMLButtonElement;
     const closeButton = this.container.querySelector('.techsurf-chat-close') as HTMLButtonElement;
+    const handoffButton = this.container.querySelector('.techsurf-chat-handoff') as HTMLButtonElement;
     const sendButton = this.container.querySelector('.techsurf-chat-send-button') as HTMLButtonElement;
     const input = this.container.querySelector('.techsurf-chat-input-field') as HTMLTextAreaElement;
 
     button?.addEventListener('click', this.toggle);
     closeButton?.addEventListener('click', this.close);
-    sendButton?.addEventListener('click', () => this.handleSendMessage());
+    handoffButton?.addEventListener('click', () => {
+      this.requestHuman().catch((error) => console.error('❌ Escalation error:', error));
+    });
+    // While an answer is streaming the send button doubles as a Stop button
+    sendButton?.addEventListener('click', () => {
+      if (this.streamController) {
+        this.stopGeneration();
+      } else {
+        this.handleSendMessage();
+      }
+    });
     
     input?.addEventListener('keydown', (e) => {
       if (e.key === 'Enter' && !e.shiftKey) {
@@ -559,7 +746,7 @@ export class UniversalChatWidget {
     this.addMessageToUI({
       role: 'user',
       content: message,
-      timestamp: new Date(),
+      timestamp: new Date().toISOString(),
       id: this.generateMessageId()
     });
 
@@ -571,7 +758,7 @@ export class UniversalChatWidget {
       this.addMessageToUI({
         role: 'assistant',
         content: 'Sorry, I encountered an error. Please try again.',
-        timestamp: new Date(),
+        timestamp: new Date().toISOString(),
         id: this.generateMessageId()
       });
     }
@@ -591,10 +778,14 @@ export class UniversalChatWidget {
 
     if (!messagesContainer) return;
 
+    // Messages from a human agent carry their name
+    const agentName: string | undefined = message.metadata?.author === 'agent' ? message.metadata.agent?.name : undefined;
+
     const messageEl = document.createElement('div');
-    messageEl.className = `techsurf-chat-message ${message.role}`;
+    messageEl.className = `techsurf-chat-message ${message.role}${agentName ? ' agent' : ''}`;
     messageEl.innerHTML = `
       <div class="techsurf-chat-message-content">
+        ${agentName ? `<span class="techsurf-chat-message-author">${this.escapeHtml(agentName)}</span>` : ''}
         ${this.formatMessageContent(message.content)}
       </div>
       <div class="techsurf-chat-message-time">
@@ -625,13 +816,74 @@ export class UniversalChatWidget {
       .replace(/\n/g, '<br>');
   }
 
-  private formatTime(timestamp: Date): string {
-    return timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
   }
 
-  private showTypingIndicator(): void {
+  private safeUrl(url: string | null): string | null {
+    return url && /^https?:\/\//i.test(url) ? this.escapeHtml(url) : null;
+  }
+
+  /**
+   * Answer text with its [n] markers linked to the cited sources, followed by
+   * a numbered footnote list
+   */
+  private formatAnswerWithSources(content: string, sources: SourceReference[]): string {
+    const html = this.formatMessageContent(content);
+    if (sources.length === 0) return html;
+
+    const byIndex = new Map(sources.map(source => [source.index, source]));
+    const body = html.replace(/\[(\d{1,3})\]/g, (marker, index) => {
+      const source = byIndex.get(parseInt(index, 10));
+      if (!source) return marker;
+
+      const href = this.safeUrl(source.url) || `#techsurf-source-${source.index}`;
+      const target = source.url ? ' target="_blank" rel="noopener noreferrer"' : '';
+      return `<sup class="techsurf-chat-citation"><a href="${href}"${target} title="${this.escapeHtml(source.title)}">[${source.index}]</a></sup>`;
+    });
+
+    const footnotes = sources.map(source => {
+      const href = this.safeUrl(source.url);
+      const title = this.escapeHtml(source.title);
+      const link = href ? `<a href="${href}" target="_blank" rel="noopener noreferrer">${title}</a>` : title;
+      const snippet = source.snippet ? `<span class="techsurf-chat-source-snippet">${this.escapeHtml(source.snippet)}</span>` : '';
+      const why = source.relevance?.matchedFields.length
+        ? ` title="${this.escapeHtml(`Matched in ${source.relevance.matchedFields.join(', ')}`)}"`
+        : '';
+      return `<li id="techsurf-source-${source.index}" value="${source.index}"${why}>${link}${snippet}</li>`;
+    }).join('');
+
+    return `${body}<ol class="techsurf-chat-sources">${footnotes}</ol>`;
+  }
+
+  private formatTime(timestamp: string | Date): string {
+    return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+
+  // Status line in the transcript (e.g. an agent joined); not part of the messages sent to the API
+  private addNoticeToUI(text: string): void {
+    const messagesContainer = this.container?.querySelector('.techsurf-chat-messages');
+    if (!messagesContainer) return;
+
+    messagesContainer.querySelector('.techsurf-chat-welcome')?.remove();
+
+    const noticeEl = document.createElement('div');
+    noticeEl.className = 'techsurf-chat-notice';
+    noticeEl.textContent = text;
+    messagesContainer.appendChild(noticeEl);
+    messagesContainer.scrollTop = messagesContainer.scrollHeight;
+  }
+
+  private showTypingIndicator(label: string = DEFAULT_TYPING_LABEL): void {
     const typingEl = this.container?.querySelector('.techsurf-chat-typing') as HTMLElement;
     if (typingEl) {
+      const labelEl = typingEl.querySelector('.techsurf-chat-typing-dots');
+      if (labelEl) labelEl.textContent = label;
       typingEl.style.display = 'block';
     }
   }
@@ -688,11 +940,14 @@ export class UniversalChatWidget {
     const userMessage: ChatMessage = {
       role: 'user',
       content: content.trim(),
-      timestamp: new Date(),
+      timestamp: new Date().toISOString(),
       id: this.generateMessageId()
     };
 
-    this.showTypingIndicator();
+    // An agent's typing shows up through the live subscription instead
+    if (this.handledBy !== 'agent') this.showTypingIndicator();
+    this.streamController = new AbortController();
+    this.updateSendButton();
 
     try {
       // Prepare messages for API
@@ -701,17 +956,30 @@ export class UniversalChatWidget {
         content: msg.content
       }));
 
+      if (this.socket && this.isConnected) {
+        await this.sendOverSocket({
+          messages: messagesToSend,
+          websiteContext: this.getWebsiteContext(),
+          ...(this.conversationId && { conversationId: this.conversationId })
+        });
+        return;
+      }
+
       const response = await fetch(`${this.config.apiUrl}/api/chat/stream`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'x-api-key': this.config.apiKey,
-          'x-tenant-id': this.config.tenantId
+          'x-tenant-id': this.config.tenantId,
+          [STREAM_RESUME_HEADER]: '1'
         },
         body: JSON.stringify({
           messages: messagesToSend,
-          websiteContext: this.config.websiteContext || {}
-        })
+          websiteContext: this.getWebsiteContext(),
+          sessionId: this.sessionId,
+          ...(this.conversationId && { conversationId: this.conversationId })
+        }),
+        signal: this.streamController.signal
       });
 
       if (!response.ok) {
@@ -722,82 +990,480 @@ export class UniversalChatWidget {
       await this.handleStreamingResponse(response);
 
     } catch (error) {
+      // Stopped by the user: keep whatever was already shown
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+
       console.error('❌ Send message error:', error);
       this.addMessageToUI({
         role: 'assistant',
         content: 'Sorry, I encountered an error while processing your message. Please try again.',
-        timestamp: new Date(),
+        timestamp: new Date().toISOString(),
         id: this.generateMessageId()
       });
     } finally {
       this.hideTypingIndicator();
+      this.streamController = null;
+      this.updateSendButton();
+    }
+  }
+
+  /**
+   * Stop the answer that is currently streaming. The server is asked to stop
+   * generating, which ends the stream; without a conversation yet the request
+   * is simply aborted.
+   */
+  public async stopGeneration(): Promise<void> {
+    const controller = this.streamController;
+    if (!controller) return;
+
+    if (this.conversationId) {
+      try {
+        const response = await fetch(`${this.config.apiUrl}/api/chat/${this.conversationId}/stop?sessionId=${encodeURIComponent(this.sessionId)}`, {
+          method: 'POST',
+          headers: {
+            'x-api-key': this.config.apiKey,
+            'x-tenant-id': this.config.tenantId
+          }
+        });
+        if (response.ok) {
+          this.emit('stopped', { conversationId: this.conversationId });
+          return;
+        }
+      } catch (error) {
+        console.warn('Failed to stop generation on the server:', error);
+      }
     }
+
+    controller.abort();
+    this.emit('stopped', { conversationId: this.conversationId });
+  }
+
+  private updateSendButton(): void {
+    const sendButton = this.container?.querySelector('.techsurf-chat-send-button') as HTMLButtonElement | null;
+    if (!sendButton) return;
+
+    const generating = this.streamController !== null;
+    sendButton.classList.toggle('techsurf-chat-stop', generating);
+    sendButton.setAttribute('aria-label', generating ? 'Stop generating' : 'Send message');
   }
 
   private async handleStreamingResponse(response: Response): Promise<void> {
+    const streamId = response.headers.get('X-Stream-Id');
+    const state = this.createStreamState();
+    let current: Response | null = response;
+
+    for (let attempt = 0; ; attempt++) {
+      if (current) {
+        try {
+          await this.readEventStream(current, state);
+        } catch (error) {
+          if (error instanceof DOMException && error.name === 'AbortError') throw error;
+          console.warn('Chat stream interrupted:', error);
+        }
+      }
+
+      if (state.finished || !streamId || attempt >= MAX_RECONNECT_ATTEMPTS) return;
+
+      // The connection dropped mid-answer: pick the stream up where it left off
+      await new Promise((resolve) => setTimeout(resolve, RECONNECT_BASE_DELAY_MS * 2 ** attempt));
+      this.emit('reconnecting', { streamId, attempt: attempt + 1, lastEventId: state.lastEventId });
+
+      try {
+        current = await fetch(`${this.config.apiUrl}/api/chat/stream/${streamId}`, {
+          headers: {
+            'x-api-key': this.config.apiKey,
+            'x-tenant-id': this.config.tenantId,
+            ...(state.lastEventId !== null && { 'Last-Event-ID': String(state.lastEventId) })
+          },
+          ...(this.streamController && { signal: this.streamController.signal })
+        });
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') throw error;
+        current = null;
+        continue;
+      }
+
+      // The buffered stream expired or belongs to someone else
+      if (!current.ok) return;
+    }
+  }
+
+  private createStreamState(): StreamState {
+    return {
+      assistantMessage: '',
+      messageId: this.generateMessageId(),
+      messageElement: null,
+      lastEventId: null,
+      finished: false,
+      sources: []
+    };
+  }
+
+  private async readEventStream(response: Response, state: StreamState): Promise<void> {
     const reader = response.body?.getReader();
     if (!reader) return;
 
-    const decoder = new TextDecoder();
-    let assistantMessage = '';
-    let messageId = this.generateMessageId();
-    let messageElement: HTMLElement | null = null;
+    const version = parseInt(response.headers.get(STREAM_PROTOCOL_HEADER) || '', 10);
+    if (version > STREAM_PROTOCOL_VERSION) {
+      console.warn(`Chat stream uses protocol v${version}, this widget supports v${STREAM_PROTOCOL_VERSION}`);
+    }
+
+    const decoder = new StreamDecoder();
+    const handleFrames = (frames: DecodedFrame[]) => {
+      for (const frame of frames) {
+        if (state.finished) return;
+
+        if (frame.kind === 'done') {
+          state.finished = true;
+          return;
+        }
+
+        if (frame.kind === 'invalid') {
+          console.warn('Failed to parse stream data:', frame.error);
+        } else {
+          try {
+            this.handleStreamEvent(frame.event, state);
+          } catch (eventError) {
+            console.warn('Failed to handle stream event:', eventError);
+          }
+        }
+
+        // Only count an event as received once it has been handled
+        if (frame.id !== null) {
+          state.lastEventId = frame.id;
+        }
+      }
+    };
 
     try {
-      while (true) {
+      while (!state.finished) {
         const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') continue;
-
-            try {
-              const parsed = JSON.parse(data);
-              
-              if (parsed.type === 'content' && parsed.content) {
-                assistantMessage += parsed.content;
-                
-                // Create or update message element
-                if (!messageElement) {
-                  const message: ChatMessage = {
-                    role: 'assistant',
-                    content: assistantMessage,
-                    timestamp: new Date(),
-                    id: messageId
-                  };
-                  this.addMessageToUI(message);
-                  messageElement = this.container?.querySelector(`.techsurf-chat-message:last-child .techsurf-chat-message-content`) as HTMLElement;
-                } else {
-                  // Update existing message
-                  messageElement.innerHTML = this.formatMessageContent(assistantMessage);
-                  const messagesContainer = this.container?.querySelector('.techsurf-chat-messages');
-                  if (messagesContainer) {
-                    messagesContainer.scrollTop = messagesContainer.scrollHeight;
-                  }
-                }
-              } else if (parsed.type === 'completion') {
-                // Message completed
-                break;
-              } else if (parsed.type === 'error') {
-                throw new Error(parsed.error);
-              }
-            } catch (parseError) {
-              console.warn('Failed to parse stream data:', parseError);
-            }
-          }
+        if (done) {
+          handleFrames(decoder.flush());
+          break;
         }
+        handleFrames(decoder.push(value));
       }
     } finally {
       reader.releaseLock();
     }
   }
 
+  private handleStreamEvent(parsed: StreamChunk, state: StreamState): void {
+    if (parsed.type === 'conversation' && parsed.conversationId) {
+      // Reuse the server-side conversation for follow-up messages
+      this.conversationId = parsed.conversationId;
+    } else if (parsed.type === 'content' && parsed.content) {
+      state.assistantMessage += parsed.content;
+
+      // Create or update message element
+      if (!state.messageElement) {
+        const message: ChatMessage = {
+          role: 'assistant',
+          content: state.assistantMessage,
+          timestamp: new Date().toISOString(),
+          id: state.messageId
+        };
+        this.addMessageToUI(message);
+        state.messageElement = this.container?.querySelector(`.techsurf-chat-message:last-child .techsurf-chat-message-content`) as HTMLElement;
+      } else {
+        // Update existing message
+        state.messageElement.innerHTML = this.formatMessageContent(state.assistantMessage);
+        const messagesContainer = this.container?.querySelector('.techsurf-chat-messages');
+        if (messagesContainer) {
+          messagesContainer.scrollTop = messagesContainer.scrollHeight;
+        }
+      }
+    } else if (parsed.type === 'sources') {
+      state.sources = parsed.sources;
+      if (state.messageElement) {
+        state.messageElement.innerHTML = this.formatAnswerWithSources(state.assistantMessage, state.sources);
+      }
+
+      // Keep the sources with the stored message
+      const message = this.messages.find(candidate => candidate.id === state.messageId);
+      if (message) {
+        message.metadata = { ...message.metadata, sources: state.sources };
+      }
+      this.emit('sources', { messageId: state.messageId, sources: state.sources });
+    } else if (parsed.type === 'provider_switched') {
+      this.emit('providerSwitched', { from: parsed.from, to: parsed.to, reason: parsed.reason });
+    } else if (parsed.type === 'completion') {
+      // Message completed
+      this.emit('completed', { provider: parsed.provider, model: parsed.model, usage: parsed.usage, context: parsed.context });
+    } else if (parsed.type === 'handoff') {
+      this.handleHandoff(parsed);
+    } else if (parsed.type === 'agent_message') {
+      this.hideTypingIndicator();
+      this.addMessageToUI({
+        role: 'assistant',
+        content: parsed.content,
+        timestamp: parsed.timestamp,
+        id: parsed.id,
+        metadata: { author: 'agent', agent: parsed.agent }
+      });
+      this.emit('agentMessage', { id: parsed.id, content: parsed.content, agent: parsed.agent });
+    } else if (parsed.type === 'typing') {
+      if (parsed.isTyping) {
+        this.showTypingIndicator(`${parsed.agent?.name || 'Agent'} is typing`);
+      } else {
+        this.hideTypingIndicator();
+      }
+    } else if (parsed.type === 'error') {
+      throw new Error(parsed.error);
+    }
+  }
+
+  /**
+   * Load the socket.io client the server ships and connect with the tenant's
+   * API key. In 'auto' mode a failed first connection leaves the widget on
+   * SSE; once connected, socket.io reconnects by itself and SSE covers the
+   * gaps.
+   */
+  private async connectSocket(): Promise<void> {
+    const io = await this.loadSocketClient();
+
+    const socket = io(this.config.apiUrl, {
+      // Read on every (re)connect, so a token issued on the first connect is used from then on
+      auth: (send: (auth: Record<string, unknown>) => void) => {
+        send({ apiKey: this.config.apiKey, tenantId: this.config.tenantId, sessionToken: this.sessionToken });
+      },
+      transports: ['websocket', 'polling']
+    });
+    this.socket = socket;
+    let connectedOnce = false;
+
+    socket.on('connect', () => {
+      connectedOnce = true;
+      this.isConnected = true;
+      this.emit('transport', { transport: 'websocket' });
+    });
+
+    socket.on('disconnect', () => {
+      this.isConnected = false;
+      this.emit('transport', { transport: 'sse' });
+
+      // Answers in flight are lost with the connection
+      for (const [requestId, request] of this.socketRequests) {
+        request.reject?.(new Error('Connection lost'));
+        this.socketRequests.delete(requestId);
+      }
+    });
+
+    socket.on('connect_error', (error: Error) => {
+      if (this.config.transport === 'auto' && !connectedOnce && socket === this.socket) {
+        socket.disconnect();
+        this.socket = null;
+        console.warn('⚠️ Websocket connection failed, using SSE:', error.message);
+      }
+    });
+
+    socket.on(SOCKET_EVENTS.session, (session: SocketSession) => this.saveSession(session));
+
+    socket.on(SOCKET_EVENTS.event, (frame: SocketStreamFrame) => this.handleSocketFrame(frame));
+
+    socket.on(SOCKET_EVENTS.done, ({ requestId }: SocketStreamDone) => {
+      const request = this.socketRequests.get(requestId);
+      this.socketRequests.delete(requestId);
+      request?.resolve?.();
+    });
+
+    // Sent from another tab of this session
+    socket.on(SOCKET_EVENTS.sessionMessage, (message: SocketSessionMessage) => {
+      this.addMessageToUI({
+        role: 'user',
+        content: message.content,
+        timestamp: message.timestamp,
+        id: message.requestId
+      });
+    });
+
+    socket.on(SOCKET_EVENTS.typing, (event: StreamChunk) => {
+      if (event.type !== 'typing' || event.author !== 'assistant' || this.handledBy === 'agent') return;
+      if (event.isTyping) {
+        this.showTypingIndicator();
+      } else if (!this.streamController) {
+        this.hideTypingIndicator();
+      }
+    });
+  }
+
+  // The server's socket.io client bundle, loaded once per page
+  private loadSocketClient(): Promise<any> {
+    const existing = (window as any).io;
+    if (typeof existing === 'function') return Promise.resolve(existing);
+
+    return new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      const timer = setTimeout(() => reject(new Error('Timed out loading socket.io client')), SOCKET_CONNECT_TIMEOUT_MS);
+
+      script.src = `${this.config.apiUrl}/socket.io/socket.io.js`;
+      script.async = true;
+      script.onload = () => {
+        clearTimeout(timer);
+        const io = (window as any).io;
+        typeof io === 'function' ? resolve(io) : reject(new Error('socket.io client not found'));
+      };
+      script.onerror = () => {
+        clearTimeout(timer);
+        reject(new Error('Failed to load socket.io client'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+
+  /**
+   * Send a message over the socket and wait for its answer to finish
+   * streaming; the Stop button stops it through the socket as well
+   */
+  private async sendOverSocket(payload: Record<string, unknown>): Promise<void> {
+    const requestId = this.generateMessageId();
+    const finished = new Promise<void>((resolve, reject) => {
+      this.socketRequests.set(requestId, { state: this.createStreamState(), resolve, reject });
+    });
+
+    let ack: SocketMessageAck;
+    try {
+      ack = await this.socket.timeout(SOCKET_ACK_TIMEOUT_MS).emitWithAck(SOCKET_EVENTS.message, { ...payload, requestId });
+    } catch (error) {
+      this.socketRequests.delete(requestId);
+      throw error;
+    }
+
+    if (!ack.ok) {
+      this.socketRequests.delete(requestId);
+      throw new Error(ack.error);
+    }
+
+    this.streamController?.signal.addEventListener('abort', () => {
+      this.socket?.emit(SOCKET_EVENTS.stop, { requestId });
+    }, { once: true });
+
+    await finished;
+  }
+
+  private handleSocketFrame({ requestId, event }: SocketStreamFrame): void {
+    let request = this.socketRequests.get(requestId);
+    if (!request) {
+      // An answer to a message sent from another tab
+      request = { state: this.createStreamState() };
+      this.socketRequests.set(requestId, request);
+    }
+
+    try {
+      this.handleStreamEvent(event, request.state);
+    } catch (error) {
+      if (request.reject) {
+        this.socketRequests.delete(requestId);
+        request.reject(error instanceof Error ? error : new Error(String(error)));
+      } else {
+        console.warn('Failed to handle stream event:', error);
+      }
+    }
+  }
+
+  /**
+   * Hand the conversation to a human agent. It waits in the site's queue
+   * until an agent takes it; the assistant keeps answering until then.
+   */
+  public async requestHuman(reason?: string): Promise<void> {
+    if (this.handledBy !== 'bot') return;
+
+    const response = await fetch(`${this.config.apiUrl}/api/chat/escalate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.config.apiKey,
+        'x-tenant-id': this.config.tenantId
+      },
+      body: JSON.stringify({
+        sessionId: this.sessionId,
+        ...(this.conversationId && { conversationId: this.conversationId }),
+        ...(reason && { reason })
+      })
+    });
+
+    if (!response.ok) {
+      this.addNoticeToUI('Sorry, we could not reach our team right now. Please try again later.');
+      throw new Error(`API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    this.conversationId = data.conversationId;
+    this.handleHandoff({ type: 'handoff', status: data.handledBy });
+  }
+
+  private handleHandoff(event: HandoffStreamEvent): void {
+    if (event.status === this.handledBy) return;
+    this.handledBy = event.status;
+
+    const notice = event.message || (
+      event.status === 'queued' ? 'We are connecting you with a member of our team. They will join this chat shortly.'
+        : event.status === 'agent' ? `${event.agent?.name || 'An agent'} joined the conversation`
+          : 'You are chatting with the assistant again.'
+    );
+    this.addNoticeToUI(notice);
+
+    const handoffButton = this.container?.querySelector('.techsurf-chat-handoff') as HTMLButtonElement | null;
+    if (handoffButton) handoffButton.disabled = event.status !== 'bot';
+
+    if (event.status === 'bot') {
+      this.hideTypingIndicator();
+      this.liveController?.abort();
+      this.liveController = null;
+    } else {
+      this.followLive();
+    }
+
+    this.emit('handoff', { status: event.status, agent: event.agent || null });
+  }
+
+  /**
+   * Keep a connection open for agent messages and typing while the
+   * conversation is escalated, reconnecting when it drops
+   */
+  private async followLive(): Promise<void> {
+    if (this.liveController || !this.conversationId) return;
+
+    const controller = new AbortController();
+    this.liveController = controller;
+
+    for (let attempt = 0; !controller.signal.aborted; attempt++) {
+      try {
+        const response = await fetch(`${this.config.apiUrl}/api/chat/${this.conversationId}/live?sessionId=${encodeURIComponent(this.sessionId)}`, {
+          headers: {
+            'x-api-key': this.config.apiKey,
+            'x-tenant-id': this.config.tenantId
+          },
+          signal: controller.signal
+        });
+
+        // The conversation is gone; nothing to follow
+        if (response.status === 404) break;
+
+        if (response.ok) {
+          attempt = 0;
+          await this.readEventStream(response, this.createStreamState());
+        }
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+        console.warn('Live conversation interrupted:', error);
+      }
+
+      if (controller.signal.aborted) return;
+      await new Promise((resolve) => setTimeout(resolve, Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, MAX_LIVE_RECONNECT_DELAY_MS)));
+    }
+
+    if (this.liveController === controller) this.liveController = null;
+  }
+
   public destroy(): void {
+    this.liveController?.abort();
+    this.liveController = null;
+    this.socket?.disconnect();
+    this.socket = null;
+    this.isConnected = false;
+
     if (this.container) {
       this.container.remove();
       this.container = null;
@@ -855,6 +1521,18 @@ export class UniversalChatWidget {
     return this.sessionId;
   }
 
+  public getConversationId(): string | null {
+    return this.conversationId;
+  }
+
+  public getHandledBy(): HandoffStreamEvent['status'] {
+    return this.handledBy;
+  }
+
+  public getTransport(): 'websocket' | 'sse' {
+    return this.socket && this.isConnected ? 'websocket' : 'sse';
+  }
+
   public isWidgetOpen(): boolean {
     return this.isOpen;
   }
@@ -0,0 +1,122 @@
+/**
+ * @jest-environment jsdom
+ */
+import { SOCKET_EVENTS, StreamEvent } from '../protocol';
+import { UniversalChatWidget } from '../UniversalChatWidget';
+
+/**
+ * The widget rendered into jsdom, with fetch answering the health check and
+ * the chat stream. Messages arrive with ISO string timestamps and are shown
+ * with their time.
+ */
+
+const API_URL = 'https://chat.example.com';
+
+const sse = (events: StreamEvent[]): string[] => [
+  ...events.map((event, index) => `id: ${index + 1}\ndata: ${JSON.stringify(event)}\n\n`),
+  'data: [DONE]\n\n'
+];
+
+// Just enough of a fetch Response for the widget's stream reader
+const streamResponse = (chunks: string[]) => ({
+  ok: true,
+  status: 200,
+  headers: { get: () => null },
+  body: {
+    getReader: () => {
+      let next = 0;
+      return {
+        read: async () => (next < chunks.length ? { done: false, value: chunks[next++] } : { done: true, value: undefined }),
+        releaseLock: () => {}
+      };
+    }
+  }
+});
+
+const createWidget = async (stream: StreamEvent[] = [], transport: 'sse' | 'websocket' = 'sse') => {
+  const fetchMock = jest.fn(async (url: string) => (url.endsWith('/health') ? { ok: true, status: 200 } : streamResponse(sse(stream))));
+  (global as any).fetch = fetchMock;
+
+  const widget = new UniversalChatWidget({ apiKey: 'ts_test_key', tenantId: 'tenant-1', apiUrl: API_URL, transport } as any);
+  await widget.init();
+  return { widget, fetchMock };
+};
+
+// A socket.io client stand-in the widget finds on the page; `receive` plays server events
+const installSocketClient = () => {
+  const handlers: Record<string, (payload?: unknown) => void> = {};
+  const socket = { on: (event: string, handler: (payload?: unknown) => void) => { handlers[event] = handler; }, disconnect: () => {} };
+  (window as any).io = jest.fn(() => socket);
+  return { receive: (event: string, payload?: unknown) => handlers[event]!(payload) };
+};
+
+const renderedMessages = () => Array.from(document.querySelectorAll('.techsurf-chat-message')).map((element) => ({
+  className: element.className,
+  content: element.querySelector('.techsurf-chat-message-content')?.textContent?.trim(),
+  time: element.querySelector('.techsurf-chat-message-time')?.textContent?.trim()
+}));
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  document.body.innerHTML = '';
+  delete (window as any).io;
+  window.localStorage.clear();
+});
+
+describe('UniversalChatWidget messages', () => {
+  it('renders a streamed assistant answer with its time', async () => {
+    const { widget, fetchMock } = await createWidget([
+      { type: 'conversation', conversationId: 'conversation-1' },
+      { type: 'content', content: 'Our running shoes ' },
+      { type: 'content', content: 'ship in 2 days.' },
+      { type: 'completion', provider: 'mock', model: 'scripted' }
+    ] as StreamEvent[]);
+
+    await widget.sendMessage('When do shoes ship?');
+
+    expect(fetchMock).toHaveBeenCalledWith(`${API_URL}/api/chat/stream`, expect.objectContaining({ method: 'POST' }));
+    const [answer] = renderedMessages();
+    expect(answer).toEqual({
+      className: 'techsurf-chat-message assistant',
+      content: 'Our running shoes ship in 2 days.',
+      time: expect.stringMatching(/\d{1,2}:\d{2}/)
+    });
+  });
+
+  it('renders an agent\'s message with the agent\'s name and the time it was sent', async () => {
+    const { widget } = await createWidget([
+      { type: 'agent_message', id: 'agent-message-1', content: 'Hi, I can help with that.', agent: { name: 'Dana' }, timestamp: '2026-10-19T09:05:00.000Z' }
+    ]);
+    const agentMessages: unknown[] = [];
+    widget.on('agentMessage', (message: unknown) => agentMessages.push(message));
+
+    await widget.sendMessage('Can I talk to someone?');
+
+    const agentMessage = renderedMessages().find((message) => message.className.includes('agent'));
+    expect(agentMessage).toEqual({
+      className: 'techsurf-chat-message assistant agent',
+      content: expect.stringMatching(/^Dana\s+Hi, I can help with that\.$/),
+      time: new Date('2026-10-19T09:05:00.000Z').toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    });
+    expect(agentMessages).toHaveLength(1);
+  });
+
+  it('renders messages sent from another tab of the session', async () => {
+    const { receive } = installSocketClient();
+    await createWidget([], 'websocket');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    receive(SOCKET_EVENTS.sessionMessage, { requestId: 'request-1', content: 'Do you ship abroad?', timestamp: '2026-10-19T09:07:00.000Z' });
+
+    expect(renderedMessages()).toEqual([{
+      className: 'techsurf-chat-message user',
+      content: 'Do you ship abroad?',
+      time: new Date('2026-10-19T09:07:00.000Z').toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    }]);
+  });
+});
@@ -0,0 +1,113 @@
+import { DecodedFrame, StreamDecoder } from '../protocol';
+
+/**
+ * Decoder conformance: a stream decodes to the same frames however the
+ * network splits it, down to single bytes inside a multi-byte character or
+ * between the \r and \n of a line break.
+ */
+
+// Small seeded PRNG so a failing split can be reproduced from the seed
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Cut `length` items at random points into 1-16 item pieces
+const randomCuts = (length: number, random: () => number): number[] => {
+  const cuts: number[] = [];
+  for (let at = 0; at < length; at += 1 + Math.floor(random() * 16)) cuts.push(at);
+  cuts.push(length);
+  return cuts;
+};
+
+const decodeAll = (chunks: Array<Uint8Array | string>): DecodedFrame[] => {
+  const decoder = new StreamDecoder();
+  return [...chunks.flatMap((chunk) => decoder.push(chunk)), ...decoder.flush()];
+};
+
+const event = (id: number | null, value: unknown): DecodedFrame => ({ kind: 'event', id, event: value as any });
+
+// What the server sends, plus what proxies and other SSE servers may add
+const STREAM = [
+  'id: 1\ndata: {"type":"conversation","conversationId":"c0a8012e-7f3b-4d5e-9a1c-2b3c4d5e6f70"}\n\n',
+  ': keep-alive\n\n',
+  'id: 2\ndata: {"type":"content","content":"Grüße 👋🏽 from 東京"}\n\n',
+  'id: 3\r\ndata: {"type":"content",\r\ndata: "content":" — crlf"}\r\n\r\n',
+  'id: 4\rdata: {"type":"content","content":"cr only"}\r\r',
+  'retry: 1000\nevent: message\nid: 5\ndata:{"type":"tool_call","tool_call_id":"call_1","name":"global_search","arguments":{"query":"naïve café"}}\n\n',
+  'id: 6\ndata: {"type":"content", "content": \n\n',
+  'id: 7\ndata: {"type":"completion","finish_reason":"stop"}\n\n',
+  'data: [DONE]\n\n',
+].join('');
+
+const EXPECTED: DecodedFrame[] = [
+  event(1, { type: 'conversation', conversationId: 'c0a8012e-7f3b-4d5e-9a1c-2b3c4d5e6f70' }),
+  event(2, { type: 'content', content: 'Grüße 👋🏽 from 東京' }),
+  event(3, { type: 'content', content: ' — crlf' }),
+  event(4, { type: 'content', content: 'cr only' }),
+  event(5, { type: 'tool_call', tool_call_id: 'call_1', name: 'global_search', arguments: { query: 'naïve café' } }),
+  { kind: 'invalid', id: 6, data: '{"type":"content", "content": ', error: expect.any(String) } as DecodedFrame,
+  event(7, { type: 'completion', finish_reason: 'stop' }),
+  { kind: 'done', id: null },
+];
+
+describe('StreamDecoder', () => {
+  const bytes = new TextEncoder().encode(STREAM);
+
+  it('decodes a stream received in one piece', () => {
+    expect(decodeAll([STREAM])).toEqual(EXPECTED);
+    expect(decodeAll([bytes])).toEqual(EXPECTED);
+  });
+
+  it('decodes a stream received one byte at a time', () => {
+    const chunks = Array.from(bytes, (byte) => Uint8Array.of(byte));
+    expect(decodeAll(chunks)).toEqual(EXPECTED);
+  });
+
+  it.each(Array.from({ length: 50 }, (_, seed) => seed + 1))('decodes bytes split at random points (seed %i)', (seed) => {
+    const cuts = randomCuts(bytes.length, createRandom(seed));
+    const chunks = cuts.slice(1).map((end, i) => bytes.subarray(cuts[i], end));
+
+    expect(decodeAll(chunks)).toEqual(EXPECTED);
+  });
+
+  it.each(Array.from({ length: 50 }, (_, seed) => seed + 1))('decodes text split at random points (seed %i)', (seed) => {
+    const cuts = randomCuts(STREAM.length, createRandom(seed * 7919));
+    const chunks = cuts.slice(1).map((end, i) => STREAM.slice(cuts[i], end));
+
+    expect(decodeAll(chunks)).toEqual(EXPECTED);
+  });
+
+  it('waits for the \\n after a chunk ending in \\r', () => {
+    const decoder = new StreamDecoder();
+
+    expect(decoder.push('data: {"type":"content","content":"a"}\r')).toEqual([]);
+    expect(decoder.push('\n\r')).toEqual([]);
+    expect(decoder.push('\n')).toEqual([event(null, { type: 'content', content: 'a' })]);
+  });
+
+  it('keeps a character split across chunks intact', () => {
+    const decoder = new StreamDecoder();
+    const encoded = new TextEncoder().encode('data: {"type":"content","content":"👋"}\n\n');
+    const emoji = encoded.indexOf(0xf0);
+
+    expect(decoder.push(encoded.subarray(0, emoji + 2))).toEqual([]);
+    expect(decoder.push(encoded.subarray(emoji + 2))).toEqual([event(null, { type: 'content', content: '👋' })]);
+  });
+
+  it('emits the last frame on flush when the blank line never came', () => {
+    const decoder = new StreamDecoder();
+
+    expect(decoder.push('id: 9\ndata: [DONE]')).toEqual([]);
+    expect(decoder.flush()).toEqual([{ kind: 'done', id: 9 }]);
+  });
+
+  it('does not carry an ID over to the next frame', () => {
+    expect(decodeAll(['id: 1\ndata: [DONE]\n\ndata: [DONE]\n\n'])).toEqual([
+      { kind: 'done', id: 1 },
+      { kind: 'done', id: null },
+    ]);
+  });
+});
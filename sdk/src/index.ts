@@ -1,5 +1,6 @@
 export { UniversalChatWidget } from './UniversalChatWidget';
 export * from './types';
+export * from './protocol';
 
 // Version
 export const VERSION = '1.0.0';
@@ -0,0 +1,309 @@
+/**
+ * Chat stream protocol, mirrored from server/src/utils/stream-protocol.ts
+ * (the server's tests check that the two stay identical).
+ * Every event is one SSE frame (optional `id:` line, JSON on `data:` lines,
+ * blank line); a stream ends with `data: [DONE]`. Unknown event types must be
+ * ignored so the server can add new ones without a version bump.
+ */
+export const STREAM_PROTOCOL_VERSION = 1;
+export const STREAM_PROTOCOL_HEADER = 'X-Stream-Protocol-Version';
+export const STREAM_DONE = '[DONE]';
+// Sent by clients that reconnect to dropped streams (GET /api/chat/stream/:id with
+// Last-Event-ID); only their answers keep running while the connection is down
+export const STREAM_RESUME_HEADER = 'X-Stream-Resume';
+
+export interface ModelTarget {
+  provider: string;
+  model?: string;
+}
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface ContextReport {
+  context_window: number;
+  max_tokens: number;
+  prompt_tokens: number;
+  dropped_messages: number;
+  dropped_tokens: number;
+  truncated_tool_results: number;
+  summarized: boolean;
+}
+
+// A Contentstack entry the answer is based on; `index` is its [n] marker in the text
+export interface SourceReference {
+  index: number;
+  title: string;
+  contentType: string;
+  uid: string;
+  url: string | null;
+  snippet: string | null;
+  locale?: string;
+  // Why a ranked search or recommendation returned the entry
+  relevance?: SourceRelevance;
+}
+
+export interface SourceRelevance {
+  score: number;
+  matchedFields: string[];
+}
+
+export interface ConversationStreamEvent {
+  type: 'conversation';
+  conversationId: string;
+}
+
+export interface ContentStreamEvent {
+  type: 'content';
+  content: string;
+}
+
+export interface ToolCallStreamEvent {
+  type: 'tool_call';
+  tool_call_id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface ToolResultStreamEvent {
+  type: 'tool_result';
+  tool_call_id: string;
+  name: string;
+  content: string;
+}
+
+export interface ToolErrorStreamEvent {
+  type: 'tool_error';
+  tool_call_id: string;
+  name: string;
+  error: string;
+}
+
+export interface SourcesStreamEvent {
+  type: 'sources';
+  sources: SourceReference[];
+}
+
+export interface ProviderSwitchedStreamEvent {
+  type: 'provider_switched';
+  from: ModelTarget;
+  to: ModelTarget;
+  reason: string;
+}
+
+export interface CompletionStreamEvent {
+  type: 'completion';
+  finish_reason: string;
+  usage: TokenUsage | null;
+  tool_rounds: number;
+  provider: string;
+  model: string | null;
+  context: ContextReport | null;
+}
+
+export interface ErrorStreamEvent {
+  type: 'error';
+  error: string;
+  details?: unknown;
+  timestamp: string;
+}
+
+// A human agent as the visitor sees them
+export interface AgentProfile {
+  name: string;
+}
+
+// Who answers the visitor changed: waiting for an agent, an agent took over, or back to the assistant
+export interface HandoffStreamEvent {
+  type: 'handoff';
+  status: 'queued' | 'agent' | 'bot';
+  agent?: AgentProfile;
+  message?: string;
+}
+
+export interface AgentMessageStreamEvent {
+  type: 'agent_message';
+  id: string;
+  content: string;
+  agent: AgentProfile;
+  timestamp: string;
+}
+
+export interface TypingStreamEvent {
+  type: 'typing';
+  author: 'agent' | 'assistant' | 'visitor';
+  isTyping: boolean;
+  agent?: AgentProfile;
+}
+
+export type StreamEvent =
+  | ConversationStreamEvent
+  | ContentStreamEvent
+  | ToolCallStreamEvent
+  | ToolResultStreamEvent
+  | ToolErrorStreamEvent
+  | SourcesStreamEvent
+  | ProviderSwitchedStreamEvent
+  | CompletionStreamEvent
+  | ErrorStreamEvent
+  | HandoffStreamEvent
+  | AgentMessageStreamEvent
+  | TypingStreamEvent;
+
+/**
+ * Socket.io transport. The widget connects with `auth: { apiKey, tenantId,
+ * sessionToken }` and is told its session on `chat_session`; a new session
+ * comes with a new token, which the widget keeps and connects with from then
+ * on. Every tab of a session shares a room and sees the same events. Stream
+ * events are the SSE payloads above, wrapped with the request they answer;
+ * `chat_done` plays the part of `data: [DONE]`.
+ */
+export const SOCKET_EVENTS = {
+  // Widget -> server
+  message: 'chat_message',
+  stop: 'chat_stop',
+  // Both ways: the visitor typing, or the assistant/agent typing for every tab
+  typing: 'typing',
+  // Server -> widget
+  session: 'chat_session',
+  event: 'chat_event',
+  done: 'chat_done',
+  sessionMessage: 'session_message',
+} as const;
+
+// The session a socket joined, sent on connect
+export interface SocketSession {
+  sessionId: string;
+  sessionToken: string;
+}
+
+export interface SocketStreamFrame {
+  requestId: string;
+  id: number;
+  event: StreamEvent;
+}
+
+export interface SocketStreamDone {
+  requestId: string;
+}
+
+// A visitor message sent from another tab of the same session
+export interface SocketSessionMessage {
+  requestId: string;
+  content: string;
+  timestamp: string;
+}
+
+export type SocketMessageAck =
+  | { ok: true; requestId: string }
+  | { ok: false; error: string; details?: unknown };
+
+export type DecodedFrame =
+  | { kind: 'event'; id: number | null; event: StreamEvent }
+  | { kind: 'done'; id: number | null }
+  | { kind: 'invalid'; id: number | null; data: string; error: string };
+
+/**
+ * Incremental SSE decoder. Network chunks can end anywhere, even inside a
+ * line or a multi-byte character, so text is buffered until a line is
+ * complete and a frame is only emitted at its terminating blank line.
+ */
+export class StreamDecoder {
+  private buffer = '';
+  private data: string[] = [];
+  private id: number | null = null;
+  private textDecoder: TextDecoder | null = null;
+
+  /**
+   * Feed raw bytes (or already decoded text) and get the completed frames
+   */
+  public push(chunk: Uint8Array | string): DecodedFrame[] {
+    if (typeof chunk === 'string') {
+      this.buffer += chunk;
+    } else {
+      this.textDecoder = this.textDecoder || new TextDecoder();
+      this.buffer += this.textDecoder.decode(chunk, { stream: true });
+    }
+
+    const frames: DecodedFrame[] = [];
+    let newline = this.buffer.search(/\r\n|\r|\n/);
+
+    while (newline !== -1) {
+      // A lone trailing \r may be the first half of \r\n; wait for more input
+      if (this.buffer[newline] === '\r' && newline === this.buffer.length - 1) break;
+
+      const line = this.buffer.slice(0, newline);
+      const terminator = this.buffer.startsWith('\r\n', newline) ? 2 : 1;
+      this.buffer = this.buffer.slice(newline + terminator);
+
+      const frame = this.processLine(line);
+      if (frame) frames.push(frame);
+
+      newline = this.buffer.search(/\r\n|\r|\n/);
+    }
+
+    return frames;
+  }
+
+  /**
+   * Emit whatever is left once the stream has ended
+   */
+  public flush(): DecodedFrame[] {
+    const frames = this.push(this.textDecoder ? this.textDecoder.decode() : '');
+
+    if (this.buffer) {
+      const frame = this.processLine(this.buffer.replace(/\r$/, ''));
+      if (frame) frames.push(frame);
+      this.buffer = '';
+    }
+
+    const last = this.dispatch();
+    if (last) frames.push(last);
+
+    return frames;
+  }
+
+  private processLine(line: string): DecodedFrame | null {
+    if (line === '') return this.dispatch();
+    if (line.startsWith(':')) return null; // Comment / keep-alive
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+    if (field === 'data') {
+      this.data.push(value);
+    } else if (field === 'id') {
+      const id = parseInt(value, 10);
+      this.id = Number.isNaN(id) ? null : id;
+    }
+
+    return null;
+  }
+
+  private dispatch(): DecodedFrame | null {
+    if (this.data.length === 0) return null;
+
+    const data = this.data.join('\n');
+    const id = this.id;
+    this.data = [];
+    this.id = null;
+
+    if (data === STREAM_DONE) {
+      return { kind: 'done', id };
+    }
+
+    try {
+      const event = JSON.parse(data);
+      if (!event || typeof event.type !== 'string') {
+        return { kind: 'invalid', id, data, error: 'Event has no type' };
+      }
+      return { kind: 'event', id, event: event as StreamEvent };
+    } catch (error) {
+      return { kind: 'invalid', id, data, error: error instanceof Error ? error.message : 'Invalid JSON' };
+    }
+  }
+}
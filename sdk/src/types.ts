@@ -1,3 +1,5 @@
+import type { SourceReference, StreamEvent } from './protocol';
+
 // Core widget types
 export interface WidgetConfig {
   apiKey: string;
@@ -73,12 +75,7 @@ export interface ChatResponse {
   confidence?: number;
 }
 
-export interface ContentSource {
-  type: string;
-  title: string;
-  url?: string;
-  snippet?: string;
-}
+export type ContentSource = SourceReference;
 
 // Event types
 export interface WidgetEvents {
@@ -99,18 +96,8 @@ export interface APIResponse<T = any> {
   timestamp: string;
 }
 
-export interface StreamChunk {
-  type: 'content' | 'tool_result' | 'tool_error' | 'completion' | 'error';
-  content?: string;
-  tool_call_id?: string;
-  finish_reason?: string;
-  error?: string;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
+// Kept for compatibility; the wire format lives in protocol.ts
+export type StreamChunk = StreamEvent;
 
 // Widget state
 export interface WidgetState {
@@ -147,6 +134,8 @@ export interface AdvancedConfig {
   enableTypingIndicator?: boolean;
   enableReadReceipts?: boolean;
   enableOfflineMode?: boolean;
+  // 'auto' uses the websocket when it connects and SSE otherwise
+  transport?: 'auto' | 'websocket' | 'sse';
   customCSS?: string;
   plugins?: WidgetPlugin[];
 }
@@ -0,0 +1,94 @@
+/**
+ * Replays the Contentstack webhook fixtures in fixtures/webhooks against a
+ * running server, authenticated the way the receiver expects.
+ *
+ *   npm run webhooks:replay                     # every fixture
+ *   npm run webhooks:replay -- entry-publish    # selected fixtures
+ *
+ * WEBHOOK_URL defaults to the shared env stack of a local server, which is
+ * set up by CONTENTSTACK_WEBHOOK_AUTH. Contentstack's signature cannot be
+ * forged, so `signature` mode needs WEBHOOK_SIGNING_KEY: a PEM private key
+ * whose public half the server has as CONTENTSTACK_WEBHOOK_PUBLIC_KEY. The
+ * `basic` and `header` fallbacks send CONTENTSTACK_WEBHOOK_SECRET.
+ */
+import 'dotenv/config';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { signWebhookPayload, WEBHOOK_SIGNATURE_HEADER } from '../src/services/contentstack-webhooks.js';
+
+interface WebhookFixture {
+  name: string;
+  description?: string;
+  expect?: { status?: number; action?: string | null };
+  payload: unknown;
+}
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const FIXTURES_DIR = path.resolve(__dirname, '../fixtures/webhooks');
+const url = process.env.WEBHOOK_URL || `http://localhost:${process.env.PORT || 5000}/api/webhooks/contentstack/default`;
+const mode = process.env.CONTENTSTACK_WEBHOOK_AUTH || 'signature';
+const secret = process.env.CONTENTSTACK_WEBHOOK_SECRET;
+const signingKey = process.env.WEBHOOK_SIGNING_KEY;
+
+// Authentication headers for a body, or an explanation of what is missing
+const authenticate = (body: string): Record<string, string> | string => {
+  switch (mode) {
+    case 'signature':
+      if (!signingKey) return 'WEBHOOK_SIGNING_KEY is not set';
+      return { [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, fs.readFileSync(signingKey, 'utf8')) };
+    case 'basic':
+      if (!secret) return 'CONTENTSTACK_WEBHOOK_SECRET is not set';
+      return { authorization: `Basic ${Buffer.from(secret).toString('base64')}` };
+    case 'header':
+      if (!secret || !process.env.CONTENTSTACK_WEBHOOK_HEADER) return 'CONTENTSTACK_WEBHOOK_SECRET and CONTENTSTACK_WEBHOOK_HEADER must be set';
+      return { [process.env.CONTENTSTACK_WEBHOOK_HEADER]: secret };
+    default:
+      return `Unknown CONTENTSTACK_WEBHOOK_AUTH ${mode}`;
+  }
+};
+
+const loadFixtures = (names: string[]): WebhookFixture[] => {
+  const fixtures = fs.readdirSync(FIXTURES_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8')) as WebhookFixture);
+
+  return names.length > 0 ? fixtures.filter((fixture) => names.includes(fixture.name)) : fixtures;
+};
+
+const replay = async (): Promise<void> => {
+  const missing = authenticate('');
+  if (typeof missing === 'string') {
+    console.error(`❌ ${missing}`);
+    process.exit(1);
+  }
+
+  let failures = 0;
+
+  for (const fixture of loadFixtures(process.argv.slice(2))) {
+    const body = JSON.stringify(fixture.payload);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(authenticate(body) as Record<string, string>),
+      },
+      body,
+    });
+    const result = await response.json().catch(() => null);
+
+    const statusOk = fixture.expect?.status === undefined || fixture.expect.status === response.status;
+    const actionOk = fixture.expect?.action === undefined || fixture.expect.action === result?.action;
+    if (!statusOk || !actionOk) failures++;
+
+    console.log(`${statusOk && actionOk ? '✅' : '❌'} ${fixture.name}: ${response.status}`, result);
+  }
+
+  process.exit(failures > 0 ? 1 : 0);
+};
+
+replay().catch((error) => {
+  console.error('❌ Webhook replay failed:', error);
+  process.exit(1);
+});
@@ -16,17 +16,32 @@ import widgetRoutes from './routes/widget.js';
 import analyticsRoutes from './routes/analytics.js';
 import authRoutes from './routes/auth.js';
 import tenantRoutes from './routes/tenant.js';
+import webhookRoutes, { WebhookRequest } from './routes/webhooks.js';
 
 // Import services
 import { LLMService } from './services/llm-service.js';
 import { CacheService } from './services/cache-service.js';
 import { DatabaseService } from './services/database-service.js';
+import { ConversationService } from './services/conversation-service.js';
+import { ContentstackServicePool } from './services/contentstack-pool.js';
+import { PromptService } from './services/prompt-service.js';
+import { GenerationRegistry } from './services/generation-registry.js';
+import { StreamBuffer } from './services/stream-buffer.js';
+import { RetrievalService } from './services/retrieval-service.js';
+import { loadEmbeddingBackendFromEnv } from './services/embeddings/index.js';
+import { ToolRegistry } from './services/tool-registry.js';
+import { registerContentstackTools } from './tools/contentstack-tools.js';
+import { registerEscalationTools } from './tools/escalation-tools.js';
+import { EscalationService } from './services/escalation-service.js';
+import { AgentGateway } from './services/agent-gateway.js';
+import { ChatGateway } from './services/chat-gateway.js';
 
 // Import middleware
 import { errorHandler } from './middleware/error-handler.js';
 import { logger } from './middleware/logger.js';
 import { metrics } from './middleware/metrics.js';
 import { security } from './middleware/security.js';
+import { STREAM_RESUME_HEADER } from './utils/stream-protocol.js';
 
 // Load environment variables
 dotenv.config();
@@ -93,7 +108,7 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'x-api-key', 'x-tenant-id']
+  allowedHeaders: ['Content-Type', 'Authorization', 'x-api-key', 'x-tenant-id', 'Last-Event-ID', STREAM_RESUME_HEADER]
 }));
 
 // Rate limiting
@@ -114,7 +129,15 @@ if (NODE_ENV === 'production') {
 // Basic middleware
 app.use(compression());
 app.use(morgan(NODE_ENV === 'production' ? 'combined' : 'dev'));
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // Webhook signatures are computed over the exact bytes received
+  verify: (req, _res, buf) => {
+    if (req.url?.startsWith('/api/webhooks/')) {
+      (req as WebhookRequest).rawBody = buf;
+    }
+  },
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Custom middleware
@@ -130,6 +153,14 @@ let services: {
   llm: LLMService;
   cache: CacheService;
   database: DatabaseService;
+  conversations: ConversationService;
+  contentstack: ContentstackServicePool;
+  prompts: PromptService;
+  generations: GenerationRegistry;
+  streams: StreamBuffer;
+  retrieval: RetrievalService;
+  tools: ToolRegistry;
+  escalations: EscalationService;
 } | null = null;
 
 async function initializeServices() {
@@ -154,14 +185,40 @@ async function initializeServices() {
     const llmService = new LLMService();
     console.log('✅ LLM service initialized');
 
+    // Initialize tool registry with the built-in Contentstack and handoff tools
+    const toolRegistry = registerEscalationTools(registerContentstackTools(new ToolRegistry()));
+    console.log(`✅ Tool registry initialized with ${toolRegistry.list().length} tool(s)`);
+
+    // Local search index over Contentstack content, built per stack on first use
+    const contentstackPool = new ContentstackServicePool(cacheService);
+    const embeddings = loadEmbeddingBackendFromEnv();
+    const retrievalService = new RetrievalService(contentstackPool, embeddings);
+    console.log(`✅ Retrieval service initialized (${embeddings ? `BM25 + ${embeddings.name} embeddings` : 'BM25 only'})`);
+
+    // Human handoff: agents take escalated conversations over socket.io
+    const escalationService = new EscalationService(databaseService);
+    new AgentGateway(io, escalationService).attach();
+    console.log('✅ Escalation service initialized');
+
     services = {
       llm: llmService,
       cache: cacheService,
       database: databaseService,
+      conversations: new ConversationService(databaseService),
+      contentstack: contentstackPool,
+      prompts: new PromptService(),
+      generations: new GenerationRegistry(),
+      streams: new StreamBuffer(cacheService),
+      retrieval: retrievalService,
+      tools: toolRegistry,
+      escalations: escalationService,
     };
 
     // Make services available to routes
     app.locals.services = services;
+
+    // Chat over socket.io, streaming through the same pipeline as the SSE endpoint
+    new ChatGateway(io, services).attach();
     
     console.log('✅ All services initialized successfully');
   } catch (error) {
@@ -209,6 +266,7 @@ app.use('/api/widget', widgetRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/tenant', tenantRoutes);
+app.use('/api/webhooks', webhookRoutes);
 
 // Widget serving (for direct CDN access)
 app.get('/widget/v1/universal-chat.js', (req, res) => {
@@ -288,30 +346,6 @@ io.on('connection', (socket) => {
     console.log(`🏢 Socket ${socket.id} joined tenant: ${tenantId}`);
   });
 
-  socket.on('chat_message', async (data) => {
-    try {
-      // Broadcast typing indicator
-      socket.to(`tenant_${data.tenantId}`).emit('typing', {
-        conversationId: data.conversationId,
-        isTyping: true
-      });
-
-      // Process message (this would integrate with your LLM service)
-      // For now, just echo back
-      setTimeout(() => {
-        socket.to(`tenant_${data.tenantId}`).emit('chat_response', {
-          conversationId: data.conversationId,
-          response: `Echo: ${data.message}`,
-          timestamp: new Date().toISOString()
-        });
-      }, 1000);
-
-    } catch (error) {
-      console.error('Socket message error:', error);
-      socket.emit('error', { message: 'Failed to process message' });
-    }
-  });
-
   socket.on('disconnect', () => {
     console.log(`🔌 Client disconnected: ${socket.id}`);
   });
@@ -1,6 +1,7 @@
 import jwt from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
 import { AppError } from './error-handler.js';
+import type { DatabaseService } from '../services/database-service.js';
 
 export interface AuthUser {
   id: string;
@@ -14,17 +15,12 @@ export interface AuthRequest extends Request {
   tenant?: any;
 }
 
+// Operator routes: a JWT user only. The widget API key is public (it is in the
+// site's embed code), so it only authenticates widget endpoints (resolveWidgetTenant).
 export const authMiddleware = (req: AuthRequest, res: Response, next: NextFunction): void => {
   try {
     const authHeader = req.header('Authorization');
-    const apiKey = req.header('x-api-key');
-    
-    // Check for API key authentication (for widget usage)
-    if (apiKey) {
-      validateApiKey(apiKey, req, next);
-      return;
-    }
-    
+
     // Check for JWT authentication
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
       throw new AppError('Access denied. No valid authentication provided.', 401);
@@ -59,25 +55,30 @@ export const authMiddleware = (req: AuthRequest, res: Response, next: NextFuncti
 // API key validation for widget access
 const validateApiKey = async (apiKey: string, req: AuthRequest, next: NextFunction) => {
   try {
-    // In a real implementation, you would:
-    // 1. Hash the API key and look it up in the database
-    // 2. Get the associated tenant information
-    // 3. Set req.tenant with the tenant data
-    
-    // For now, we'll do a simple validation
     if (!apiKey || apiKey.length < 10) {
       throw new AppError('Invalid API key', 401);
     }
-    
-    // Mock tenant data (replace with database lookup)
-    req.tenant = {
-      id: 'tenant_' + apiKey.substring(0, 8),
-      apiKey: apiKey,
-      name: 'Demo Tenant',
-      plan: 'free',
-      isActive: true
-    };
-    
+
+    const database: DatabaseService | undefined = req.app.locals.services?.database;
+
+    if (database) {
+      const tenant = await database.getTenantByApiKey(apiKey);
+      if (!tenant || tenant.status !== 'active') {
+        throw new AppError('Invalid API key', 401);
+      }
+
+      req.tenant = tenant;
+    } else {
+      // No database configured (local development): fall back to a demo tenant
+      req.tenant = {
+        id: 'tenant_' + apiKey.substring(0, 8),
+        apiKey: apiKey,
+        name: 'Demo Tenant',
+        plan: 'free',
+        isActive: true
+      };
+    }
+
     console.log(`🔑 API key authenticated for tenant: ${req.tenant.id}`);
     next();
   } catch (error) {
@@ -85,6 +86,45 @@ const validateApiKey = async (apiKey: string, req: AuthRequest, next: NextFuncti
   }
 };
 
+// Resolve the widget's tenant from x-api-key (and x-tenant-id when sent).
+// Requests without an API key continue anonymously with the default stack;
+// a failed lookup refuses the request rather than serving it anonymously.
+export const resolveWidgetTenant = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const apiKey = req.header('x-api-key');
+  const tenantId = req.header('x-tenant-id');
+  const database: DatabaseService | undefined = req.app.locals.services?.database;
+
+  if (!apiKey || !database) {
+    next();
+    return;
+  }
+
+  let tenant;
+  try {
+    tenant = await database.getTenantByApiKey(apiKey);
+  } catch (error) {
+    console.error('❌ Tenant lookup failed:', error);
+    next(new AppError('Tenant lookup unavailable', 503));
+    return;
+  }
+
+  if (!tenant) {
+    next(new AppError('Invalid API key', 401));
+    return;
+  }
+  if (tenantId && tenant.id !== tenantId) {
+    next(new AppError('Invalid API key or tenant', 403));
+    return;
+  }
+  if (tenant.status !== 'active') {
+    next(new AppError('Tenant is not active', 403));
+    return;
+  }
+
+  req.tenant = tenant;
+  next();
+};
+
 // Optional authentication (doesn't fail if no auth provided)
 export const optionalAuth = (req: AuthRequest, res: Response, next: NextFunction): void => {
   try {
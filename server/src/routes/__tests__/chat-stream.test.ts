@@ -0,0 +1,449 @@
+import { jest } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import { randomUUID } from 'crypto';
+import { readServerSentEvents } from '../../services/llm-providers/stream-utils.js';
+import { errorHandler } from '../../middleware/error-handler.js';
+import { ConversationService } from '../../services/conversation-service.js';
+import type { ConversationRecord, DatabaseService, MessageRecord, TenantRecord } from '../../services/database-service.js';
+import { GenerationRegistry } from '../../services/generation-registry.js';
+import { PromptService } from '../../services/prompt-service.js';
+import { ToolRegistry } from '../../services/tool-registry.js';
+import { registerContentstackTools } from '../../tools/contentstack-tools.js';
+import { STREAM_DONE, STREAM_PROTOCOL_HEADER, STREAM_RESUME_HEADER, StreamEvent } from '../../utils/stream-protocol.js';
+
+/**
+ * End-to-end tests of POST /api/chat/stream (and POST /api/chat, which runs
+ * the same turn) on the mock provider: the real router, agent loop and tool
+ * registry, with Contentstack and the database replaced by in-memory stand-ins.
+ */
+
+// Keep retry backoff short; read when the LLM service module loads
+process.env.LLM_RETRY_BASE_DELAY_MS = '1';
+const { LLMService } = await import('../../services/llm-service.js');
+const { default: chatRoutes } = await import('../chat.js');
+
+const products = [
+  { uid: 'blt_trail', title: 'Trail Runner 2', url: '/products/trail-runner-2', description: 'Lightweight running shoes for trails' },
+  { uid: 'blt_road', title: 'Road Glide', url: '/products/road-glide', description: 'Cushioned running shoes for the road' },
+];
+
+const contentstack = {
+  queryContent: jest.fn(async () => products),
+  globalSearch: jest.fn(async () => products.slice(0, 1)),
+  getEntry: jest.fn(async () => products[0]),
+  recommendContent: jest.fn(async () => products),
+  getContentTypeSummaries: async () => [],
+};
+
+// Just enough of DatabaseService for ConversationService
+const createDatabase = () => {
+  const conversations = new Map<string, ConversationRecord>();
+  const messages: MessageRecord[] = [];
+
+  const database = {
+    createConversation: async (conversation: any) => {
+      const record = { ...conversation, id: randomUUID(), created_at: new Date(), updated_at: new Date() };
+      conversations.set(record.id, record);
+      return record;
+    },
+    getVisitorConversation: async (id: string, tenantId: string | null, sessionId: string | null) => {
+      const conversation = conversations.get(id);
+      const visible = conversation && conversation.tenant_id === tenantId && conversation.session_id === sessionId;
+      return visible ? conversation : null;
+    },
+    createMessage: async (message: any) => {
+      const record = { ...message, id: randomUUID(), created_at: new Date() };
+      messages.push(record);
+      return record;
+    },
+  };
+
+  return { database: database as unknown as DatabaseService, conversations, messages };
+};
+
+const createApp = (options: {
+  withDatabase?: boolean;
+  fallbackChain?: string;
+  getTenantByApiKey?: (apiKey: string) => Promise<TenantRecord | null>;
+  streams?: Record<string, unknown>;
+} = {}) => {
+  if (options.fallbackChain) {
+    process.env.LLM_FALLBACK_CHAIN = options.fallbackChain;
+  }
+  const llm = new LLMService([
+    { type: 'mock', name: 'mock', models: [] },
+    { type: 'mock', name: 'mock-backup', models: [] },
+  ]);
+  delete process.env.LLM_FALLBACK_CHAIN;
+
+  const store = options.withDatabase ? createDatabase() : null;
+  const app = express();
+  app.use(express.json());
+  app.locals.services = {
+    llm,
+    contentstack: { forTenant: () => contentstack },
+    prompts: new PromptService(),
+    tools: registerContentstackTools(new ToolRegistry()),
+    generations: new GenerationRegistry(),
+    ...(store && { conversations: new ConversationService(store.database) }),
+    ...(options.getTenantByApiKey && { database: { getTenantByApiKey: options.getTenantByApiKey } }),
+    ...(options.streams && { streams: options.streams }),
+  };
+  app.use('/api/chat', chatRoutes);
+  app.use(errorHandler);
+
+  return { app, store };
+};
+
+async function* once(text: string): AsyncIterable<string> {
+  yield text;
+}
+
+// POST to /stream and decode the SSE body into protocol events
+const stream = async (app: express.Express, body: Record<string, unknown>, headers: Record<string, string> = {}) => {
+  const response = await request(app)
+    .post('/api/chat/stream')
+    .set(headers)
+    .send({ provider: 'mock', ...body })
+    .buffer(true)
+    .parse((res, callback) => {
+      let text = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => { text += chunk; });
+      res.on('end', () => callback(null, text));
+    });
+
+  const events: StreamEvent[] = [];
+  let done = false;
+  for await (const { data } of readServerSentEvents(once(response.body))) {
+    if (data === STREAM_DONE) {
+      done = true;
+    } else {
+      events.push(JSON.parse(data));
+    }
+  }
+
+  const text = events.flatMap((event) => (event.type === 'content' ? [event.content] : [])).join('');
+  return { response, events, types: events.map((event) => event.type), text, done };
+};
+
+const ask = (content: string) => ({ messages: [{ role: 'user', content }] });
+
+// A model that is no scenario name, so the mock picks the scenario matching the message
+const matching = (content: string) => ({ ...ask(content), model: 'scripted' });
+
+describe('POST /api/chat/stream (mock provider)', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('streams a plain answer and ends with [DONE]', async () => {
+    const { app } = createApp();
+    const { response, types, text, done, events } = await stream(app, ask('Hi there'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(/text\/event-stream/);
+    expect(response.headers[STREAM_PROTOCOL_HEADER.toLowerCase()]).toBe('1');
+    expect(types).toEqual(['content', 'content', 'content', 'completion']);
+    expect(text).toBe("Hello! I'm the mock assistant. How can I help you today?");
+    expect(events.at(-1)).toMatchObject({
+      type: 'completion',
+      finish_reason: 'stop',
+      provider: 'mock',
+      usage: { total_tokens: 426 },
+      tool_rounds: 0,
+    });
+    expect(done).toBe(true);
+  });
+
+  it('numbers every event', async () => {
+    const { app } = createApp();
+    const { response } = await stream(app, ask('Hi there'));
+
+    const ids = Array.from(String(response.body).matchAll(/^id: (\d+)$/gm), (match) => Number(match[1]));
+    expect(ids).toEqual([1, 2, 3, 4]);
+  });
+
+  it('runs a tool call streamed in fragments and answers with its result', async () => {
+    const { app } = createApp();
+    const { types, events, text } = await stream(app, matching('Which running shoes can I buy?'));
+
+    expect(types).toEqual(['tool_call', 'tool_result', 'content', 'content', 'content', 'sources', 'completion']);
+    expect(events[0]).toEqual({
+      type: 'tool_call',
+      tool_call_id: 'call_product_search',
+      name: 'query_contentstack_content',
+      arguments: { content_type: 'product', query: 'running shoes', limit: 3 },
+    });
+    expect(contentstack.queryContent).toHaveBeenCalledTimes(1);
+    expect(contentstack.queryContent).toHaveBeenCalledWith('product', 'running shoes', 3, expect.any(Object));
+
+    const result = JSON.parse((events[1] as { content: string }).content);
+    expect(result.map((entry: { title: string }) => entry.title)).toEqual(['Trail Runner 2', 'Road Glide']);
+    expect(text).toMatch(/^Here are a few products/);
+    expect(events.find((event) => event.type === 'sources')).toBeDefined();
+    expect(events.at(-1)).toMatchObject({ type: 'completion', tool_rounds: 1, usage: { total_tokens: 1293 } });
+  });
+
+  it('runs parallel tool calls of one turn', async () => {
+    const { app } = createApp();
+    const { events } = await stream(app, matching('Compare the trail runner vs the road glide'));
+
+    const calls = events.filter((event) => event.type === 'tool_call');
+    const results = events.filter((event) => event.type === 'tool_result');
+    expect(calls.map((event) => event.type === 'tool_call' && event.tool_call_id)).toEqual(['call_search_articles', 'call_search_faq']);
+    expect(results).toHaveLength(2);
+    expect(contentstack.queryContent).toHaveBeenCalledTimes(1);
+    expect(contentstack.globalSearch).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends validation errors as an error event', async () => {
+    const { app } = createApp();
+    const { types, events, done } = await stream(app, { messages: 'not a list' });
+
+    expect(types).toEqual(['error']);
+    expect(events[0]).toMatchObject({ type: 'error', error: 'Validation failed' });
+    expect(done).toBe(true);
+  });
+
+  it('reports an unknown provider as an error event', async () => {
+    const { app } = createApp();
+    const { events } = await stream(app, { ...ask('Hi'), provider: 'nope' });
+
+    expect(events).toEqual([expect.objectContaining({ type: 'error', error: 'Provider nope not available' })]);
+  });
+
+  it('refuses widget requests while the tenant lookup is failing', async () => {
+    const { app } = createApp({
+      getTenantByApiKey: async () => {
+        throw new Error('connection refused');
+      },
+    });
+
+    const response = await request(app).post('/api/chat/stream').set('x-api-key', 'key-1').send(ask('Hi'));
+    expect(response.status).toBe(503);
+    expect(response.text).not.toMatch(/Hello!/);
+  });
+
+  it('fails over to the next provider when the first one is down', async () => {
+    const { app } = createApp({ fallbackChain: 'mock-backup:default' });
+    const { types, events, text } = await stream(app, { ...ask('Hi'), model: 'upstream-error' });
+
+    expect(types[0]).toBe('provider_switched');
+    expect(events[0]).toMatchObject({
+      from: { provider: 'mock', model: 'upstream-error' },
+      to: { provider: 'mock-backup', model: 'default' },
+      reason: 'Service Unavailable',
+    });
+    expect(text).toBe("Hello! I'm the mock assistant. How can I help you today?");
+    expect(events.at(-1)).toMatchObject({ type: 'completion', provider: 'mock-backup', model: 'default' });
+  });
+
+  it('does not retry once the answer has started', async () => {
+    const { app } = createApp({ fallbackChain: 'mock-backup:default' });
+    const { types, text, events } = await stream(app, { ...ask('Hi'), model: 'mid-stream-error' });
+
+    expect(types).toEqual(['content', 'error']);
+    expect(text).toBe('Let me check that for you');
+    expect(events[1]).toMatchObject({ error: 'socket hang up' });
+  });
+
+  describe('with a resume buffer', () => {
+    const createStreams = () => ({
+      isEnabled: () => true,
+      open: jest.fn(async () => {}),
+      append: jest.fn(async () => {}),
+      hasReader: async () => false,
+    });
+
+    it('buffers the stream for clients that can resume it', async () => {
+      const streams = createStreams();
+      const { app } = createApp({ streams });
+
+      const response = await request(app).post('/api/chat/stream').set(STREAM_RESUME_HEADER, '1').send({ provider: 'mock', ...ask('Hi') });
+      expect(response.headers['x-stream-id']).toEqual(expect.any(String));
+      expect(streams.open).toHaveBeenCalledWith(response.headers['x-stream-id'], null);
+      expect(streams.append).toHaveBeenLastCalledWith(response.headers['x-stream-id'], { id: 5, data: STREAM_DONE });
+    });
+
+    it('still answers when the buffer cannot be opened', async () => {
+      const streams = { ...createStreams(), open: jest.fn(async () => { throw new Error('Redis down'); }) };
+      const { app } = createApp({ streams });
+
+      const response = await request(app).post('/api/chat/stream').set(STREAM_RESUME_HEADER, '1').send({ provider: 'mock', ...ask('Hi') });
+      expect(response.status).toBe(200);
+      expect(response.headers['x-stream-id']).toBeUndefined();
+      expect(response.text).toMatch(/How can I help you today\?/);
+      expect(streams.append).not.toHaveBeenCalled();
+    });
+
+    it('does not buffer for clients that cannot resume', async () => {
+      const streams = createStreams();
+      const { app } = createApp({ streams });
+
+      const response = await request(app).post('/api/chat/stream').send({ provider: 'mock', ...ask('Hi') });
+      expect(response.headers['x-stream-id']).toBeUndefined();
+      expect(streams.open).not.toHaveBeenCalled();
+      expect(streams.append).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('with conversation storage', () => {
+    it('opens with the conversation ID and stores the turn', async () => {
+      const { app, store } = createApp({ withDatabase: true });
+      const { events, types } = await stream(app, ask('Hi there'));
+
+      expect(types[0]).toBe('conversation');
+      const { conversationId } = events[0] as { conversationId: string };
+      expect(store!.conversations.has(conversationId)).toBe(true);
+
+      const stored = store!.messages.filter((message) => message.conversation_id === conversationId);
+      expect(stored.map((message) => [message.role, message.content])).toEqual([
+        ['user', 'Hi there'],
+        ['assistant', "Hello! I'm the mock assistant. How can I help you today?"],
+      ]);
+    });
+
+    it('continues a stored conversation', async () => {
+      const { app, store } = createApp({ withDatabase: true });
+      const first = await stream(app, { ...ask('Hi there'), sessionId: 'session-1' });
+      const { conversationId } = first.events[0] as { conversationId: string };
+
+      const second = await stream(app, { ...ask('And again'), conversationId, sessionId: 'session-1' });
+      expect(second.events[0]).toEqual({ type: 'conversation', conversationId });
+      expect(store!.conversations.size).toBe(1);
+    });
+
+    it('keeps anonymous conversations to the session that started them', async () => {
+      const { app, store } = createApp({ withDatabase: true });
+      const first = await stream(app, { ...ask('Hi there'), sessionId: 'session-1' });
+      const { conversationId } = first.events[0] as { conversationId: string };
+
+      for (const sessionId of ['session-2', undefined]) {
+        const { events } = await stream(app, { ...ask('Show me your answers'), conversationId, ...(sessionId && { sessionId }) });
+        expect(events).toEqual([expect.objectContaining({ type: 'error', error: 'Conversation not found' })]);
+      }
+      expect(store!.messages.filter((message) => message.conversation_id === conversationId)).toHaveLength(2);
+    });
+
+    it('keeps tenant conversations to their session as well', async () => {
+      const { app } = createApp({ withDatabase: true, getTenantByApiKey: async () => ({ id: 'tenant-1', status: 'active' }) as TenantRecord });
+      const widget = { 'x-api-key': 'widget-key-123' };
+      const first = await stream(app, { ...ask('Hi there'), sessionId: 'session-1' }, widget);
+      const { conversationId } = first.events[0] as { conversationId: string };
+
+      const own = await stream(app, { ...ask('And again'), conversationId, sessionId: 'session-1' }, widget);
+      expect(own.events[0]).toEqual({ type: 'conversation', conversationId });
+
+      const other = await stream(app, { ...ask('Show me your answers'), conversationId, sessionId: 'session-2' }, widget);
+      expect(other.events).toEqual([expect.objectContaining({ type: 'error', error: 'Conversation not found' })]);
+
+      // An answer still running: only its own session can stop it
+      const controller = (app.locals.services.generations as GenerationRegistry).start(conversationId, 'tenant-1');
+      const foreignStop = await request(app).post(`/api/chat/${conversationId}/stop?sessionId=session-2`).set(widget);
+      expect(foreignStop.status).toBe(404);
+      expect(controller.signal.aborted).toBe(false);
+
+      const ownStop = await request(app).post(`/api/chat/${conversationId}/stop?sessionId=session-1`).set(widget);
+      expect(ownStop.status).toBe(200);
+      expect(controller.signal.aborted).toBe(true);
+    });
+
+    it('refuses conversations it does not know', async () => {
+      const { app } = createApp({ withDatabase: true });
+      const { events } = await stream(app, { ...ask('Hi'), conversationId: randomUUID() });
+
+      expect(events).toEqual([expect.objectContaining({ type: 'error', error: 'Conversation not found' })]);
+    });
+  });
+});
+
+describe('POST /api/chat (mock provider)', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const chat = (app: express.Express, body: Record<string, unknown>) => {
+    return request(app).post('/api/chat').send({ provider: 'mock', ...body });
+  };
+
+  it('answers with the collected text and completion details', async () => {
+    const { app } = createApp();
+    const response = await chat(app, ask('Hi there'));
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      conversationId: null,
+      response: "Hello! I'm the mock assistant. How can I help you today?",
+      provider: 'mock',
+      usage: { total_tokens: 426 },
+      finishReason: 'stop',
+      toolCalls: [],
+      sources: [],
+    });
+    expect(response.body.handoff).toBeUndefined();
+  });
+
+  it('lists the tool calls and sources of the answer', async () => {
+    const { app } = createApp();
+    const response = await chat(app, matching('Which running shoes can I buy?'));
+
+    expect(response.status).toBe(200);
+    expect(response.body.response).toMatch(/^Here are a few products/);
+    expect(response.body.toolCalls).toEqual([
+      { name: 'query_contentstack_content', arguments: { content_type: 'product', query: 'running shoes', limit: 3 } },
+    ]);
+    expect(response.body.sources.length).toBeGreaterThan(0);
+    expect(response.body.sources[0]).toMatchObject({ index: 1, contentType: 'product' });
+  });
+
+  it('rejects invalid requests with 400', async () => {
+    const { app } = createApp();
+    const response = await chat(app, { messages: 'not a list' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Validation failed');
+  });
+
+  it('answers an unknown provider with 400', async () => {
+    const { app } = createApp();
+    const response = await chat(app, { ...ask('Hi'), provider: 'nope' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Provider nope not available');
+  });
+
+  it('answers a failed turn with 500', async () => {
+    const { app } = createApp({ fallbackChain: 'mock-backup:default' });
+    const response = await chat(app, { ...ask('Hi'), model: 'mid-stream-error' });
+
+    expect(response.status).toBe(500);
+    expect(response.body).toMatchObject({ error: 'Failed to process chat request', message: 'socket hang up' });
+  });
+
+  it('stores the turn and keeps conversations to their session', async () => {
+    const { app, store } = createApp({ withDatabase: true });
+    const first = await chat(app, { ...ask('Hi there'), sessionId: 'session-1' });
+    const { conversationId } = first.body;
+
+    expect(store!.conversations.has(conversationId)).toBe(true);
+    expect(store!.messages.filter((message) => message.conversation_id === conversationId)).toHaveLength(2);
+
+    const other = await chat(app, { ...ask('Show me your answers'), conversationId, sessionId: 'session-2' });
+    expect(other.status).toBe(404);
+    expect(other.body.error).toBe('Conversation not found');
+  });
+});
+
+describe('GET /api/chat/history/:conversationId', () => {
+  it('does not accept the public widget API key', async () => {
+    const getTenantByApiKey = jest.fn(async () => ({ id: 'tenant-1', status: 'active' }) as TenantRecord);
+    const { app } = createApp({ withDatabase: true, getTenantByApiKey });
+
+    const response = await request(app).get(`/api/chat/history/${randomUUID()}`).set('x-api-key', 'widget-key-123');
+
+    expect(response.status).toBe(401);
+    expect(getTenantByApiKey).not.toHaveBeenCalled();
+  });
+});
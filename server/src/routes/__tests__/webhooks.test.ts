@@ -0,0 +1,228 @@
+import { jest } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import fs from 'fs';
+import path from 'path';
+import { generateKeyPairSync } from 'crypto';
+import { fileURLToPath } from 'url';
+import { errorHandler } from '../../middleware/error-handler.js';
+import {
+  ContentstackSigningKeys,
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+} from '../../services/contentstack-webhooks.js';
+import webhookRoutes, { WebhookRequest } from '../webhooks.js';
+
+/**
+ * The Contentstack webhook receiver, fed the fixtures in fixtures/webhooks.
+ * A locally generated key pair stands in for Contentstack's signing key
+ * (served through CONTENTSTACK_WEBHOOK_PUBLIC_KEY).
+ */
+
+interface WebhookFixture {
+  name: string;
+  expect: { status: number; action: string | null };
+  payload: Record<string, any>;
+}
+
+const FIXTURES_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../../fixtures/webhooks');
+const fixtures: WebhookFixture[] = fs.readdirSync(FIXTURES_DIR)
+  .filter((file) => file.endsWith('.json'))
+  .sort()
+  .map((file) => JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8')));
+
+const STACK_API_KEY = 'blt0000000000000001';
+const contentstackKeys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const otherKeys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const publicKeyPem = contentstackKeys.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+const contentstack = {
+  getConfig: () => ({ environment: 'production', region: 'us' }),
+  getCacheNamespace: () => 'default',
+  isStack: (apiKey: unknown) => apiKey === STACK_API_KEY,
+  invalidateEntry: jest.fn(async () => 2),
+  invalidateContentType: jest.fn(async () => 5),
+  getEntry: jest.fn(async () => null),
+};
+
+const createApp = () => {
+  const app = express();
+  // Same raw body capture as index.ts
+  app.use(express.json({
+    verify: (req, _res, buf) => {
+      (req as WebhookRequest).rawBody = buf;
+    },
+  }));
+  app.locals.services = { contentstack: { forTenant: () => contentstack, getDefault: () => contentstack } };
+  app.use('/api/webhooks', webhookRoutes);
+  app.use(errorHandler);
+  return app;
+};
+
+const post = (body: string, headers: Record<string, string> = {}) => request(createApp())
+  .post('/api/webhooks/contentstack/default')
+  .set({ 'Content-Type': 'application/json', ...headers })
+  .send(body);
+
+const signed = (body: string, privateKey = contentstackKeys.privateKey) => ({
+  [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, privateKey),
+});
+
+const ENV_KEYS = ['CONTENTSTACK_WEBHOOK_PUBLIC_KEY', 'CONTENTSTACK_WEBHOOK_AUTH', 'CONTENTSTACK_WEBHOOK_SECRET', 'CONTENTSTACK_WEBHOOK_HEADER'];
+const savedEnv = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  for (const key of ENV_KEYS) delete process.env[key];
+  process.env.CONTENTSTACK_WEBHOOK_PUBLIC_KEY = publicKeyPem;
+});
+
+afterAll(() => {
+  for (const [key, value] of Object.entries(savedEnv)) {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+});
+
+describe('POST /api/webhooks/contentstack/:tenantId', () => {
+  describe('Contentstack request signature', () => {
+    it.each(fixtures.map((fixture) => [fixture.name, fixture] as const))('handles the signed %s fixture', async (_name, fixture) => {
+      const body = JSON.stringify(fixture.payload);
+      const response = await post(body, signed(body));
+
+      expect(response.status).toBe(fixture.expect.status);
+      expect(response.body).toMatchObject({ received: true, action: fixture.expect.action });
+    });
+
+    it('drops the cache keys of a published entry', async () => {
+      const fixture = fixtures.find((candidate) => candidate.name === 'entry-publish')!;
+      const body = JSON.stringify(fixture.payload);
+      const response = await post(body, signed(body));
+
+      expect(response.body).toMatchObject({ uid: 'blt7e5b0f4a1c2d3e4f', cacheKeysDeleted: 2 });
+      expect(contentstack.invalidateEntry).toHaveBeenCalledWith('product', 'blt7e5b0f4a1c2d3e4f');
+    });
+
+    it('accepts the PEM key with escaped newlines, as env files carry it', async () => {
+      process.env.CONTENTSTACK_WEBHOOK_PUBLIC_KEY = publicKeyPem.replace(/\n/g, '\\n');
+      const body = JSON.stringify(fixtures[0]!.payload);
+
+      expect((await post(body, signed(body))).status).toBe(fixtures[0]!.expect.status);
+    });
+
+    it('rejects a request without a signature', async () => {
+      const body = JSON.stringify(fixtures[0]!.payload);
+      const response = await post(body);
+
+      expect(response.status).toBe(401);
+      expect(contentstack.invalidateEntry).not.toHaveBeenCalled();
+    });
+
+    it('rejects a body changed after signing', async () => {
+      const fixture = fixtures.find((candidate) => candidate.name === 'entry-publish')!;
+      const body = JSON.stringify(fixture.payload);
+      const tampered = body.replace('Trail Running Shoes', 'Free Shoes');
+
+      expect((await post(tampered, signed(body))).status).toBe(401);
+    });
+
+    it('rejects a signature made with another key', async () => {
+      const body = JSON.stringify(fixtures[0]!.payload);
+
+      expect((await post(body, signed(body, otherKeys.privateKey))).status).toBe(401);
+    });
+
+    it('rejects a garbled signature', async () => {
+      const body = JSON.stringify(fixtures[0]!.payload);
+
+      expect((await post(body, { [WEBHOOK_SIGNATURE_HEADER]: 'not base64 at all!' })).status).toBe(401);
+    });
+
+    it('rejects a correctly signed webhook of another stack', async () => {
+      const body = JSON.stringify({ ...fixtures[0]!.payload, api_key: 'blt_someone_else' });
+      const response = await post(body, signed(body));
+
+      expect(response.status).toBe(403);
+      expect(contentstack.invalidateEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('basic auth fallback', () => {
+    beforeEach(() => {
+      process.env.CONTENTSTACK_WEBHOOK_AUTH = 'basic';
+      process.env.CONTENTSTACK_WEBHOOK_SECRET = 'contentstack:s3cret';
+    });
+
+    it('accepts the configured credentials', async () => {
+      const body = JSON.stringify(fixtures[0]!.payload);
+      const response = await post(body, { authorization: `Basic ${Buffer.from('contentstack:s3cret').toString('base64')}` });
+
+      expect(response.status).toBe(fixtures[0]!.expect.status);
+    });
+
+    it('rejects other credentials, and signatures alone', async () => {
+      const body = JSON.stringify(fixtures[0]!.payload);
+
+      expect((await post(body, { authorization: `Basic ${Buffer.from('contentstack:guess').toString('base64')}` })).status).toBe(401);
+      expect((await post(body, signed(body))).status).toBe(401);
+    });
+
+    it('refuses webhooks until credentials are configured', async () => {
+      delete process.env.CONTENTSTACK_WEBHOOK_SECRET;
+      const body = JSON.stringify(fixtures[0]!.payload);
+
+      expect((await post(body, signed(body))).status).toBe(503);
+    });
+  });
+
+  describe('custom header fallback', () => {
+    beforeEach(() => {
+      process.env.CONTENTSTACK_WEBHOOK_AUTH = 'header';
+      process.env.CONTENTSTACK_WEBHOOK_HEADER = 'X-Webhook-Secret';
+      process.env.CONTENTSTACK_WEBHOOK_SECRET = 'shared-secret';
+    });
+
+    it('accepts the secret in the configured header', async () => {
+      const body = JSON.stringify(fixtures[0]!.payload);
+
+      expect((await post(body, { 'x-webhook-secret': 'shared-secret' })).status).toBe(fixtures[0]!.expect.status);
+    });
+
+    it('rejects a wrong or missing secret', async () => {
+      const body = JSON.stringify(fixtures[0]!.payload);
+
+      expect((await post(body, { 'x-webhook-secret': 'shared-secreT' })).status).toBe(401);
+      expect((await post(body)).status).toBe(401);
+    });
+  });
+});
+
+describe('ContentstackSigningKeys', () => {
+  beforeEach(() => {
+    delete process.env.CONTENTSTACK_WEBHOOK_PUBLIC_KEY;
+  });
+
+  it('fetches the key published for the region and keeps it', async () => {
+    const fetchKeys = jest.fn(async (_url: string) => ({ 'signing-key': publicKeyPem }));
+    const keys = new ContentstackSigningKeys(fetchKeys);
+
+    expect(await keys.get('eu')).toBe(publicKeyPem);
+    expect(await keys.get('eu')).toBe(publicKeyPem);
+    expect(await keys.get('us')).toBe(publicKeyPem);
+    expect(fetchKeys.mock.calls.map(([url]) => url)).toEqual([
+      'https://eu-app.contentstack.com/.well-known/public-keys.json',
+      'https://app.contentstack.com/.well-known/public-keys.json',
+    ]);
+  });
+
+  it('fetches again after a failure', async () => {
+    const fetchKeys = jest.fn<(url: string) => Promise<Record<string, string>>>()
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockResolvedValueOnce({});
+    const keys = new ContentstackSigningKeys(fetchKeys);
+
+    await expect(keys.get('us')).rejects.toThrow('timeout');
+    await expect(keys.get('us')).rejects.toThrow('No signing key published');
+    expect(fetchKeys).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,6 +1,6 @@
 import express from 'express';
 import { query, validationResult } from 'express-validator';
-import { authMiddleware } from '../middleware/auth.js';
+import { authMiddleware, AuthRequest } from '../middleware/auth.js';
 import { rateLimitMiddleware } from '../middleware/rate-limit.js';
 import { Request, Response } from 'express';
 
@@ -39,7 +39,10 @@ router.get(
 
     try {
       // Extract and normalize parameters
-      const tenantId = (req as any).tenant.id;
+      const tenantId: string | undefined = (req as AuthRequest).user?.tenantId;
+      if (!tenantId) {
+        return res.status(403).json({ error: 'Tenant context required' });
+      }
       const period = (req.query.period as string) || 'day';
       const startDate: Date | undefined = req.query.startDate as unknown as Date;
       const endDate: Date | undefined = req.query.endDate as unknown as Date;
@@ -61,6 +64,7 @@ router.get(
 
       // Compute summary stats if needed
       const summary = await db.getStats(tenantId);
+      const locales = await db.getConversationsByLocale(tenantId, startDate, endDate);
 
       res.json({
         tenantId,
@@ -70,6 +74,7 @@ router.get(
           end: endDate?.toISOString(),
         },
         summary,
+        breakdown: { locales },
         data: analyticsData,
         timestamp: new Date().toISOString(),
       });
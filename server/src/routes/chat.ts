@@ -1,261 +1,508 @@
 import express from 'express';
-import { body, validationResult } from 'express-validator';
+import { randomUUID } from 'crypto';
+import { body, param, query, validationResult } from 'express-validator';
 import { LLMService } from '../services/llm-service.js';
-import { ContentstackService } from '../services/contentstack-service.js';
-import { CacheService } from '../services/cache-service.js';
+import { GenerationRegistry } from '../services/generation-registry.js';
+import { BufferedEvent, StreamBuffer } from '../services/stream-buffer.js';
+import {
+  CompletionStreamEvent,
+  encodeDone,
+  encodeEvent,
+  encodeFrame,
+  HandoffStreamEvent,
+  SourceReference,
+  StreamEvent,
+  STREAM_DONE,
+  STREAM_PROTOCOL_HEADER,
+  STREAM_PROTOCOL_VERSION,
+  STREAM_RESUME_HEADER,
+} from '../utils/stream-protocol.js';
+import { TenantRecord } from '../services/database-service.js';
+import { getTenantProviderConfigs } from '../services/provider-secrets.js';
+import { ConversationService } from '../services/conversation-service.js';
+import { EscalationService } from '../services/escalation-service.js';
+import { streamChatTurn, validateChatRequest } from '../services/chat-runner.js';
 import { rateLimitMiddleware } from '../middleware/rate-limit.js';
-import { authMiddleware } from '../middleware/auth.js';
+import { authMiddleware, AuthRequest, resolveWidgetTenant } from '../middleware/auth.js';
+import { AppError } from '../middleware/error-handler.js';
 
 const router = express.Router();
 
-// Validation middleware
-const validateChatRequest = [
-  body('messages').isArray().withMessage('Messages must be an array'),
-  body('messages.*.content').notEmpty().withMessage('Message content is required'),
-  body('messages.*.role').isIn(['user', 'assistant', 'system']).withMessage('Invalid message role'),
-  body('provider').optional().isIn(['groq']).withMessage('Invalid provider'),
-  body('model').optional().isString().withMessage('Model must be a string'),
-  body('websiteContext').optional().isObject().withMessage('Website context must be an object'),
-];
+const RESUME_GRACE_MS = parseInt(process.env.STREAM_RESUME_GRACE_MS || '30000');
+const LIVE_KEEP_ALIVE_MS = 25000;
+
+// Writes numbered SSE events and mirrors them into the resume buffer
+const createEventWriter = (res: express.Response, streamBuffer: StreamBuffer | undefined, streamId: string) => {
+  let lastId = 0;
+  let pending: Promise<void> = Promise.resolve();
+
+  const buffer = (event: BufferedEvent) => {
+    if (!streamBuffer?.isEnabled()) return;
+
+    // Chained so the buffered list keeps the order the events were sent in
+    pending = pending
+      .then(() => streamBuffer.append(streamId, event))
+      .catch((error) => console.warn(`⚠️ Failed to buffer stream ${streamId}:`, error));
+  };
+
+  return {
+    send(event: StreamEvent): void {
+      const id = ++lastId;
+      buffer({ id, data: JSON.stringify(event) });
+      res.write(encodeEvent(event, id));
+    },
+    async end(): Promise<void> {
+      buffer({ id: ++lastId, data: STREAM_DONE });
+      await pending;
+    },
+  };
+};
 
 // Chat streaming endpoint
 router.post('/stream', 
   rateLimitMiddleware({ windowMs: 60000, max: 60 }), // 60 requests per minute
+  resolveWidgetTenant,
   validateChatRequest,
-  async (req, res) => {
+  async (req: AuthRequest, res: express.Response) => {
     // Set headers for Server-Sent Events
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
     res.setHeader('Connection', 'keep-alive');
     res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader(STREAM_PROTOCOL_HEADER, String(STREAM_PROTOCOL_VERSION));
 
     // Validate request
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
-      res.write(`data: ${JSON.stringify({ error: 'Validation failed', details: errors.array() })}\\n\\n`);
+      res.write(encodeEvent({
+        type: 'error',
+        error: 'Validation failed',
+        details: errors.array(),
+        timestamp: new Date().toISOString()
+      }));
+      res.write(encodeDone());
       res.end();
       return;
     }
 
-    const { messages, provider = 'groq', model, websiteContext } = req.body;
-    
-    console.log('📨 Received chat request:', { 
-      provider, 
-      model, 
-      messageCount: messages.length,
-      hasContext: !!websiteContext 
-    });
+    const controller = new AbortController();
+    const streams: StreamBuffer | undefined = req.app.locals.services?.streams;
+    // Only buffered for clients that come back for the rest of a dropped stream
+    let streamBuffer = streams?.isEnabled() && req.header(STREAM_RESUME_HEADER) === '1' ? streams : undefined;
+    const streamId = randomUUID();
+    let graceTimer: NodeJS.Timeout | undefined;
 
-    try {
-      // Get services from app locals
-      const services = req.app.locals.services;
-      if (!services?.llm) {
-        throw new Error('LLM service not available');
+    if (streamBuffer) {
+      try {
+        await streamBuffer.open(streamId, req.tenant?.id ?? null);
+        res.setHeader('X-Stream-Id', streamId);
+        res.setHeader('Access-Control-Expose-Headers', `X-Stream-Id, ${STREAM_PROTOCOL_HEADER}`);
+      } catch (error) {
+        // The answer still streams, it just cannot be resumed
+        console.warn(`⚠️ Failed to open stream buffer ${streamId}:`, error);
+        streamBuffer = undefined;
       }
+    }
 
-      const llmService: LLMService = services.llm;
-      
-      // Generate streaming response
-      const stream = await llmService.generateStreamingResponse(
-        messages,
-        provider,
-        model,
-        websiteContext
-      );
-
-      // Handle the stream
-      for await (const chunk of stream) {
-        if (chunk.choices && chunk.choices[0]) {
-          const choice = chunk.choices[0];
-          
-          // Handle tool calls
-          if (choice.delta.tool_calls) {
-            console.log('🛠️ Processing tool calls:', choice.delta.tool_calls);
-            
-            for (const toolCall of choice.delta.tool_calls) {
-              if (toolCall.function?.name === 'query_contentstack_content') {
-                try {
-                  const args = JSON.parse(toolCall.function.arguments || '{}');
-                  console.log('🛠️ Processing Contentstack tool call:', args);
-                  
-                  // Use ContentstackService to fetch data
-                  const contentstackService = new ContentstackService();
-                  const results = await contentstackService.queryContent(
-                    args.content_type,
-                    args.query || '',
-                    args.limit || 5
-                  );
-                  
-                  console.log(`✅ Contentstack query returned ${results.length} entries`);
-                  
-                  // Send tool result back to client
-                  const toolResponse = {
-                    type: 'tool_result',
-                    tool_call_id: toolCall.id,
-                    content: JSON.stringify(results)
-                  };
-                  
-                  res.write(`data: ${JSON.stringify(toolResponse)}\\n\\n`);
-                  
-                } catch (toolError) {
-                  console.error('❌ Tool call error:', toolError);
-                  const errorResponse = {
-                    type: 'tool_error',
-                    tool_call_id: toolCall.id,
-                    error: toolError instanceof Error ? toolError.message : 'Unknown error'
-                  };
-                  res.write(`data: ${JSON.stringify(errorResponse)}\\n\\n`);
-                }
-              }
-            }
-          }
-          
-          // Handle regular content
-          if (choice.delta.content) {
-            const responseChunk = {
-              type: 'content',
-              content: choice.delta.content,
-              finish_reason: choice.finish_reason
-            };
-            
-            res.write(`data: ${JSON.stringify(responseChunk)}\\n\\n`);
-          }
-          
-          // Handle completion
-          if (choice.finish_reason) {
-            const completionChunk = {
-              type: 'completion',
-              finish_reason: choice.finish_reason,
-              usage: chunk.usage || null
-            };
-            
-            res.write(`data: ${JSON.stringify(completionChunk)}\\n\\n`);
-            break;
-          }
-        }
+    const writer = createEventWriter(res, streamBuffer, streamId);
+
+    // Closing the widget drops the connection; stop generating (and paying for) tokens.
+    // Resumable streams get a grace period so a flaky connection can reconnect first.
+    res.on('close', () => {
+      if (res.writableEnded) return;
+
+      const buffer = streamBuffer;
+      if (!buffer) {
+        controller.abort();
+        return;
       }
 
-    } catch (error) {
-      console.error('❌ Chat streaming error:', error);
-      
-      const errorResponse = {
-        type: 'error',
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
-        timestamp: new Date().toISOString()
+      const checkForReader = async () => {
+        if (controller.signal.aborted) return;
+
+        const hasReader = await buffer.hasReader(streamId).catch((error) => {
+          console.warn(`⚠️ Failed to check readers of stream ${streamId}:`, error);
+          return false;
+        });
+        if (hasReader) {
+          graceTimer = setTimeout(checkForReader, RESUME_GRACE_MS);
+        } else {
+          controller.abort();
+        }
       };
-      
-      res.write(`data: ${JSON.stringify(errorResponse)}\\n\\n`);
+      graceTimer = setTimeout(checkForReader, RESUME_GRACE_MS);
+    });
+
+    try {
+      await streamChatTurn({
+        services: req.app.locals.services,
+        tenant: req.tenant || null,
+        body: req.body,
+        acceptLanguage: req.header('accept-language'),
+        controller,
+        send: writer.send,
+      });
     } finally {
-      res.write('data: [DONE]\\n\\n');
+      clearTimeout(graceTimer);
+      await writer.end();
+      res.write(encodeDone());
       res.end();
     }
   }
 );
 
+// Resume a dropped stream: replay what came after Last-Event-ID, then follow it live
+router.get('/stream/:streamId',
+  resolveWidgetTenant,
+  param('streamId').isUUID().withMessage('Valid stream ID is required'),
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ error: 'Validation failed', details: errors.array() });
+    }
+
+    const streamBuffer: StreamBuffer | undefined = req.app.locals.services?.streams;
+    if (!streamBuffer?.isEnabled()) {
+      return res.status(503).json({ error: 'Stream resumption not available' });
+    }
+
+    const streamId = req.params.streamId as string;
+    let owner;
+    try {
+      owner = await streamBuffer.getOwner(streamId);
+    } catch (error) {
+      return next(error);
+    }
+    if (!owner || owner.tenantId !== (req.tenant?.id ?? null)) {
+      return res.status(404).json({ error: 'Stream not found or expired' });
+    }
+
+    const lastEventId = parseInt(req.header('Last-Event-ID') || (req.query.lastEventId as string) || '0') || 0;
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader(STREAM_PROTOCOL_HEADER, String(STREAM_PROTOCOL_VERSION));
+
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    console.log(`🔄 Resuming stream ${streamId} after event ${lastEventId}`);
+
+    try {
+      for await (const event of streamBuffer.replay(streamId, lastEventId, controller.signal)) {
+        res.write(event.data === STREAM_DONE ? encodeDone() : encodeFrame(event.data, event.id));
+      }
+    } catch (error) {
+      // The headers are out, so the failure ends the stream as an error event
+      console.error(`❌ Failed to replay stream ${streamId}:`, error);
+      res.write(encodeEvent({
+        type: 'error',
+        error: 'Failed to resume stream',
+        timestamp: new Date().toISOString()
+      }));
+      res.write(encodeDone());
+    }
+
+    res.end();
+  }
+);
+
 // Non-streaming chat endpoint
 router.post('/',
   rateLimitMiddleware({ windowMs: 60000, max: 30 }), // 30 requests per minute
+  resolveWidgetTenant,
   validateChatRequest,
-  async (req, res) => {
-    try {
-      const { messages, provider = 'groq', model, websiteContext } = req.body;
-      
-      // Validate request
-      const errors = validationResult(req);
-      if (!errors.isEmpty()) {
-        return res.status(400).json({ 
-          error: 'Validation failed', 
-          details: errors.array() 
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    // Validate request
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return void res.status(400).json({ 
+        error: 'Validation failed', 
+        details: errors.array() 
+      });
+    }
+
+    if (!req.app.locals.services?.llm) {
+      return void res.status(503).json({ error: 'LLM service not available' });
+    }
+
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    // For non-streaming, run the same turn and collect its events into one response
+    const collected: {
+      conversationId: string | null;
+      response: string;
+      completion: CompletionStreamEvent | null;
+      handoff: HandoffStreamEvent | null;
+      sources: SourceReference[];
+      toolCalls: Array<{ name: string; arguments: Record<string, any> }>;
+    } = { conversationId: null, response: '', completion: null, handoff: null, sources: [], toolCalls: [] };
+
+    const failure = await streamChatTurn({
+      services: req.app.locals.services,
+      tenant: req.tenant || null,
+      body: req.body,
+      acceptLanguage: req.header('accept-language'),
+      controller,
+      send: (event: StreamEvent) => {
+        if (event.type === 'conversation') {
+          collected.conversationId = event.conversationId;
+        } else if (event.type === 'content') {
+          collected.response += event.content;
+        } else if (event.type === 'tool_call') {
+          collected.toolCalls.push({ name: event.name, arguments: event.arguments });
+        } else if (event.type === 'sources') {
+          collected.sources = event.sources;
+        } else if (event.type === 'handoff') {
+          collected.handoff = event;
+        } else if (event.type === 'completion') {
+          collected.completion = event;
+        }
+      },
+    });
+
+    if (failure) {
+      if (failure instanceof AppError) {
+        return void res.status(failure.status).json({
+          error: failure.message,
+          timestamp: new Date().toISOString()
         });
       }
 
-      const services = req.app.locals.services;
-      if (!services?.llm) {
-        return res.status(503).json({ error: 'LLM service not available' });
+      return void res.status(500).json({
+        error: 'Failed to process chat request',
+        message: failure.message,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const { completion, handoff } = collected;
+    res.json({
+      conversationId: collected.conversationId,
+      response: collected.response,
+      provider: completion?.provider ?? null,
+      model: completion?.model ?? null,
+      usage: completion?.usage ?? null,
+      context: completion?.context ?? null,
+      finishReason: completion?.finish_reason ?? null,
+      toolCalls: collected.toolCalls,
+      sources: collected.sources,
+      ...(handoff && { handoff }),
+      timestamp: new Date().toISOString()
+    });
+  }
+);
+
+// Stop an answer that is still being generated (the widget's Stop button)
+router.post('/:conversationId/stop',
+  resolveWidgetTenant,
+  param('conversationId').isUUID().withMessage('Valid conversation ID is required'),
+  query('sessionId').optional().isString().isLength({ max: 255 }).withMessage('Session ID must be a string'),
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return void res.status(400).json({ error: 'Validation failed', details: errors.array() });
+    }
+
+    const services = req.app.locals.services;
+    const generations: GenerationRegistry | undefined = services?.generations;
+    if (!generations) {
+      return void res.status(503).json({ error: 'Chat service not available' });
+    }
+
+    const conversationId = req.params.conversationId as string;
+    const tenantId: string | null = req.tenant?.id ?? null;
+
+    // Stored conversations can only be stopped from the session that started them
+    if (services.conversations) {
+      let conversation;
+      try {
+        conversation = await (services.conversations as ConversationService).getForVisitor(conversationId, tenantId, req.query.sessionId as string | undefined);
+      } catch (error) {
+        console.error('❌ Stop generation error:', error);
+        return void res.status(500).json({ error: 'Failed to stop generation' });
+      }
+      if (!conversation) {
+        return void res.status(404).json({ error: 'No active generation for this conversation' });
       }
+    }
 
-      const llmService: LLMService = services.llm;
-      
-      // For non-streaming, collect all chunks
-      const stream = await llmService.generateStreamingResponse(
-        messages,
-        provider,
-        model,
-        websiteContext
-      );
-
-      let fullResponse = '';
-      let usage = null;
-      
-      for await (const chunk of stream) {
-        if (chunk.choices?.[0]?.delta?.content) {
-          fullResponse += chunk.choices[0].delta.content;
-        }
-        if (chunk.usage) {
-          usage = chunk.usage;
-        }
+    if (!generations.stop(conversationId, tenantId)) {
+      return void res.status(404).json({ error: 'No active generation for this conversation' });
+    }
+
+    res.json({ conversationId, stopped: true, timestamp: new Date().toISOString() });
+  }
+);
+
+// Visitor asks for a person (the widget's "Talk to a person" action)
+router.post('/escalate',
+  rateLimitMiddleware({ windowMs: 60000, max: 10 }),
+  resolveWidgetTenant,
+  body('conversationId').optional().isUUID().withMessage('Conversation ID must be a UUID'),
+  body('sessionId').optional().isString().isLength({ max: 255 }).withMessage('Session ID must be a string'),
+  body('reason').optional().isString().isLength({ max: 500 }).withMessage('Reason must be at most 500 characters'),
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return void res.status(400).json({ error: 'Validation failed', details: errors.array() });
+    }
+
+    const services = req.app.locals.services;
+    const escalations: EscalationService | undefined = services?.escalations;
+    if (!escalations || !services?.conversations) {
+      return void res.status(503).json({ error: 'Human handoff not available' });
+    }
+
+    try {
+      const tenant: TenantRecord | null = req.tenant || null;
+      const { conversationId, sessionId, reason } = req.body;
+      const conversationService: ConversationService = services.conversations;
+
+      if (conversationId && !(await conversationService.getForVisitor(conversationId, tenant?.id ?? null, sessionId))) {
+        return void res.status(404).json({ error: 'Conversation not found' });
       }
 
+      // Asking before the first message still needs a conversation to queue
+      const id: string = conversationId || (await conversationService.startTurn({
+        tenantId: tenant?.id ?? null,
+        ...(sessionId && { sessionId }),
+        metadata: { websiteContext: null },
+      })).conversationId;
+
+      const conversation = await escalations.escalate(id, tenant?.id ?? null, { source: 'visitor', reason });
+
       res.json({
-        response: fullResponse,
-        provider,
-        model: model || 'llama-3.3-70b-versatile',
-        usage,
+        conversationId: conversation.id,
+        handledBy: conversation.handled_by,
         timestamp: new Date().toISOString()
       });
-
     } catch (error) {
-      console.error('❌ Chat error:', error);
+      if (error instanceof AppError) {
+        return void res.status(error.status).json({ error: error.message });
+      }
+
+      console.error('❌ Escalation error:', error);
       res.status(500).json({
-        error: 'Failed to process chat request',
-        message: error instanceof Error ? error.message : 'Unknown error',
-        timestamp: new Date().toISOString()
+        error: 'Failed to escalate conversation',
+        message: error instanceof Error ? error.message : 'Unknown error'
       });
     }
   }
 );
 
+// Follow a conversation's handoff: agent messages, agent typing and who is answering
+router.get('/:conversationId/live',
+  resolveWidgetTenant,
+  param('conversationId').isUUID().withMessage('Valid conversation ID is required'),
+  query('sessionId').optional().isString().isLength({ max: 255 }).withMessage('Session ID must be a string'),
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return void res.status(400).json({ error: 'Validation failed', details: errors.array() });
+    }
+
+    const services = req.app.locals.services;
+    const escalations: EscalationService | undefined = services?.escalations;
+    if (!escalations || !services?.conversations) {
+      return void res.status(503).json({ error: 'Human handoff not available' });
+    }
+
+    const conversationId = req.params.conversationId as string;
+    const tenantId: string | null = req.tenant?.id ?? null;
+    const sessionId = req.query.sessionId as string | undefined;
+
+    let current;
+    try {
+      const conversation = await (services.conversations as ConversationService).getForVisitor(conversationId, tenantId, sessionId);
+      current = conversation && (await escalations.getState(conversationId, tenantId));
+    } catch (error) {
+      console.error('❌ Live conversation error:', error);
+      return void res.status(500).json({ error: 'Failed to follow conversation' });
+    }
+    if (!current) {
+      return void res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader(STREAM_PROTOCOL_HEADER, String(STREAM_PROTOCOL_VERSION));
+
+    res.write(encodeEvent({ type: 'handoff', status: current.handledBy, ...(current.agent && { agent: current.agent }) }));
+
+    // Visitor messages are only relayed to the agents
+    const unsubscribe = escalations.subscribe(({ update }) => {
+      if (update.type !== 'visitor_message') res.write(encodeEvent(update));
+    }, conversationId);
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), LIVE_KEEP_ALIVE_MS);
+
+    res.on('close', () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    });
+  }
+);
+
 // Get chat history
 router.get('/history/:conversationId',
   authMiddleware,
-  async (req, res) => {
+  param('conversationId').isUUID().withMessage('Valid conversation ID is required'),
+  async (req: AuthRequest, res: express.Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ error: 'Validation failed', details: errors.array() });
+    }
+
     try {
-      const { conversationId } = req.params;
-      const { page = 1, limit = 50 } = req.query;
+      const conversationId = req.params.conversationId as string;
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 100);
 
       const services = req.app.locals.services;
-      if (!services?.database) {
+      if (!services?.conversations) {
         return res.status(503).json({ error: 'Database service not available' });
       }
 
-      // This would fetch from your database
-      // For now, return mock data
-      const history = {
+      // Only conversations belonging to the operator's tenant are visible
+      const tenantId: string | undefined = req.user?.tenantId;
+      if (!tenantId) {
+        return res.status(403).json({ error: 'Tenant context required' });
+      }
+
+      const conversationService: ConversationService = services.conversations;
+      const history = await conversationService.getHistory(conversationId, tenantId, page, limit);
+
+      if (!history) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      res.json({
         conversationId,
-        messages: [
-          {
-            id: 1,
-            role: 'user',
-            content: 'Hello, can you help me find products?',
-            timestamp: new Date().toISOString(),
-          },
-          {
-            id: 2,
-            role: 'assistant',
-            content: 'Of course! I can help you find products from our catalog. What are you looking for?',
-            timestamp: new Date().toISOString(),
-          }
-        ],
+        messages: history.messages.map((message) => ({
+          id: message.id,
+          role: message.role,
+          content: message.content,
+          timestamp: message.created_at,
+          model: message.model_used || null,
+          tokensUsed: message.tokens_used ?? null,
+          latencyMs: message.latency_ms ?? null,
+          metadata: message.metadata || {},
+        })),
         pagination: {
-          page: parseInt(page as string),
-          limit: parseInt(limit as string),
-          total: 2,
-          hasMore: false
+          page,
+          limit,
+          total: history.total,
+          hasMore: page * limit < history.total
         }
-      };
-
-      res.json(history);
+      });
 
     } catch (error) {
       console.error('❌ History fetch error:', error);
@@ -268,7 +515,7 @@ router.get('/history/:conversationId',
 );
 
 // Get available models
-router.get('/models', async (req, res) => {
+router.get('/models', resolveWidgetTenant, async (req: AuthRequest, res: express.Response) => {
   try {
     const services = req.app.locals.services;
     if (!services?.llm) {
@@ -276,12 +523,17 @@ router.get('/models', async (req, res) => {
     }
 
     const llmService: LLMService = services.llm;
-    const providers = llmService.getAvailableProviders();
+    const tenant: TenantRecord | null = req.tenant || null;
+    const aiConfig = tenant?.widget_config?.ai || {};
+    const providers = llmService.listModels(getTenantProviderConfigs(tenant));
+    const defaultProvider = aiConfig.provider || llmService.getDefaultProvider();
 
     res.json({
       providers,
-      defaultProvider: 'groq',
-      defaultModel: 'llama-3.3-70b-versatile',
+      defaultProvider,
+      defaultModel: aiConfig.model
+        || providers.find((provider) => provider.name === defaultProvider)?.defaultModel
+        || null,
       timestamp: new Date().toISOString()
     });
 
@@ -1,19 +1,55 @@
 import express from 'express';
 import { body, validationResult, param, query } from 'express-validator';
 import { rateLimitMiddleware } from '../middleware/rate-limit.js';
-import { authMiddleware } from '../middleware/auth.js';
+import { authMiddleware, AuthRequest } from '../middleware/auth.js';
+import { AppError } from '../middleware/error-handler.js';
 import { DatabaseService, TenantRecord } from '../services/database-service.js';
+import { PromptService, TenantPromptConfig } from '../services/prompt-service.js';
+import { ToolRegistry } from '../services/tool-registry.js';
+import { ContentstackServicePool } from '../services/contentstack-pool.js';
+import { RetrievalService } from '../services/retrieval-service.js';
+import { getLocaleSettings, resolveLocale, toLocaleChain } from '../services/locale-resolver.js';
+import { ReadinessReport, StackOnboarding } from '../services/stack-onboarding.js';
+import {
+  checkTenantProviderConfig,
+  decryptProviderSecrets,
+  encryptProviderSecrets,
+  separateProviderSecrets,
+} from '../services/provider-secrets.js';
 import crypto from 'crypto';
 
 const router = express.Router();
 
+// Tenant provider configs: known hosted types, public http(s) endpoints only
+const isTenantProviderConfig = (config: unknown): boolean => {
+  const problems = checkTenantProviderConfig(config);
+  if (problems.length > 0) throw new Error(problems.join('; '));
+  return true;
+};
+
+// Content types are the only retrieval setting a tenant can choose
+const isRetrievalConfig = (config: Record<string, unknown>): boolean => {
+  const unknownSettings = Object.keys(config).filter((setting) => setting !== 'contentTypes');
+  if (unknownSettings.length > 0) throw new Error(`Unknown retrieval settings: ${unknownSettings.join(', ')}`);
+  return true;
+};
+
 // Validation middleware
 const validateCreateTenant = [
   body('name').isLength({ min: 2, max: 100 }).withMessage('Tenant name must be 2-100 characters'),
   body('domain').isLength({ min: 3, max: 253 }).matches(/^[a-zA-Z0-9][a-zA-Z0-9-]{1,61}[a-zA-Z0-9](?:\.[a-zA-Z]{2,})+$/).withMessage('Valid domain is required'),
   body('plan').optional().isIn(['free', 'pro', 'enterprise']).withMessage('Invalid plan type'),
   body('contentstackConfig').optional().isObject().withMessage('Contentstack config must be an object'),
-  body('widgetConfig').optional().isObject().withMessage('Widget config must be an object')
+  body('contentstackConfig.fieldMappings').optional().isObject().withMessage('Field mappings must be an object keyed by content type'),
+  body('contentstackConfig.urlPatterns').optional().isObject().withMessage('URL patterns must be an object keyed by content type'),
+  body('contentstackConfig.deliveryMode').optional().isIn(['rest', 'graphql']).withMessage('Delivery mode must be rest or graphql'),
+  body('widgetConfig').optional().isObject().withMessage('Widget config must be an object'),
+  body('widgetConfig.ai.providers').optional().isArray().withMessage('AI providers must be a list'),
+  body('widgetConfig.ai.providers.*').custom(isTenantProviderConfig),
+  body('widgetConfig.locales.supported').optional().isArray({ min: 1, max: 10 }).withMessage('Supported locales must be a list of 1-10 locale codes'),
+  body('widgetConfig.locales.supported.*').optional().isString().matches(/^[a-zA-Z]{2,3}([-_][a-zA-Z0-9]{2,8})*$/).withMessage('Locales must be codes like en-us'),
+  body('widgetConfig.locales.default').optional().isString().withMessage('Default locale must be a locale code'),
+  body('widgetConfig.prompts').not().exists().withMessage('Personas are managed through the prompts endpoints')
 ];
 
 const validateUpdateTenant = [
@@ -22,7 +58,11 @@ const validateUpdateTenant = [
   body('status').optional().isIn(['active', 'inactive', 'suspended']).withMessage('Invalid status'),
   body('plan').optional().isIn(['free', 'pro', 'enterprise']).withMessage('Invalid plan type'),
   body('contentstackConfig').optional().isObject().withMessage('Contentstack config must be an object'),
-  body('widgetConfig').optional().isObject().withMessage('Widget config must be an object')
+  body('widgetConfig').optional().isObject().withMessage('Widget config must be an object'),
+  body('widgetConfig.locales.supported').optional().isArray({ min: 1, max: 10 }).withMessage('Supported locales must be a list of 1-10 locale codes'),
+  body('widgetConfig.locales.supported.*').optional().isString().matches(/^[a-zA-Z]{2,3}([-_][a-zA-Z0-9]{2,8})*$/).withMessage('Locales must be codes like en-us'),
+  body('widgetConfig.locales.default').optional().isString().withMessage('Default locale must be a locale code'),
+  body('widgetConfig.prompts').not().exists().withMessage('Personas are managed through the prompts endpoints')
 ];
 
 // Generate API key for tenant
@@ -62,17 +102,24 @@ router.post('/',
         });
       }
 
+      // Provider API keys are stored encrypted, apart from the widget config
+      const { providers, secrets } = separateProviderSecrets(widgetConfig?.ai?.providers || []);
+      const storedWidgetConfig = widgetConfig?.ai?.providers
+        ? { ...widgetConfig, ai: { ...widgetConfig.ai, providers } }
+        : widgetConfig;
+
       // Create new tenant
       const newTenant: Omit<TenantRecord, 'id' | 'created_at' | 'updated_at'> = {
         name,
         domain,
         api_key: generateApiKey(),
         contentstack_config: contentstackConfig,
-        widget_config: widgetConfig || {
+        widget_config: storedWidgetConfig || {
           theme: 'default',
           position: 'bottom-right',
           primaryColor: '#007bff'
         },
+        provider_secrets: encryptProviderSecrets(secrets),
         status: 'active',
         plan
       };
@@ -258,6 +305,12 @@ router.get('/:tenantId/config',
           maxTokens: 1000,
           systemPrompt: 'You are a helpful AI assistant for this website.'
         },
+        tools: {
+          query_contentstack_content: true,
+          get_entry: true,
+          global_search: true,
+          recommend_content: true
+        },
         security: {
           allowedOrigins: ['https://demo.techsurf.com'],
           rateLimit: {
@@ -288,7 +341,14 @@ router.put('/:tenantId/config',
   authMiddleware,
   param('tenantId').isUUID().withMessage('Valid tenant ID is required'),
   body('config').isObject().withMessage('Configuration object is required'),
-  async (req, res) => {
+  body('config.*').isObject().withMessage('Configuration sections must be objects'),
+  body('config.tools.*').optional().isBoolean().withMessage('Tools must be switched on or off with a boolean'),
+  body('config.ai.providers').optional().isArray().withMessage('AI providers must be a list'),
+  body('config.ai.providers.*').custom(isTenantProviderConfig),
+  body('config.retrieval').optional().custom(isRetrievalConfig),
+  body('config.retrieval.contentTypes').optional().isArray({ min: 1, max: 20 }).withMessage('Indexed content types must be a list of 1-20 content type UIDs'),
+  body('config.retrieval.contentTypes.*').isString().matches(/^[a-z][a-z0-9_]{0,99}$/).withMessage('Content types must be UIDs like blog_post'),
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -298,11 +358,10 @@ router.put('/:tenantId/config',
         });
       }
 
-      const { tenantId } = req.params;
       const { config } = req.body;
 
-      // Validate configuration structure
-      const validSections = ['widget', 'contentstack', 'ai', 'security'];
+      // Validate configuration structure; personas are versioned through the prompts endpoints
+      const validSections = ['widget', 'contentstack', 'ai', 'security', 'tools', 'retrieval', 'locales'];
       const providedSections = Object.keys(config);
       const invalidSections = providedSections.filter(section => !validSections.includes(section));
 
@@ -313,22 +372,341 @@ router.put('/:tenantId/config',
         });
       }
 
-      // Mock configuration update (replace with actual database update)
-      console.log(`⚙️  Tenant config updated: ${tenantId}`, config);
+      const toolRegistry: ToolRegistry = req.app.locals.services.tools;
+      const unknownTools = Object.keys(config.tools || {}).filter((name) => !toolRegistry.get(name));
+      if (unknownTools.length > 0) {
+        return res.status(400).json({
+          error: 'Unknown tools',
+          unknownTools
+        });
+      }
+
+      const { tenant, database } = await loadManagedTenant(req, req.params.tenantId as string);
+
+      // Sections are merged into what is stored; the widget section holds the top-level appearance settings
+      const current = tenant.widget_config || {};
+      const { widget, ...sections } = config;
+      const widgetConfig = { ...current, ...(widget || {}) };
+      for (const [section, values] of Object.entries(sections)) {
+        widgetConfig[section] = { ...(current[section] || {}), ...(values as object) };
+      }
+
+      // Provider API keys go to the encrypted secrets column, never into the widget config
+      if (config.ai?.providers) {
+        const { providers, secrets } = separateProviderSecrets(config.ai.providers, decryptProviderSecrets(tenant.provider_secrets));
+        widgetConfig.ai.providers = providers;
+        await database.updateTenantProviderSecrets(tenant.id, encryptProviderSecrets(secrets));
+      }
+
+      const updated = await database.updateTenantWidgetConfig(tenant.id, widgetConfig);
+      console.log(`⚙️  Tenant config updated: ${tenant.id} (${providedSections.join(', ')})`);
 
       res.json({
-        tenantId,
-        config,
-        lastUpdated: new Date().toISOString(),
+        tenantId: tenant.id,
+        config: updated?.widget_config ?? widgetConfig,
+        lastUpdated: updated ? new Date(updated.updated_at).toISOString() : new Date().toISOString(),
         message: 'Configuration updated successfully'
       });
 
     } catch (error) {
-      console.error('❌ Update tenant config error:', error);
-      res.status(500).json({
-        error: 'Configuration update failed',
-        message: 'An error occurred while updating configuration'
+      next(error);
+    }
+  }
+);
+
+// Config, prompt and index routes operate on the stored tenant, so the caller must belong to it
+const loadManagedTenant = async (req: AuthRequest, tenantId: string): Promise<{ tenant: TenantRecord; database: DatabaseService }> => {
+  const database: DatabaseService | undefined = req.app.locals.services?.database;
+  if (!database) {
+    throw new AppError('Database service not available', 503);
+  }
+
+  // Operators only: the widget API key is public and never grants management access
+  if (!req.user) {
+    throw new AppError('Authentication required', 401);
+  }
+  if (req.user.role !== 'admin' && req.user.tenantId !== tenantId) {
+    throw new AppError('Access denied for this tenant', 403);
+  }
+
+  const tenant = await database.getTenantById(tenantId);
+  if (!tenant) {
+    throw new AppError('Tenant not found', 404);
+  }
+
+  return { tenant, database };
+};
+
+const savePromptConfig = async (
+  database: DatabaseService,
+  tenant: TenantRecord,
+  prompts: TenantPromptConfig
+): Promise<void> => {
+  await database.updateTenantWidgetConfig(tenant.id, { ...(tenant.widget_config || {}), prompts });
+};
+
+// List persona versions
+router.get('/:tenantId/prompts',
+  authMiddleware,
+  param('tenantId').isUUID().withMessage('Valid tenant ID is required'),
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return void res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      }
+
+      const { tenant } = await loadManagedTenant(req, req.params.tenantId as string);
+      const promptService: PromptService = req.app.locals.services.prompts;
+
+      res.json({ tenantId: tenant.id, ...promptService.getPromptConfig(tenant) });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Save a new persona version
+router.post('/:tenantId/prompts',
+  authMiddleware,
+  param('tenantId').isUUID().withMessage('Valid tenant ID is required'),
+  body('persona').isObject().withMessage('Persona object is required'),
+  body('activate').optional().isBoolean().withMessage('Activate must be a boolean'),
+  body('note').optional().isString().isLength({ max: 500 }).withMessage('Note must be at most 500 characters'),
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return void res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      }
+
+      const { tenant, database } = await loadManagedTenant(req, req.params.tenantId as string);
+      const promptService: PromptService = req.app.locals.services.prompts;
+
+      const persona = promptService.validatePersona(req.body.persona);
+      const { config, version } = promptService.addVersion(promptService.getPromptConfig(tenant), persona, {
+        activate: req.body.activate === true,
+        ...(req.user?.id && { createdBy: req.user.id }),
+        ...(req.body.note && { note: req.body.note }),
+      });
+
+      await savePromptConfig(database, tenant, config);
+      console.log(`📝 Prompt version ${version.version} saved for tenant ${tenant.id}`);
+
+      res.status(201).json({ tenantId: tenant.id, version, activeVersion: config.activeVersion });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Switch the active persona version (also used for rollbacks)
+router.put('/:tenantId/prompts/active',
+  authMiddleware,
+  param('tenantId').isUUID().withMessage('Valid tenant ID is required'),
+  body('version').isInt({ min: 1 }).withMessage('Version number is required'),
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return void res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      }
+
+      const { tenant, database } = await loadManagedTenant(req, req.params.tenantId as string);
+      const promptService: PromptService = req.app.locals.services.prompts;
+
+      const config = promptService.activateVersion(promptService.getPromptConfig(tenant), parseInt(req.body.version));
+      await savePromptConfig(database, tenant, config);
+
+      res.json({ tenantId: tenant.id, activeVersion: config.activeVersion });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Render the final system prompt for a draft persona, a stored version or the active one
+router.post('/:tenantId/prompts/preview',
+  authMiddleware,
+  param('tenantId').isUUID().withMessage('Valid tenant ID is required'),
+  body('persona').optional().isObject().withMessage('Persona must be an object'),
+  body('version').optional().isInt({ min: 1 }).withMessage('Version must be a positive integer'),
+  body('websiteContext').optional().isObject().withMessage('Website context must be an object'),
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return void res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      }
+
+      const { tenant } = await loadManagedTenant(req, req.params.tenantId as string);
+      const services = req.app.locals.services;
+      const promptService: PromptService = services.prompts;
+
+      let persona = null;
+      let version = null;
+      if (req.body.persona) {
+        persona = promptService.validatePersona(req.body.persona);
+      } else {
+        const stored = promptService.getVersion(tenant, req.body.version ? parseInt(req.body.version) : undefined);
+        if (req.body.version && !stored) {
+          throw new AppError(`Prompt version ${req.body.version} not found`, 404);
+        }
+        persona = stored?.persona || null;
+        version = stored?.version ?? null;
+      }
+
+      const registry: ToolRegistry | undefined = services.tools;
+      const pool: ContentstackServicePool = services.contentstack;
+      const tools = registry ? await registry.getToolSpecs({ contentstack: pool.forTenant(tenant), tenant }) : [];
+      const options = {
+        persona,
+        websiteContext: req.body.websiteContext || {},
+        tools,
+        siteName: tenant.name,
+      };
+
+      res.json({
+        tenantId: tenant.id,
+        version,
+        variables: promptService.getVariables(options),
+        prompt: promptService.buildSystemPrompt(options),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+const getRetrievalService = (req: AuthRequest): RetrievalService => {
+  const retrieval: RetrievalService | undefined = req.app.locals.services?.retrieval;
+  if (!retrieval) {
+    throw new AppError('Retrieval service not available', 503);
+  }
+  return retrieval;
+};
+
+// Status of the tenant's content search index
+router.get('/:tenantId/index',
+  authMiddleware,
+  param('tenantId').isUUID().withMessage('Valid tenant ID is required'),
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return void res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      }
+
+      const { tenant } = await loadManagedTenant(req, req.params.tenantId as string);
+      res.json({ tenantId: tenant.id, ...getRetrievalService(req).getStatus(tenant) });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Re-ingest the tenant's content and rebuild its index
+router.post('/:tenantId/index',
+  authMiddleware,
+  rateLimitMiddleware({ windowMs: 60000, max: 5 }),
+  param('tenantId').isUUID().withMessage('Valid tenant ID is required'),
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return void res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      }
+
+      const { tenant } = await loadManagedTenant(req, req.params.tenantId as string);
+      const status = await getRetrievalService(req).ingest(tenant);
+
+      console.log(`📚 Content index rebuilt for tenant ${tenant.id}`);
+      res.json({ tenantId: tenant.id, ...status });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Try a query against the index, to see what the assistant would be given
+router.post('/:tenantId/index/search',
+  authMiddleware,
+  param('tenantId').isUUID().withMessage('Valid tenant ID is required'),
+  body('query').isString().trim().notEmpty().withMessage('Query is required'),
+  body('k').optional().isInt({ min: 1, max: 50 }).withMessage('k must be between 1 and 50'),
+  body('contentTypes').optional().isArray().withMessage('Content types must be an array'),
+  body('locale').optional().isString().withMessage('Locale must be a locale code'),
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return void res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      }
+
+      const { tenant } = await loadManagedTenant(req, req.params.tenantId as string);
+      const retrieval = getRetrievalService(req);
+      const results = await retrieval.retrieve(tenant, req.body.query, req.body.k ? parseInt(req.body.k) : 5, {
+        ...(req.body.contentTypes && { contentTypes: req.body.contentTypes }),
+        ...(req.body.locale && { locales: toLocaleChain(resolveLocale(req.body.locale, getLocaleSettings(tenant))) }),
       });
+
+      if (!results) {
+        throw new AppError('Index is not ready for these content types or locale', 409, retrieval.getStatus(tenant));
+      }
+
+      res.json({ tenantId: tenant.id, query: req.body.query, results });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Last stored readiness report of the tenant's stack
+router.get('/:tenantId/onboarding',
+  authMiddleware,
+  param('tenantId').isUUID().withMessage('Valid tenant ID is required'),
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return void res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      }
+
+      const { tenant } = await loadManagedTenant(req, req.params.tenantId as string);
+      const report: ReadinessReport | undefined = tenant.widget_config?.onboarding;
+      if (!report) {
+        throw new AppError('Stack has not been checked yet', 404);
+      }
+
+      res.json({ tenantId: tenant.id, report });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Discover the stack setup with the management token and store the readiness report
+router.post('/:tenantId/onboarding',
+  authMiddleware,
+  rateLimitMiddleware({ windowMs: 60000, max: 5 }),
+  param('tenantId').isUUID().withMessage('Valid tenant ID is required'),
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return void res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      }
+
+      const { tenant, database } = await loadManagedTenant(req, req.params.tenantId as string);
+      const pool: ContentstackServicePool = req.app.locals.services.contentstack;
+      const report = await new StackOnboarding(pool).run(tenant);
+
+      await database.updateTenantWidgetConfig(tenant.id, { ...(tenant.widget_config || {}), onboarding: report });
+      console.log(`🧭 Stack checked for tenant ${tenant.id}: ${report.status}`);
+
+      res.json({ tenantId: tenant.id, report });
+    } catch (error) {
+      next(error);
     }
   }
 );
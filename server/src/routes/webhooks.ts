@@ -0,0 +1,118 @@
+import express from 'express';
+import { param, validationResult } from 'express-validator';
+import { rateLimitMiddleware } from '../middleware/rate-limit.js';
+import { AppError } from '../middleware/error-handler.js';
+import { DatabaseService, TenantRecord } from '../services/database-service.js';
+import { ContentstackServicePool } from '../services/contentstack-pool.js';
+import type { ContentstackService } from '../services/contentstack-service.js';
+import {
+  authenticateWebhook,
+  ContentstackSigningKeys,
+  ContentstackWebhookHandler,
+  parseWebhookEvent,
+  resolveWebhookAuth,
+  WebhookAuth,
+} from '../services/contentstack-webhooks.js';
+
+const router = express.Router();
+const signingKeys = new ContentstackSigningKeys();
+
+// Raw body kept by the JSON parser for signature checks (see index.ts)
+export interface WebhookRequest extends express.Request {
+  rawBody?: Buffer;
+}
+
+/**
+ * Tenants set up webhook auth for their stack in `contentstack_config`
+ * (`webhookAuth`, `webhookSecret`, `webhookHeader`); the shared env stack,
+ * addressed as tenant `default`, uses CONTENTSTACK_WEBHOOK_AUTH,
+ * CONTENTSTACK_WEBHOOK_SECRET and CONTENTSTACK_WEBHOOK_HEADER. Both default
+ * to Contentstack's request signature.
+ */
+const getWebhookAuth = (contentstack: ContentstackService, tenant: TenantRecord | null): WebhookAuth | null => {
+  const config = tenant?.contentstack_config || {};
+
+  const settings = tenant
+    ? { mode: config.webhookAuth, secret: config.webhookSecret, header: config.webhookHeader }
+    : { mode: process.env.CONTENTSTACK_WEBHOOK_AUTH, secret: process.env.CONTENTSTACK_WEBHOOK_SECRET, header: process.env.CONTENTSTACK_WEBHOOK_HEADER };
+
+  return resolveWebhookAuth(settings, contentstack.getConfig().region || 'us');
+};
+
+const loadWebhookTenant = async (req: express.Request, tenantId: string): Promise<TenantRecord | null> => {
+  if (tenantId === 'default') return null;
+
+  const database: DatabaseService | undefined = req.app.locals.services?.database;
+  if (!database) {
+    throw new AppError('Database service not available', 503);
+  }
+
+  const tenant = await database.getTenantById(tenantId);
+  if (!tenant || tenant.status !== 'active') {
+    throw new AppError('Tenant not found', 404);
+  }
+  return tenant;
+};
+
+// Contentstack publish/unpublish/delete and content type events
+router.post('/contentstack/:tenantId',
+  rateLimitMiddleware({ windowMs: 60000, max: 300 }),
+  param('tenantId').custom((value) => value === 'default' || /^[0-9a-f-]{36}$/i.test(value)).withMessage('Valid tenant ID is required'),
+  async (req: WebhookRequest, res: express.Response, next: express.NextFunction): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return void res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      }
+
+      const services = req.app.locals.services;
+      const pool: ContentstackServicePool | undefined = services?.contentstack;
+      if (!pool) {
+        throw new AppError('Contentstack service not available', 503);
+      }
+
+      const tenant = await loadWebhookTenant(req, req.params.tenantId as string);
+      const contentstack = pool.forTenant(tenant);
+      if (!contentstack) {
+        throw new AppError('Tenant has no Contentstack stack configured', 404);
+      }
+
+      const auth = getWebhookAuth(contentstack, tenant);
+      if (!auth) {
+        throw new AppError('Webhook authentication not configured for this tenant', 503);
+      }
+
+      const rawBody = req.rawBody;
+      const authenticated = rawBody && await authenticateWebhook(auth, { rawBody, header: (name) => req.header(name) }, signingKeys)
+        .catch((error) => {
+          console.error('❌ Failed to load the Contentstack signing key:', error instanceof Error ? error.message : error);
+          throw new AppError('Webhook signature cannot be checked right now', 503);
+        });
+      if (!authenticated) {
+        console.warn(`⚠️ Rejected Contentstack webhook failing ${auth.mode} authentication for ${req.params.tenantId}`);
+        throw new AppError(auth.mode === 'signature' ? 'Invalid webhook signature' : 'Invalid webhook credentials', 401);
+      }
+
+      // Every stack's webhooks carry a valid Contentstack signature; only this tenant's stack counts
+      if (!contentstack.isStack(req.body?.api_key)) {
+        console.warn(`⚠️ Rejected Contentstack webhook of another stack for ${req.params.tenantId}`);
+        throw new AppError('Webhook is for another stack', 403);
+      }
+
+      const event = parseWebhookEvent(req.body);
+      const handler = new ContentstackWebhookHandler(pool, services.retrieval);
+      const result = await handler.handle(tenant, event);
+
+      if (result.ignored) {
+        return void res.status(202).json({ received: true, ...result });
+      }
+
+      console.log(`🪝 Contentstack ${event.module}.${event.event} for ${req.params.tenantId}: ${event.contentType}/${event.uid || '*'} (${result.cacheKeysDeleted} cache key(s) dropped, index ${result.indexUpdated ? 'updated' : 'unchanged'})`);
+      res.json({ received: true, ...result });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
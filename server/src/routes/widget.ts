@@ -5,6 +5,19 @@ import { Request, Response } from 'express';
 
 const router = express.Router();
 
+// Settings the widget may see; AI providers, prompts and admin reports stay server-side
+const PUBLIC_WIDGET_FIELDS = [
+  'theme',
+  'position',
+  'primaryColor',
+  'welcomeMessage',
+  'avatar',
+  'branding',
+  'features',
+  'styling',
+  'locales',
+];
+
 // Validate headers for API key and tenant
 const validateWidgetHeaders = [
   header('x-api-key').exists().withMessage('API key is required'),
@@ -41,10 +54,13 @@ router.get(
         return res.status(403).json({ error: 'Tenant is not active' });
       }
 
-      // Return widget configuration
+      const stored = tenant.widget_config || {};
+      const widgetConfig = Object.fromEntries(
+        PUBLIC_WIDGET_FIELDS.filter((field) => stored[field] !== undefined).map((field) => [field, stored[field]])
+      );
       return res.json({
         tenantId,
-        widgetConfig: tenant.widget_config,
+        widgetConfig,
         features: {
           analytics: process.env.ENABLE_ANALYTICS === 'true',
           rateLimiting: process.env.ENABLE_RATE_LIMITING === 'true',
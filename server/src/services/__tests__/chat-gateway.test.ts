@@ -0,0 +1,251 @@
+import { jest } from '@jest/globals';
+import type { Server as SocketIOServer } from 'socket.io';
+import { ChatGateway } from '../chat-gateway.js';
+import type { ChatServices } from '../chat-runner.js';
+import type { DatabaseService } from '../database-service.js';
+import { LLMService } from '../llm-service.js';
+import { PromptService } from '../prompt-service.js';
+import { ToolRegistry } from '../tool-registry.js';
+import { registerContentstackTools } from '../../tools/contentstack-tools.js';
+import { SOCKET_EVENTS, SocketSession } from '../../utils/stream-protocol.js';
+
+/**
+ * Widget sessions on the socket transport, with stand-ins for the socket.io
+ * server and sockets: the handshake middleware and connection handler are
+ * driven directly. Visitors only get into a session room with a token the
+ * server issued for it.
+ */
+
+const SECRET = 'test-session-secret';
+
+const tenants: Record<string, any> = {
+  key_a: { id: 'tenant-a', status: 'active' },
+  key_b: { id: 'tenant-b', status: 'active' },
+};
+
+interface FakeSocket {
+  id: string;
+  handshake: { auth: Record<string, unknown>; headers: Record<string, string> };
+  data: Record<string, any>;
+  rooms: Set<string>;
+  connected: boolean;
+  emitted: Array<[string, unknown]>;
+  listeners: Record<string, (...args: any[]) => void>;
+  join: (room: string) => void;
+  emit: (event: string, payload: unknown) => void;
+  on: (event: string, listener: (...args: any[]) => void) => void;
+  to: () => { emit: () => void };
+}
+
+// Let the gateway's pending promises (room lookups, message handling) settle
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+const createGateway = (secret: string = SECRET, conversations?: { getForVisitor: (...args: any[]) => Promise<unknown> }) => {
+  let middleware: ((socket: any, next: (error?: Error) => void) => void) | undefined;
+  let onConnection: ((socket: any) => void) | undefined;
+  const sockets: FakeSocket[] = [];
+  const broadcasts: Array<[string, string, unknown]> = [];
+  const io = {
+    use: (fn: typeof middleware) => { middleware = fn; },
+    on: (_event: string, fn: typeof onConnection) => { onConnection = fn; },
+    to: (room: string) => ({ emit: (event: string, payload: unknown) => { broadcasts.push([room, event, payload]); } }),
+    in: (room: string) => ({ fetchSockets: async () => sockets.filter((socket) => socket.connected && socket.rooms.has(room)) }),
+  };
+  const database = { getTenantByApiKey: jest.fn(async (apiKey: string) => tenants[apiKey] ?? null) };
+  // The model keeps answering until the request is aborted
+  const llm = new LLMService([{ type: 'mock', name: 'mock', models: [] }]);
+  const signals: AbortSignal[] = [];
+  jest.spyOn(llm, 'runAgent').mockImplementation(async function* (_messages, { signal }) {
+    signals.push(signal!);
+    await new Promise((_resolve, reject) => signal!.addEventListener('abort', () => reject(new Error('Aborted'))));
+  });
+  const services = {
+    database: database as unknown as DatabaseService,
+    llm,
+    contentstack: { forTenant: () => ({}) },
+    prompts: new PromptService(),
+    tools: registerContentstackTools(new ToolRegistry()),
+    ...(conversations && { conversations }),
+  } as unknown as ChatServices & { database: DatabaseService };
+
+  new ChatGateway(io as unknown as SocketIOServer, services, secret).attach();
+
+  let count = 0;
+  const connect = async (auth: Record<string, unknown>): Promise<FakeSocket> => {
+    const socket: FakeSocket = {
+      id: `socket-${++count}`,
+      handshake: { auth, headers: {} },
+      data: {},
+      rooms: new Set(),
+      connected: true,
+      emitted: [],
+      listeners: {},
+      join: (room) => { socket.rooms.add(room); },
+      emit: (event, payload) => { socket.emitted.push([event, payload]); },
+      on: (event, listener) => { socket.listeners[event] = listener; },
+      to: () => ({ emit: () => {} }),
+    };
+
+    await new Promise<void>((resolve, reject) => middleware!(socket, (error) => (error ? reject(error) : resolve())));
+    onConnection!(socket);
+    sockets.push(socket);
+    return socket;
+  };
+
+  const disconnect = async (socket: FakeSocket) => {
+    socket.connected = false;
+    socket.listeners.disconnect!();
+    await settle();
+  };
+
+  return { connect, disconnect, database, signals, broadcasts };
+};
+
+const sessionOf = (socket: FakeSocket): SocketSession => {
+  const sent = socket.emitted.find(([event]) => event === SOCKET_EVENTS.session);
+  expect(sent).toBeDefined();
+  return sent![1] as SocketSession;
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('ChatGateway sessions', () => {
+  it('issues a new session and its token on the first connect', async () => {
+    const { connect } = createGateway();
+
+    const socket = await connect({});
+    const session = sessionOf(socket);
+
+    expect(session.sessionId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(session.sessionToken.startsWith(`${session.sessionId}.`)).toBe(true);
+    expect(socket.rooms).toEqual(new Set([`session_anonymous_${session.sessionId}`]));
+  });
+
+  it('puts every tab with the token into the same room', async () => {
+    const { connect } = createGateway();
+    const first = await connect({ apiKey: 'key_a' });
+    const { sessionId, sessionToken } = sessionOf(first);
+
+    const second = await connect({ apiKey: 'key_a', sessionToken });
+
+    expect(sessionOf(second)).toEqual({ sessionId, sessionToken });
+    expect(second.rooms).toEqual(first.rooms);
+    expect(second.data.sessionId).toBe(sessionId);
+  });
+
+  it('ignores session IDs the client picked', async () => {
+    const { connect } = createGateway();
+    const visitor = await connect({});
+    const { sessionId } = sessionOf(visitor);
+
+    const intruders = await Promise.all([
+      connect({ sessionId }),
+      connect({ sessionToken: sessionId }),
+      connect({ sessionToken: `${sessionId}.forged` }),
+      connect({ sessionToken: `${sessionId}.${'A'.repeat(43)}` }),
+      connect({ sessionToken: { sessionId } }),
+    ]);
+
+    for (const intruder of intruders) {
+      expect(sessionOf(intruder).sessionId).not.toBe(sessionId);
+      expect(intruder.rooms).not.toEqual(visitor.rooms);
+    }
+  });
+
+  it('does not accept one tenant\'s token for another tenant', async () => {
+    const { connect } = createGateway();
+    const { sessionId, sessionToken } = sessionOf(await connect({ apiKey: 'key_a' }));
+
+    const other = await connect({ apiKey: 'key_b', sessionToken });
+    const anonymous = await connect({ sessionToken });
+
+    expect(sessionOf(other).sessionId).not.toBe(sessionId);
+    expect(sessionOf(anonymous).sessionId).not.toBe(sessionId);
+  });
+
+  it('does not accept tokens signed with another secret', async () => {
+    const { sessionId, sessionToken } = sessionOf(await createGateway('old-secret').connect({}));
+
+    const socket = await createGateway().connect({ sessionToken });
+
+    expect(sessionOf(socket).sessionId).not.toBe(sessionId);
+  });
+
+  it('refuses connections whose tenant cannot be looked up', async () => {
+    const { connect, database } = createGateway();
+    database.getTenantByApiKey.mockRejectedValueOnce(new Error('connection refused'));
+
+    await expect(connect({ apiKey: 'key_a' })).rejects.toThrow('Tenant lookup unavailable');
+    await expect(connect({ apiKey: 'unknown' })).rejects.toThrow('Invalid API key');
+  });
+});
+
+describe('ChatGateway requests', () => {
+  const ask = (requestId: string) => ({ requestId, messages: [{ role: 'user', content: 'Which shoes are waterproof?' }] });
+
+  it('stops the session\'s answers once its last tab is gone', async () => {
+    const { connect, disconnect, signals } = createGateway();
+    const first = await connect({});
+    const second = await connect({ sessionToken: sessionOf(first).sessionToken });
+    const acks: unknown[] = [];
+
+    first.listeners[SOCKET_EVENTS.message]!(ask('request-1'), (ack: unknown) => acks.push(ack));
+    await settle();
+    expect(acks).toEqual([{ ok: true, requestId: 'request-1' }]);
+
+    // The tab that asked closes; the answer goes on for the other one
+    await disconnect(first);
+    expect(signals.map((signal) => signal.aborted)).toEqual([false]);
+
+    await disconnect(second);
+    expect(signals.map((signal) => signal.aborted)).toEqual([true]);
+  });
+
+  it('leaves other sessions\' answers running', async () => {
+    const { connect, disconnect, signals } = createGateway();
+    const visitor = await connect({});
+    const other = await connect({});
+
+    other.listeners[SOCKET_EVENTS.message]!(ask('request-1'), () => {});
+    await settle();
+    await disconnect(visitor);
+
+    expect(signals.map((signal) => signal.aborted)).toEqual([false]);
+    await disconnect(other);
+  });
+});
+
+describe('ChatGateway visitor typing', () => {
+  const agentTyping = (broadcasts: Array<[string, string, unknown]>) => broadcasts.filter(([room, event]) => room === 'agents_tenant-a' && event === 'visitor_typing');
+
+  it('tells the tenant\'s agents when the visitor types in their own conversation', async () => {
+    const conversations = { getForVisitor: jest.fn(async (conversationId: string) => (conversationId === 'conversation-1' ? { id: conversationId } : null)) };
+    const { connect, broadcasts } = createGateway(SECRET, conversations);
+    const socket = await connect({ apiKey: 'key_a' });
+
+    socket.listeners[SOCKET_EVENTS.typing]!({ conversationId: 'conversation-1', isTyping: true });
+    await settle();
+
+    expect(conversations.getForVisitor).toHaveBeenCalledWith('conversation-1', 'tenant-a', sessionOf(socket).sessionId);
+    expect(agentTyping(broadcasts)).toEqual([['agents_tenant-a', 'visitor_typing', { conversationId: 'conversation-1', isTyping: true }]]);
+  });
+
+  it('says nothing about conversations of other sessions', async () => {
+    const conversations = { getForVisitor: jest.fn(async () => null) };
+    const { connect, broadcasts } = createGateway(SECRET, conversations);
+    const socket = await connect({ apiKey: 'key_a' });
+
+    socket.listeners[SOCKET_EVENTS.typing]!({ conversationId: 'someone-elses-conversation', isTyping: true });
+    await settle();
+
+    expect(agentTyping(broadcasts)).toEqual([]);
+  });
+});
@@ -0,0 +1,122 @@
+import { jest } from '@jest/globals';
+import { CircuitBreaker } from '../circuit-breaker.js';
+
+/**
+ * Circuit states with a controlled clock: three failures open the circuit,
+ * after a minute it lets one trial request through, and the trial's outcome
+ * closes or reopens it.
+ */
+
+const RESET_TIMEOUT_MS = 60000;
+
+let now = 0;
+const advance = (ms: number) => { now += ms; };
+
+const openCircuit = (breaker: CircuitBreaker) => {
+  for (let i = 0; i < 3; i++) breaker.recordFailure();
+  expect(breaker.getState()).toBe('open');
+};
+
+beforeEach(() => {
+  now = Date.parse('2026-10-19T09:00:00.000Z');
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const createBreaker = () => new CircuitBreaker('groq', { failureThreshold: 3, resetTimeoutMs: RESET_TIMEOUT_MS });
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive failures and refuses requests while open', () => {
+    const breaker = createBreaker();
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.canRequest()).toBe(true);
+
+    breaker.recordFailure();
+    expect(breaker.getStats()).toEqual({
+      state: 'open',
+      failures: 3,
+      lastFailureAt: '2026-10-19T09:00:00.000Z',
+      openedAt: '2026-10-19T09:00:00.000Z',
+    });
+    expect(breaker.canRequest()).toBe(false);
+
+    advance(RESET_TIMEOUT_MS - 1);
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('only counts consecutive failures', () => {
+    const breaker = createBreaker();
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('goes half open after the reset timeout and closes when the trial succeeds', () => {
+    const breaker = createBreaker();
+    openCircuit(breaker);
+
+    advance(RESET_TIMEOUT_MS);
+    expect(breaker.getState()).toBe('half_open');
+
+    // One trial request; the others wait for its outcome
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getStats()).toMatchObject({ state: 'closed', failures: 0, openedAt: null });
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('opens again at once when the trial fails', () => {
+    const breaker = createBreaker();
+    openCircuit(breaker);
+    advance(RESET_TIMEOUT_MS);
+
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+    advance(RESET_TIMEOUT_MS);
+    expect(breaker.getState()).toBe('half_open');
+  });
+
+  it('admits a new trial once the last one is released without an outcome', () => {
+    const breaker = createBreaker();
+    openCircuit(breaker);
+    advance(RESET_TIMEOUT_MS);
+
+    expect(breaker.canRequest()).toBe(true);
+    breaker.releaseTrial();
+
+    expect(breaker.getState()).toBe('half_open');
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('gives up on a trial that never reports back', () => {
+    const breaker = createBreaker();
+    openCircuit(breaker);
+    advance(RESET_TIMEOUT_MS);
+    expect(breaker.canRequest()).toBe(true);
+
+    advance(RESET_TIMEOUT_MS - 1);
+    expect(breaker.canRequest()).toBe(false);
+    advance(1);
+    expect(breaker.canRequest()).toBe(true);
+  });
+});
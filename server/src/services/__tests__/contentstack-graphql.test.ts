@@ -0,0 +1,428 @@
+import { jest } from '@jest/globals';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { CacheService } from '../cache-service.js';
+import {
+  ContentstackGraphQLClient,
+  GraphQLQueryError,
+  normalizeGraphQLEntry,
+  toGraphQLTypeName,
+} from '../contentstack-graphql.js';
+import { ContentstackService } from '../contentstack-service.js';
+
+/**
+ * The GraphQL delivery client and ContentstackService in GraphQL mode,
+ * against a local HTTP stand-in for the Contentstack GraphQL API. The
+ * stand-in answers `all_<type>` and `<type>(uid:)` queries from fixed entries,
+ * only returns the top-level fields the query selected and rejects anything
+ * else the way Contentstack does (400 with an `errors` list).
+ */
+
+interface RecordedRequest {
+  query: string;
+  environment: string | null;
+  accessToken: string | undefined;
+}
+
+interface StandInResponse {
+  status: number;
+  body: any;
+}
+
+const DELIVERY_TOKEN = 'cs_delivery_token';
+const ENVIRONMENT = 'staging';
+const NAMESPACE = 'tenant-1';
+
+const CONTENT_TYPES = [
+  {
+    uid: 'product',
+    title: 'Product',
+    schema: [
+      { uid: 'title', data_type: 'text' },
+      { uid: 'url', data_type: 'text' },
+      { uid: 'price', data_type: 'number' },
+      { uid: 'description', data_type: 'json', field_metadata: { allow_json_rte: true } },
+      { uid: 'image', data_type: 'file' },
+      { uid: 'category', data_type: 'reference', reference_to: ['category'] },
+      { uid: 'specs', data_type: 'group', schema: [{ uid: 'weight', data_type: 'text' }] },
+      { uid: 'blocks', data_type: 'blocks', blocks: [] },
+      { uid: 'bad-field', data_type: 'text' },
+    ],
+  },
+  {
+    uid: 'category',
+    title: 'Category',
+    schema: [
+      { uid: 'title', data_type: 'text' },
+      { uid: 'url', data_type: 'text' },
+      { uid: 'summary', data_type: 'text' },
+      { uid: 'parent', data_type: 'reference', reference_to: ['category'] },
+    ],
+  },
+];
+
+const RICH_TEXT = { type: 'doc', children: [{ type: 'p', children: [{ text: 'Light and fast.' }] }] };
+
+const categoryNode = {
+  title: 'Shoes',
+  url: '/shoes',
+  summary: 'Everything for your feet',
+  system: { uid: 'cat_shoes', locale: 'en-us', content_type_uid: 'category' },
+};
+
+const productNode = (index: number) => ({
+  title: `Product ${index}`,
+  url: `/products/p${index}`,
+  price: index,
+  description: { json: RICH_TEXT },
+  image: { url: `https://images.example.com/p${index}.jpg`, title: `p${index}`, filename: `p${index}.jpg`, content_type: 'image/jpeg', file_size: '1024', dimension: { width: 800, height: 600 } },
+  categoryConnection: { edges: [{ node: categoryNode }] },
+  specs: { weight: `${index}g` },
+  blocks: [{ hero: { title: 'Not selected' } }],
+  system: {
+    uid: `p${index}`,
+    locale: 'en-us',
+    content_type_uid: 'product',
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-02-01T00:00:00.000Z',
+    tags: ['new'],
+  },
+});
+
+const PRODUCTS = Array.from({ length: 250 }, (_, index) => productNode(index));
+
+// Keep only the top-level fields named in the query, as a GraphQL server would
+const select = (node: Record<string, any>, query: string): Record<string, any> => {
+  return Object.fromEntries(Object.entries(node).filter(([key]) => new RegExp(`\\b${key}\\b`).test(query)));
+};
+
+const rejected = (message: string): StandInResponse => ({ status: 400, body: { errors: [{ message }] } });
+
+const answer = (query: string): StandInResponse => {
+  const list = /^query \{ all_(\w+)\((.*?)\) \{ total items \{/.exec(query);
+  if (list) {
+    if (list[1] !== 'product') return rejected(`Cannot query field "all_${list[1]}" on type "Query".`);
+
+    const args = list[2]!;
+    const limit = Number(/limit: (\d+)/.exec(args)?.[1] ?? 10);
+    const skip = Number(/skip: (\d+)/.exec(args)?.[1] ?? 0);
+    const uids = /uid_in: (\[[^\]]*\])/.exec(args)?.[1];
+    const matching = uids ? PRODUCTS.filter((node) => JSON.parse(uids).includes(node.system.uid)) : PRODUCTS;
+
+    return {
+      status: 200,
+      body: { data: { all_product: { total: matching.length, items: matching.slice(skip, skip + limit).map((node) => select(node, query)) } } },
+    };
+  }
+
+  const single = /^query \{ (\w+)\(uid: ("(?:[^"\\]|\\.)*")/.exec(query);
+  if (single) {
+    if (single[1] !== 'product') return rejected(`Cannot query field "${single[1]}" on type "Query".`);
+
+    const node = PRODUCTS.find((candidate) => candidate.system.uid === JSON.parse(single[2]!));
+    return { status: 200, body: { data: { product: node ? select(node, query) : null } } };
+  }
+
+  return rejected('Syntax Error: Unexpected query');
+};
+
+let server: http.Server;
+let endpoint: string;
+let requests: RecordedRequest[] = [];
+// Replaces the stand-in's answers for one test
+let override: ((query: string) => StandInResponse | undefined) | null = null;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => { raw += chunk; });
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const { query = '' } = JSON.parse(raw || '{}');
+      requests.push({ query, environment: url.searchParams.get('environment'), accessToken: req.headers['access_token'] as string | undefined });
+
+      const response = req.headers['access_token'] !== DELIVERY_TOKEN
+        ? { status: 401, body: { error_message: 'Invalid access token' } }
+        : override?.(query) ?? answer(query);
+
+      res.writeHead(response.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(response.body));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/stacks/blt_stack`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  override = null;
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const createClient = (overrides: { deliveryToken?: string } = {}) => {
+  return new ContentstackGraphQLClient({
+    apiKey: 'blt_stack',
+    deliveryToken: overrides.deliveryToken ?? DELIVERY_TOKEN,
+    environment: ENVIRONMENT,
+    endpoint,
+  }, async () => CONTENT_TYPES);
+};
+
+describe('ContentstackGraphQLClient', () => {
+  it('posts to the endpoint with the environment and delivery token', async () => {
+    await createClient().fetchEntries('product', { limit: 1 });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]!.environment).toBe(ENVIRONMENT);
+    expect(requests[0]!.accessToken).toBe(DELIVERY_TOKEN);
+  });
+
+  it('selects the schema fields chat answers use and leaves out modular blocks', async () => {
+    await createClient().fetchEntries('product', { limit: 1 });
+    const { query } = requests[0]!;
+
+    expect(query).toMatch(/^query \{ all_product\(locale: "en-us", fallback_locale: true, limit: 1\) \{ total items \{ /);
+    expect(query).toContain('description { json }');
+    expect(query).toContain('image { url title filename content_type file_size dimension { width height } }');
+    expect(query).toContain('specs { weight }');
+    expect(query).toContain('categoryConnection { edges { node { ... on Category { title url system { uid locale content_type_uid } } } } }');
+    expect(query).toContain('system { uid locale content_type_uid created_at updated_at tags }');
+    expect(query).not.toContain('blocks');
+    expect(query).not.toContain('bad-field');
+  });
+
+  it('resolves referenced entries with their own fields up to the reference depth', async () => {
+    await createClient().fetchEntries('product', { limit: 1, referenceDepth: 1 });
+    const { query } = requests[0]!;
+
+    expect(query).toContain('... on Category { title url summary parentConnection { edges { node { ... on Category { title url system { uid locale content_type_uid } } } } } system { uid locale content_type_uid } }');
+  });
+
+  it('returns entries shaped like REST entries', async () => {
+    const { entries, total } = await createClient().fetchEntries('product', { limit: 2 });
+
+    expect(total).toBe(250);
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toEqual({
+      title: 'Product 0',
+      url: '/products/p0',
+      price: 0,
+      description: RICH_TEXT,
+      image: PRODUCTS[0]!.image,
+      category: [{
+        title: 'Shoes',
+        url: '/shoes',
+        summary: 'Everything for your feet',
+        uid: 'cat_shoes',
+        _content_type_uid: 'category',
+        locale: 'en-us',
+      }],
+      specs: { weight: '0g' },
+      uid: 'p0',
+      _content_type_uid: 'product',
+      locale: 'en-us',
+      created_at: '2026-01-01T00:00:00.000Z',
+      updated_at: '2026-02-01T00:00:00.000Z',
+      tags: ['new'],
+    });
+  });
+
+  it('pages with skip and caps the page size at 100', async () => {
+    const { entries } = await createClient().fetchEntries('product', { limit: 500, skip: 200 });
+
+    expect(requests[0]!.query).toContain('limit: 100, skip: 200');
+    expect(entries.map((entry) => entry.uid)).toEqual(PRODUCTS.slice(200).map((node) => node.system.uid));
+  });
+
+  it('writes where arguments as literals', async () => {
+    const { entries } = await createClient().fetchEntries('product', { where: { uid_in: ['p3', 'p1'] } });
+
+    expect(requests[0]!.query).toContain('where: { uid_in: ["p3", "p1"] }');
+    expect(entries.map((entry) => entry.uid)).toEqual(['p1', 'p3']);
+  });
+
+  it('keeps quotes in string arguments inside the literal', async () => {
+    const entry = await createClient().fetchEntry('product', 'p1") { evil } #');
+
+    expect(requests[0]!.query).toMatch(/^query \{ product\(uid: "p1\\"\) \{ evil \} #", locale: "en-us", fallback_locale: true\) \{ /);
+    expect(entry).toBeNull();
+  });
+
+  it('fetches a single entry by UID in the requested locale', async () => {
+    const entry = await createClient().fetchEntry('product', 'p7', { locale: 'fr-fr' });
+
+    expect(requests[0]!.query).toMatch(/^query \{ product\(uid: "p7", locale: "fr-fr", fallback_locale: true\) \{ /);
+    expect(entry).toMatchObject({ uid: 'p7', title: 'Product 7', category: [{ uid: 'cat_shoes' }] });
+  });
+
+  it('turns errors answered with 200 into query errors', async () => {
+    override = () => ({ status: 200, body: { data: null, errors: [{ message: 'Field "price" is deprecated' }, { message: 'Too complex' }] } });
+
+    const error = await createClient().fetchEntries('product').catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(GraphQLQueryError);
+    expect(error.message).toBe('Field "price" is deprecated; Too complex');
+    expect(error.errors).toHaveLength(2);
+  });
+
+  it('turns rejected queries (400 with errors) into query errors', async () => {
+    const error = await createClient().query('query { all_unknown { total } }').catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(GraphQLQueryError);
+    expect(error.message).toBe('Syntax Error: Unexpected query');
+  });
+
+  it('rethrows other HTTP failures as they are', async () => {
+    override = () => ({ status: 500, body: { error_message: 'Internal error' } });
+    const serverError = await createClient().fetchEntries('product').catch((caught) => caught);
+    const authError = await createClient({ deliveryToken: 'wrong' }).fetchEntries('product').catch((caught) => caught);
+
+    expect(serverError).not.toBeInstanceOf(GraphQLQueryError);
+    expect(serverError.response.status).toBe(500);
+    expect(authError).not.toBeInstanceOf(GraphQLQueryError);
+    expect(authError.response.status).toBe(401);
+  });
+
+  it('rejects content types without a GraphQL name or schema before sending anything', async () => {
+    const client = createClient();
+
+    await expect(client.fetchEntries('blog-post')).rejects.toThrow(GraphQLQueryError);
+    await expect(client.fetchEntries('unknown')).rejects.toThrow("No schema for content type 'unknown'");
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe('GraphQL helpers', () => {
+  it('names content type types the way Contentstack does', () => {
+    expect(toGraphQLTypeName('product')).toBe('Product');
+    expect(toGraphQLTypeName('blog_post')).toBe('BlogPost');
+    expect(toGraphQLTypeName('landing-page_v2')).toBe('LandingPageV2');
+  });
+
+  it('falls back to the queried content type when the node has no system type', () => {
+    expect(normalizeGraphQLEntry({ title: 'Bare', system: { uid: 'x1' } }, 'product')).toEqual({
+      title: 'Bare',
+      uid: 'x1',
+      _content_type_uid: 'product',
+    });
+  });
+});
+
+describe('ContentstackService in GraphQL mode', () => {
+  // In-memory CacheService, pre-seeded with the content types so no REST call is needed
+  const createCache = () => {
+    const store = new Map<string, string>([[`contentstack:${NAMESPACE}:content_types`, JSON.stringify(CONTENT_TYPES)]]);
+    const cache = {
+      get: jest.fn(async (key: string) => store.get(key) ?? null),
+      set: jest.fn(async (key: string, value: string) => {
+        store.set(key, value);
+        return true;
+      }),
+      del: jest.fn(async () => 0),
+      deleteByPattern: jest.fn(async () => 0),
+    };
+    return { store, cache };
+  };
+
+  const createService = (cache: ReturnType<typeof createCache>['cache']) => {
+    return new ContentstackService({
+      apiKey: 'blt_stack',
+      deliveryToken: DELIVERY_TOKEN,
+      environment: ENVIRONMENT,
+      deliveryMode: 'graphql',
+      graphqlEndpoint: endpoint,
+    }, cache as unknown as CacheService, NAMESPACE);
+  };
+
+  it('pages through every entry for the search index', async () => {
+    const service = createService(createCache().cache);
+
+    const entries = await service.getAllEntries('product');
+
+    expect(entries).toHaveLength(250);
+    expect(new Set(entries.map((entry) => entry.uid)).size).toBe(250);
+    expect(requests.map((request) => /limit: \d+(, skip: \d+)?/.exec(request.query)?.[0])).toEqual([
+      'limit: 100',
+      'limit: 100, skip: 100',
+      'limit: 100, skip: 200',
+    ]);
+  });
+
+  it('stops at the entry limit', async () => {
+    const service = createService(createCache().cache);
+
+    const entries = await service.getAllEntries('product', { pageSize: 40, maxEntries: 90 });
+
+    expect(entries).toHaveLength(90);
+    expect(requests.map((request) => /limit: \d+(, skip: \d+)?/.exec(request.query)?.[0])).toEqual([
+      'limit: 40',
+      'limit: 40, skip: 40',
+      'limit: 10, skip: 80',
+    ]);
+  });
+
+  it('caches queried entries under the namespaced content type key', async () => {
+    const { store, cache } = createCache();
+    const service = createService(cache);
+
+    const first = await service.queryContent('product', undefined, 3, { locale: 'en-us' });
+    const second = await service.queryContent('product', undefined, 3, { locale: 'en-us' });
+
+    const key = `contentstack:${NAMESPACE}:product:all:3:${JSON.stringify({ locale: 'en-us' })}`;
+    expect(store.has(key)).toBe(true);
+    expect(first.map((entry) => entry.uid)).toEqual(['p0', 'p1', 'p2']);
+    expect(second).toEqual(first);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('caches single entries under the namespaced entry key', async () => {
+    const { store, cache } = createCache();
+    const service = createService(cache);
+
+    const first = await service.getEntry('product', 'p42', { referenceDepth: 1 });
+    const second = await service.getEntry('product', 'p42', { referenceDepth: 1 });
+
+    expect(store.has(`contentstack:${NAMESPACE}:entry:product:p42:en-us:1`)).toBe(true);
+    expect(first).toMatchObject({ uid: 'p42', category: [{ uid: 'cat_shoes', summary: 'Everything for your feet' }] });
+    expect(second).toEqual(first);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('does not cache entries the stack does not have', async () => {
+    const { store, cache } = createCache();
+    const service = createService(cache);
+
+    expect(await service.getEntry('product', 'missing')).toBeNull();
+    expect(await service.getEntry('product', 'missing')).toBeNull();
+
+    expect(Array.from(store.keys()).some((key) => key.includes(':entry:'))).toBe(false);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('answers rejected queries over REST', async () => {
+    override = (query) => (query.includes('all_product') ? rejected('Query too complex') : undefined);
+    const service = createService(createCache().cache);
+    const rest = jest.spyOn((service as any).deliveryApi, 'get').mockImplementation(async () => ({
+      data: { entries: [{ uid: 'rest1', title: 'From REST' }], count: 1 },
+    }));
+
+    const entries = await service.queryContent('product');
+
+    expect(requests).toHaveLength(1);
+    expect(rest).toHaveBeenCalledWith('/content_types/product/entries', expect.objectContaining({
+      params: expect.objectContaining({ environment: ENVIRONMENT, limit: 10 }),
+    }));
+    expect(entries.map((entry) => entry.uid)).toEqual(['rest1']);
+  });
+});
@@ -0,0 +1,77 @@
+import { ContentstackServicePool } from '../contentstack-pool.js';
+import type { ContentstackService } from '../contentstack-service.js';
+import type { TenantRecord } from '../database-service.js';
+import { ToolRegistry } from '../tool-registry.js';
+import { registerContentstackTools } from '../../tools/contentstack-tools.js';
+import { registerEscalationTools } from '../../tools/escalation-tools.js';
+
+/**
+ * Which stack a request gets: the env stack is for the anonymous default
+ * widget only. A tenant without credentials of its own gets no stack, and
+ * so no Contentstack tools, rather than the operator's content.
+ */
+
+const createTenant = (contentstackConfig?: Record<string, unknown>): TenantRecord => ({
+  id: '5d1f3a52-8a0e-4f7e-9d43-0c6f1b2a7e11',
+  name: 'Shoe Shop',
+  domain: 'shoes.example.com',
+  api_key: 'ts_widget_key_0123456789',
+  ...(contentstackConfig && { contentstack_config: contentstackConfig }),
+  widget_config: {},
+  created_at: new Date(),
+  updated_at: new Date(),
+  status: 'active',
+  plan: 'pro',
+});
+
+const ownStack = { apiKey: 'blt_tenant_stack', deliveryToken: 'cs_tenant_token', environment: 'production' };
+
+describe('ContentstackServicePool', () => {
+  it('gives anonymous requests the env stack', () => {
+    const pool = new ContentstackServicePool();
+
+    expect(pool.forTenant(null)).toBe(pool.getDefault());
+  });
+
+  it('gives tenants their own stack', () => {
+    const pool = new ContentstackServicePool();
+    const tenant = createTenant(ownStack);
+
+    const contentstack = pool.forTenant(tenant);
+
+    expect(contentstack).not.toBe(pool.getDefault());
+    expect(contentstack?.isStack('blt_tenant_stack')).toBe(true);
+    expect(pool.forTenant(tenant)).toBe(contentstack);
+  });
+
+  it.each([
+    ['no Contentstack config', undefined],
+    ['no delivery token', { apiKey: 'blt_tenant_stack' }],
+    ['no API key', { deliveryToken: 'cs_tenant_token' }],
+  ])('gives tenants with %s no stack', (_case, config) => {
+    const pool = new ContentstackServicePool();
+
+    expect(pool.forTenant(createTenant(config))).toBeNull();
+    expect(pool.getStats().size).toBe(0);
+  });
+});
+
+describe('tools without a stack', () => {
+  const registry = registerEscalationTools(registerContentstackTools(new ToolRegistry()));
+  const names = (specs: Array<{ function: { name: string } }>) => specs.map((spec) => spec.function.name);
+
+  it('are not offered to the model', async () => {
+    const tenant = createTenant();
+    const contentstack = { getContentTypeSummaries: async () => [] } as unknown as ContentstackService;
+    const withStack = await registry.getToolSpecs({ contentstack, tenant });
+    const withoutStack = await registry.getToolSpecs({ contentstack: null, tenant });
+
+    expect(names(withStack)).toEqual(expect.arrayContaining(['query_contentstack_content', 'get_entry', 'escalate_to_human']));
+    expect(names(withoutStack)).toEqual(['escalate_to_human']);
+  });
+
+  it('cannot be called', async () => {
+    await expect(registry.execute('get_entry', { content_type: 'product', uid: 'blt1' }, { contentstack: null, tenant: createTenant() }))
+      .rejects.toThrow('Tool get_entry is not enabled for this tenant');
+  });
+});
@@ -0,0 +1,250 @@
+import {
+  buildSearchQuery,
+  escapeRegex,
+  MAX_SEARCH_LENGTH,
+  MAX_SEARCH_TERMS,
+  normalizeSearchInput,
+  SEARCH_MODES,
+  tokenizeSearchQuery,
+} from '../contentstack-query.js';
+
+/**
+ * Search input comes from the model (and through it from visitors), so the
+ * builder must turn anything into a bounded query whose `$regex` patterns
+ * match only the literal text. The corpus below is run through every mode.
+ */
+
+const METACHARACTERS = '.*+?^${}()|[]\\/-';
+
+const HANDWRITTEN = [
+  '', ' ', '\t\n\r', '(.*)+', '(a+)+$', '(a|aa)+', '(a|a?)+', '([a-zA-Z]+)*', '(.*a){20}', '^(([a-z])+.)+[A-Z]([a-z])+$',
+  '[', ']', '(', ')', '{', '}', '{1,99999}', 'a{2,}', '\\', '\\\\', '\\d+\\w*\\s?', '\\1', '(a)\\1', '(?=a)', '(?!a)',
+  '(?<=a)b', '(?<name>x)\\k<name>', '(?i)admin', '(?:x)', '[^]', '[\\s\\S]*', '[z-a]', '[a-', 'a**', '+a', '?', '*', '|',
+  '||||', '$', '^', '^$', '.', '...', '.*', '.*?', '/.*/', '/x/gi', 'shoes/.*', 'a-b', '-', '--', '$where', '$ne',
+  '{"$gt": ""}', '{"$regex": ".*"}', "'; DROP TABLE entries; --", '" OR 1=1 --', '<script>alert(1)</script>',
+  '${process.env.SECRET}', '{{constructor.constructor("x")()}}', '__proto__', 'constructor', 'hasOwnProperty',
+  '\u0000', 'a\u0000b', '\u0007\u001b[31mred', '\u200b\u200c\u200d\ufeff', 'shoe\u202eseod', '\ud800', '\udfff',
+  'a\ud83d', '😀', '👩‍👩‍👧‍👦', '🏳️‍🌈 pride', 'ｒｕｎｎｉｎｇ　ｓｈｏｅｓ', 'ﬁne', 'Å', 'Å', 'İstanbul', 'straße',
+  'café crème', 'naïve', 'Ωμέγα', 'Привет мир', 'مرحبا بالعالم', 'שלום', 'こんにちは世界', '漢字テスト', '한국어',
+  'e\u0301\u0301\u0301\u0301', 'Z̸̢̛̗͓̪̈́a̴̧͉̋l̷͎̈g̴̡̈́o̷̰͝', 'a'.repeat(10000), 'a '.repeat(5000), ' '.repeat(1000) + 'x',
+  '(' .repeat(500), ')'.repeat(500), '['.repeat(500), '\\'.repeat(501), '.*'.repeat(300), '(a+)+'.repeat(100),
+  'x'.repeat(39) + 'yz', 'https://example.com/products?id=1&sort=-price#top', 'user@example.com', 'C:\\Windows\\System32',
+  '../../../etc/passwd', '%00', '%2e%2e%2f', '&#x28;&#x29;', 'NaN', 'undefined', 'null', 'true', '0', '-1', '1e309',
+  'the', 'the a an of', 'a b c d e f g h i j k l m n o p', 'shoes shoes shoes SHOES Shoes', 'running shoes',
+  'trail-running shoes (waterproof) [size 42]', 'price < $100 && rating > 4.5', 'C++ vs C#', 'node.js', '.NET',
+  METACHARACTERS, METACHARACTERS.split('').join(' '),
+];
+
+// Seeded so a failing input can be reproduced
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const ALPHABET = Array.from(`${METACHARACTERS}ab zZ09_é漢😀\u0000\u200b\t\n"'\`<>&%#@!~=,;:`);
+
+const generated = (count: number, seed: number): string[] => {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, () => {
+    const length = Math.floor(random() * 300);
+    return Array.from({ length }, () => ALPHABET[Math.floor(random() * ALPHABET.length)]).join('');
+  });
+};
+
+const CORPUS = [
+  ...HANDWRITTEN,
+  // Every metacharacter alone, doubled, wrapped around a word and repeated at length
+  ...Array.from(METACHARACTERS).flatMap((char) => [char, char + char, `${char}shoes${char}`, `run${char}ning`, char.repeat(250)]),
+  ...generated(300, 42),
+];
+
+const FIELDS = ['title', 'description'];
+
+// Every `$regex` pattern anywhere in a query
+const collectPatterns = (query: unknown): string[] => {
+  if (Array.isArray(query)) return query.flatMap(collectPatterns);
+  if (!query || typeof query !== 'object') return [];
+
+  return Object.entries(query).flatMap(([key, value]) => (key === '$regex' ? [value as string] : collectPatterns(value)));
+};
+
+const collectKeys = (query: unknown): string[] => {
+  if (Array.isArray(query)) return query.flatMap(collectKeys);
+  if (!query || typeof query !== 'object') return [];
+
+  return Object.entries(query).flatMap(([key, value]) => [key, ...collectKeys(value)]);
+};
+
+// What is left of a pattern once escapes and the builder's own syntax are taken out
+const unescapedSyntax = (pattern: string): string => pattern
+  .replace(/^\^/, '')
+  .replace(/\\W\+/g, '')
+  .replace(/\\./g, '')
+  .replace(/[^.*+?^${}()|[\]\\/-]/g, '');
+
+const PATHOLOGICAL_SUBJECTS = ['a'.repeat(5000) + '!', 'ab'.repeat(2500) + '\u0000', '('.repeat(2000) + 'x'];
+
+describe('buildSearchQuery with adversarial input', () => {
+  it('runs a corpus of several hundred strings', () => {
+    expect(CORPUS.length).toBeGreaterThan(500);
+  });
+
+  describe.each(SEARCH_MODES)('%s mode', (mode) => {
+    const queries = CORPUS.map((input) => ({ input, query: buildSearchQuery(input, FIELDS, { mode }) }));
+
+    it('only produces patterns that compile', () => {
+      for (const { query } of queries) {
+        for (const pattern of collectPatterns(query)) {
+          expect(() => new RegExp(pattern, 'i')).not.toThrow();
+        }
+      }
+    });
+
+    it('escapes every metacharacter of the input', () => {
+      for (const { input, query } of queries) {
+        for (const pattern of collectPatterns(query)) {
+          if (unescapedSyntax(pattern) !== '') {
+            throw new Error(`Unescaped syntax in ${JSON.stringify(pattern)} built from ${JSON.stringify(input.slice(0, 80))}`);
+          }
+        }
+      }
+    });
+
+    it('keeps queries bounded', () => {
+      for (const { query } of queries) {
+        const patterns = collectPatterns(query);
+        expect(patterns.length).toBeLessThanOrEqual(MAX_SEARCH_TERMS * FIELDS.length);
+        for (const pattern of patterns) {
+          expect(pattern.length).toBeLessThanOrEqual(2 * MAX_SEARCH_LENGTH + MAX_SEARCH_TERMS * 3 + 1);
+        }
+        expect(JSON.stringify(query ?? null).length).toBeLessThan(8000);
+      }
+    });
+
+    it('never lets input become a query operator', () => {
+      const allowed = new Set([...FIELDS, '$or', '$and', '$regex', '$options', 'tags', '$in']);
+      for (const { query } of queries) {
+        for (const key of collectKeys(query)) {
+          if (/^\d+$/.test(key)) continue; // Array indexes
+          expect(allowed).toContain(key);
+        }
+      }
+    });
+
+    it('keeps control and format characters out of patterns and values', () => {
+      for (const { query } of queries) {
+        expect(JSON.stringify(query ?? null)).not.toMatch(/\\u00[01][0-9a-f]|[\u200b-\u200f\u202a-\u202e\ufeff]/i);
+      }
+    });
+
+    it('builds patterns that run in linear time on pathological subjects', () => {
+      const patterns = new Set(queries.flatMap(({ query }) => collectPatterns(query)));
+      const started = Date.now();
+
+      for (const pattern of patterns) {
+        const regex = new RegExp(pattern, 'i');
+        for (const subject of PATHOLOGICAL_SUBJECTS) regex.test(subject);
+      }
+
+      expect(Date.now() - started).toBeLessThan(5000);
+    });
+  });
+
+  it('matches the literal text in prefix mode', () => {
+    for (const input of CORPUS) {
+      const text = normalizeSearchInput(input);
+      for (const pattern of collectPatterns(buildSearchQuery(input, ['title'], { mode: 'prefix' }))) {
+        expect(new RegExp(pattern, 'i').test(text)).toBe(true);
+        expect(new RegExp(pattern, 'i').test(`\n${text}`)).toBe(false);
+      }
+    }
+  });
+
+  it('matches each term literally in terms mode', () => {
+    for (const input of CORPUS) {
+      for (const term of tokenizeSearchQuery(normalizeSearchInput(input))) {
+        const [pattern] = collectPatterns(buildSearchQuery(term, ['title']));
+        expect(new RegExp(pattern!, 'i').test(`before ${term} after`)).toBe(true);
+      }
+    }
+  });
+
+  it('compares the normalized text in exact mode', () => {
+    for (const input of CORPUS) {
+      const query = buildSearchQuery(input, ['title'], { mode: 'exact' });
+      const text = normalizeSearchInput(input);
+      expect(query).toEqual(text ? { title: text } : null);
+    }
+  });
+});
+
+describe('buildSearchQuery', () => {
+  it('requires every term in terms mode, or a matching tag', () => {
+    expect(buildSearchQuery('Running shoes for the trail', ['title'])).toEqual({
+      $or: [
+        { $and: ['running', 'shoes', 'trail'].map((term) => ({ title: { $regex: term, $options: 'i' } })) },
+        { tags: { $in: ['running', 'shoes', 'trail'] } },
+      ],
+    });
+  });
+
+  it('searches every field for a term', () => {
+    expect(buildSearchQuery('shoes', FIELDS)).toEqual({
+      $or: [
+        { $or: [{ title: { $regex: 'shoes', $options: 'i' } }, { description: { $regex: 'shoes', $options: 'i' } }] },
+        { tags: { $in: ['shoes'] } },
+      ],
+    });
+  });
+
+  it('matches words in order with anything between them in phrase mode', () => {
+    const query = buildSearchQuery('trail-running  shoes!', ['title'], { mode: 'phrase' });
+    const [pattern] = collectPatterns(query);
+
+    expect(pattern).toBe('trail\\W+running\\W+shoes');
+    expect(new RegExp(pattern!, 'i').test('Trail Running Shoes')).toBe(true);
+    expect(new RegExp(pattern!, 'i').test('shoes for trail running')).toBe(false);
+  });
+
+  it('escapes the text of prefix searches', () => {
+    expect(buildSearchQuery('C++ (2nd ed.)', ['title'], { mode: 'prefix' })).toEqual({
+      title: { $regex: '^C\\+\\+ \\(2nd ed\\.\\)', $options: 'i' },
+    });
+  });
+
+  it('returns null when nothing searchable is left', () => {
+    expect(buildSearchQuery('', FIELDS)).toBeNull();
+    expect(buildSearchQuery('(.*)+ [] {}', FIELDS)).toBeNull();
+    expect(buildSearchQuery('\u0000\u200b', FIELDS, { mode: 'exact' })).toBeNull();
+    expect(buildSearchQuery('shoes', [])).toBeNull();
+  });
+
+  it('keeps stopwords when the input has nothing else', () => {
+    expect(tokenizeSearchQuery('the a an of')).toEqual(['the', 'a', 'an', 'of']);
+    expect(tokenizeSearchQuery('the best of the best')).toEqual(['best']);
+  });
+
+  it('caps the number and length of terms', () => {
+    expect(tokenizeSearchQuery('one two three four five six seven eight nine ten')).toHaveLength(MAX_SEARCH_TERMS);
+    expect(tokenizeSearchQuery('x'.repeat(100))).toEqual(['x'.repeat(40)]);
+  });
+
+  it('cuts long input at a word boundary', () => {
+    const input = 'word '.repeat(100);
+    const text = normalizeSearchInput(input);
+
+    expect(text.length).toBeLessThanOrEqual(MAX_SEARCH_LENGTH);
+    expect(text.endsWith('word')).toBe(true);
+    expect(normalizeSearchInput('x'.repeat(500))).toHaveLength(MAX_SEARCH_LENGTH);
+  });
+});
+
+describe('escapeRegex', () => {
+  it('makes every metacharacter match itself', () => {
+    const escaped = escapeRegex(METACHARACTERS);
+    expect(new RegExp(`^${escaped}$`).test(METACHARACTERS)).toBe(true);
+    expect(new RegExp(escaped).test('x'.repeat(METACHARACTERS.length))).toBe(false);
+  });
+});
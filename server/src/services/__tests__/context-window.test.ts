@@ -0,0 +1,147 @@
+import { ContextWindowManager, estimateMessageTokens, getContextWindow } from '../context-window.js';
+import type { ChatMessage } from '../llm-service.js';
+
+/**
+ * Conversations fitted into small context windows. Messages are sized in
+ * estimated tokens, so the budgets below are exact: a window of W with
+ * max_tokens M and no safety margin leaves W - M tokens for the prompt.
+ */
+
+// Content of a message estimated at `tokens` tokens (4 of them are message overhead)
+const sized = (tokens: number, text = 'x'): string => text.padEnd((tokens - 4) * 4, '.');
+
+const system: ChatMessage = { role: 'system', content: sized(20, 'You are the shop assistant') };
+const user = (tokens: number, text?: string): ChatMessage => ({ role: 'user', content: sized(tokens, text) });
+const assistant = (tokens: number, text?: string): ChatMessage => ({ role: 'assistant', content: sized(tokens, text) });
+const toolResult = (id: string, tokens: number): ChatMessage => ({ role: 'tool', tool_call_id: id, name: 'get_entry', content: sized(tokens, `{"uid":"${id}"`) });
+const toolCall = (...ids: string[]): ChatMessage => ({
+  role: 'assistant',
+  content: '',
+  tool_calls: ids.map((id) => ({ id, type: 'function', function: { name: 'get_entry', arguments: '{}' } })),
+});
+
+const tokensOf = (messages: ChatMessage[]) => messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+
+const fit = (messages: ChatMessage[], contextWindow: number, options: { summarize?: boolean } = {}) => {
+  return new ContextWindowManager({ ...options, safetyMargin: 0 }).fit(system, messages, { contextWindow, maxTokens: 100 });
+};
+
+describe('getContextWindow', () => {
+  it.each([
+    ['llama-3.3-70b-versatile', 131072],
+    ['llama3-8b-8192', 8192],
+    ['llama3.1:8b', 131072],
+    ['gpt-4o-mini', 128000],
+    ['gpt-4-turbo-preview', 128000],
+    ['gpt-4-0613', 8192],
+    ['gpt-4.1-nano', 1047576],
+    ['claude-3-5-haiku-latest', 200000],
+  ])('knows %s by its longest matching prefix', (model, contextWindow) => {
+    expect(getContextWindow(model)).toBe(contextWindow);
+  });
+
+  it('prefers values configured for the provider', () => {
+    expect(getContextWindow('gpt-4o', { 'gpt-4o': 16000 })).toBe(16000);
+  });
+
+  it('falls back to the default for unknown models', () => {
+    expect(getContextWindow('house-model-v2')).toBe(8192);
+  });
+});
+
+describe('ContextWindowManager', () => {
+  it('leaves conversations that fit alone', () => {
+    const messages = [user(50), assistant(50), user(50)];
+
+    const { messages: fitted, report } = fit(messages, 1000);
+
+    expect(fitted).toEqual([system, ...messages]);
+    expect(report).toEqual({
+      context_window: 1000,
+      max_tokens: 100,
+      prompt_tokens: 170,
+      dropped_messages: 0,
+      dropped_tokens: 0,
+      truncated_tool_results: 0,
+      summarized: false,
+    });
+  });
+
+  it('drops the oldest turns first and keeps the system prompt and current turn', () => {
+    const turns = [user(100, 'first'), assistant(100), user(100, 'second'), assistant(100), user(100, 'third'), assistant(100)];
+    const current = user(100, 'current');
+
+    // Room for the system prompt, the last turn and the current message
+    const { messages: fitted, report } = fit([...turns, current], 100 + 20 + 200 + 100, { summarize: false });
+
+    expect(fitted).toEqual([system, turns[4], turns[5], current]);
+    expect(report).toMatchObject({ dropped_messages: 4, dropped_tokens: 400, truncated_tool_results: 0, summarized: false });
+    expect(report.prompt_tokens).toBeLessThanOrEqual(report.context_window - report.max_tokens);
+  });
+
+  it('drops a tool call together with its results', () => {
+    const messages = [user(40), toolCall('a', 'b'), toolResult('a', 100), toolResult('b', 100), assistant(40), user(40)];
+
+    const { messages: fitted, report } = fit(messages, 100 + 20 + 40 + 40, { summarize: false });
+
+    expect(fitted).toEqual([system, messages[4], messages[5]]);
+    expect(report.dropped_messages).toBe(4);
+  });
+
+  it('notes what the user asked in the dropped turns', () => {
+    const questions = ['Do you ship abroad?', 'Is there a warranty?', 'Which sizes?', 'What   about\nreturns?', 'Any discounts?', 'Gift wrapping?'];
+    const history = questions.flatMap((question) => [{ role: 'user', content: question } as ChatMessage, assistant(100)]);
+    const long = { role: 'user', content: `Tell me about ${'the trail runners '.repeat(20)}` } as ChatMessage;
+
+    // Too small for anything but the summary and the current message
+    const { messages: fitted } = fit([...history, long, assistant(100), user(20)], 100 + 200);
+
+    expect(fitted).toHaveLength(3);
+    expect(fitted[1]).toEqual({
+      role: 'system',
+      content: [
+        '14 earlier message(s) of this conversation were left out to fit the context window.',
+        'Earlier, the user asked about:',
+        '- Which sizes?',
+        '- What about returns?',
+        '- Any discounts?',
+        '- Gift wrapping?',
+        `- ${long.content.replace(/\s+/g, ' ').slice(0, 160)}…`,
+      ].join('\n'),
+    });
+  });
+
+  it('leaves the summary out when summaries are switched off', () => {
+    const { messages: fitted, report } = fit([user(100), assistant(100), user(100)], 100 + 20 + 100, { summarize: false });
+
+    expect(fitted).toEqual([system, expect.objectContaining({ role: 'user' })]);
+    expect(report.summarized).toBe(false);
+  });
+
+  it('shortens the largest tool results of the current turn once no history is left', () => {
+    const messages = [user(100), assistant(100), user(20), toolCall('small', 'large'), toolResult('small', 200), toolResult('large', 1000)];
+    const budget = 1000;
+
+    const { messages: fitted, report } = fit(messages, budget + 100);
+
+    // History goes first; only then are tool results cut, the largest one only as far as needed
+    expect(report).toMatchObject({ dropped_messages: 2, truncated_tool_results: 1, summarized: true });
+    const [small, large] = fitted.slice(-2);
+    expect(small).toEqual(messages[4]);
+    expect(large!.content.endsWith('…[truncated]')).toBe(true);
+    expect(large!.content.length).toBeLessThan(messages[5]!.content.length);
+    expect(report.prompt_tokens).toBeLessThanOrEqual(budget);
+    expect(report.prompt_tokens).toBeGreaterThan(budget - 10);
+    expect(tokensOf(fitted)).toBe(report.prompt_tokens);
+  });
+
+  it('cuts several tool results when the largest is not enough, without changing the messages passed in', () => {
+    const messages = [user(20), toolCall('a', 'b', 'c'), toolResult('a', 300), toolResult('b', 400), toolResult('c', 50)];
+
+    const { messages: fitted, report } = fit(messages, 100 + 20 + 20 + 200);
+
+    expect(report.truncated_tool_results).toBe(2);
+    expect(fitted.at(-1)).toEqual(messages[4]);
+    expect(messages[3]!.content.endsWith('…[truncated]')).toBe(false);
+  });
+});
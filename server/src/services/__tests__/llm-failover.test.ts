@@ -0,0 +1,185 @@
+import { jest } from '@jest/globals';
+import { AxiosError, AxiosHeaders } from 'axios';
+import type { AgentEvent, StreamChunk } from '../llm-service.js';
+
+/**
+ * Retries and failover of the agent loop, with the provider calls scripted:
+ * a provider is retried only until it sends its first chunk, an outage opens
+ * its circuit and moves requests to the fallback, and a half-open trial that
+ * ends without a verdict on the provider frees the circuit for the next one.
+ */
+
+// Keep retry backoff short; read when the LLM service module loads
+process.env.LLM_RETRY_BASE_DELAY_MS = '1';
+const { LLMService } = await import('../llm-service.js');
+
+type Script = (provider: string) => Promise<AsyncIterable<StreamChunk>>;
+
+const httpError = (status: number, message: string) => new AxiosError(message, AxiosError.ERR_BAD_RESPONSE, undefined, undefined, {
+  status,
+  statusText: message,
+  data: { error: { message } },
+  headers: {},
+  config: { headers: new AxiosHeaders() },
+});
+
+async function* answer(...parts: Array<string | Error>): AsyncIterable<StreamChunk> {
+  for (const part of parts) {
+    if (part instanceof Error) throw part;
+    yield { choices: [{ delta: { content: part } }] };
+  }
+  yield { choices: [{ delta: {}, finish_reason: 'stop' }] };
+}
+
+let now = 0;
+
+const circuitOf = (llm: InstanceType<typeof LLMService>) => llm.listModels().find((provider) => provider.name === 'mock')?.circuit;
+
+const createService = (script: Script) => {
+  const llm = new LLMService([
+    { type: 'mock', name: 'mock', models: [] },
+    { type: 'mock', name: 'mock-backup', models: [] },
+  ]);
+  const calls: string[] = [];
+  jest.spyOn(llm, 'generateStreamingResponse').mockImplementation(async (_messages, provider) => {
+    calls.push(provider!);
+    return script(provider!);
+  });
+
+  const run = async () => {
+    const events: AgentEvent[] = [];
+    let error: unknown = null;
+    try {
+      const stream = llm.runAgent([{ role: 'user', content: 'Do you ship abroad?' }], {
+        provider: 'mock',
+        fallbacks: [{ provider: 'mock-backup' }],
+        executeTool: async () => ({}),
+      });
+      for await (const event of stream) events.push(event);
+    } catch (caught) {
+      error = caught;
+    }
+
+    const content = events.flatMap((event) => (event.type === 'content' ? [event.content] : [])).join('');
+    const switches = events.filter((event) => event.type === 'provider_switched');
+    return { events, content, switches, error };
+  };
+
+  return { llm, calls, run };
+};
+
+beforeEach(() => {
+  now = Date.parse('2026-10-19T09:00:00.000Z');
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('LLMService failover', () => {
+  it('retries a provider that fails before sending anything', async () => {
+    let attempts = 0;
+    const { calls, run } = createService(async () => {
+      attempts += 1;
+      if (attempts < 3) throw httpError(503, 'Service Unavailable');
+      return answer('We ship ', 'worldwide.');
+    });
+
+    const { content, switches, error } = await run();
+
+    expect(error).toBeNull();
+    expect(calls).toEqual(['mock', 'mock', 'mock']);
+    expect(content).toBe('We ship worldwide.');
+    expect(switches).toEqual([]);
+  });
+
+  it('does not retry or fail over once the answer has started', async () => {
+    const { calls, run } = createService(async () => answer('We ship ', httpError(503, 'Service Unavailable')));
+
+    const { content, error } = await run();
+
+    // Another attempt would repeat what the visitor has already seen
+    expect(calls).toEqual(['mock']);
+    expect(content).toBe('We ship ');
+    expect(error).toBeInstanceOf(AxiosError);
+  });
+
+  it('does not retry errors that are not outages', async () => {
+    const { calls, run } = createService(async (provider) => {
+      if (provider === 'mock') throw httpError(401, 'Invalid API key');
+      return answer('We ship worldwide.');
+    });
+
+    const { content, switches } = await run();
+
+    expect(calls).toEqual(['mock', 'mock-backup']);
+    expect(content).toBe('We ship worldwide.');
+    expect(switches).toEqual([expect.objectContaining({
+      from: { provider: 'mock' },
+      to: { provider: 'mock-backup' },
+      reason: 'Invalid API key',
+    })]);
+  });
+
+  it('opens the circuit of a failing provider and sends later requests to the fallback', async () => {
+    const { llm, calls, run } = createService(async (provider) => {
+      if (provider === 'mock') throw httpError(503, 'Service Unavailable');
+      return answer('We ship worldwide.');
+    });
+
+    const first = await run();
+    expect(calls).toEqual(['mock', 'mock', 'mock', 'mock-backup']);
+    expect(first.switches).toHaveLength(1);
+    expect(first.content).toBe('We ship worldwide.');
+    expect(circuitOf(llm)).toBe('open');
+
+    calls.length = 0;
+    const second = await run();
+    expect(calls).toEqual(['mock-backup']);
+    expect(second.switches).toEqual([expect.objectContaining({ reason: 'Provider mock is temporarily unavailable' })]);
+  });
+
+  it('closes the circuit when the half-open trial succeeds', async () => {
+    let outage = true;
+    const { llm, calls, run } = createService(async (provider) => {
+      if (provider === 'mock' && outage) throw httpError(503, 'Service Unavailable');
+      return answer('We ship worldwide.');
+    });
+    await run();
+
+    outage = false;
+    now += 30000;
+    calls.length = 0;
+    const { switches } = await run();
+
+    expect(calls).toEqual(['mock']);
+    expect(switches).toEqual([]);
+    expect(circuitOf(llm)).toBe('closed');
+  });
+
+  it('frees the half-open trial when it ends without a verdict on the provider', async () => {
+    let failure: Error = httpError(503, 'Service Unavailable');
+    const { llm, calls, run } = createService(async (provider) => {
+      if (provider === 'mock') throw failure;
+      return answer('We ship worldwide.');
+    });
+    await run();
+
+    // The trial fails in a way that says nothing about the provider's health
+    failure = new Error('Provider mock has no models configured');
+    now += 30000;
+    calls.length = 0;
+    await run();
+    expect(calls).toEqual(['mock', 'mock-backup']);
+    expect(circuitOf(llm)).toBe('half_open');
+
+    // Without the release the next request would wait out another reset timeout
+    calls.length = 0;
+    await run();
+    expect(calls).toEqual(['mock', 'mock-backup']);
+  });
+});
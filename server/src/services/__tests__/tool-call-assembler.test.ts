@@ -0,0 +1,137 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { StreamChunk } from '../llm-service.js';
+import { readServerSentEvents } from '../llm-providers/stream-utils.js';
+import { ToolCallAssembler } from '../tool-call-assembler.js';
+
+const FIXTURES_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../../fixtures/groq');
+
+// Deliver a recorded response in network chunks of the given size
+async function* inPieces(text: string, size: number): AsyncIterable<string> {
+  for (let offset = 0; offset < text.length; offset += size) {
+    yield text.slice(offset, offset + size);
+  }
+}
+
+const readChunks = async (fixture: string, pieceSize = 64): Promise<StreamChunk[]> => {
+  const body = readFileSync(path.join(FIXTURES_DIR, fixture), 'utf8');
+  const chunks: StreamChunk[] = [];
+
+  for await (const { data } of readServerSentEvents(inPieces(body, pieceSize))) {
+    if (data.trim() === '[DONE]') break;
+    chunks.push(JSON.parse(data));
+  }
+  return chunks;
+};
+
+// Replay a fixture the way runAgent does: chunk by chunk, then end the stream
+const replay = async (fixture: string, pieceSize?: number) => {
+  const assembler = new ToolCallAssembler();
+  const completedAt: number[] = [];
+  const chunks = await readChunks(fixture, pieceSize);
+
+  chunks.forEach((chunk, i) => {
+    if (assembler.pushChunk(chunk)) completedAt.push(i);
+  });
+
+  return { assembler, chunks, completedAt, complete: assembler.end() };
+};
+
+describe('ToolCallAssembler', () => {
+  describe('recorded Groq streams', () => {
+    it('assembles arguments streamed in fragments', async () => {
+      const { assembler, complete } = await replay('single-tool-call.sse');
+
+      expect(complete).toBe(true);
+      expect(assembler.getToolCalls()).toEqual([
+        {
+          id: 'call_k2m9',
+          type: 'function',
+          function: {
+            name: 'query_contentstack_content',
+            arguments: '{"content_type": "product", "query": "waterproof jacket"}',
+          },
+        },
+      ]);
+    });
+
+    it('only completes on the finishing chunk', async () => {
+      const { chunks, completedAt } = await replay('single-tool-call.sse');
+
+      expect(completedAt).toEqual([chunks.length - 1]);
+    });
+
+    it('keeps interleaved parallel calls apart by index', async () => {
+      const { assembler, complete } = await replay('parallel-tool-calls.sse');
+
+      expect(complete).toBe(true);
+      const calls = assembler.getToolCalls();
+      expect(calls.map((call) => call.id)).toEqual(['call_a1', 'call_b2']);
+      expect(JSON.parse(calls[0]!.function.arguments)).toEqual({ query: 'return policy' });
+      expect(JSON.parse(calls[1]!.function.arguments)).toEqual({ content_type: 'faq', entry_uid: 'blt8f2c' });
+    });
+
+    it('runs tool calls that finish with "stop" once the stream ends', async () => {
+      const { assembler, completedAt, complete } = await replay('tool-call-finish-stop.sse');
+
+      expect(completedAt).toEqual([]);
+      expect(complete).toBe(true);
+      expect(assembler.getToolCalls()[0]!.function.name).toBe('recommend_content');
+    });
+
+    it('does not run calls whose arguments were cut off', async () => {
+      const { assembler, complete } = await replay('truncated-tool-call.sse');
+
+      expect(complete).toBe(false);
+      expect(assembler.getToolCalls()).toHaveLength(1);
+    });
+
+    it('reports plain answers as having no tool calls', async () => {
+      const { assembler, complete } = await replay('text-answer.sse');
+
+      expect(complete).toBe(false);
+      expect(assembler.getToolCalls()).toEqual([]);
+    });
+
+    it.each([1, 7, 33, 4096])('gives the same result for %i-byte network chunks', async (size) => {
+      const { assembler } = await replay('parallel-tool-calls.sse', size);
+
+      expect(assembler.getToolCalls().map((call) => call.function.arguments)).toEqual([
+        '{"query": "return policy"}',
+        '{"content_type":"faq","entry_uid":"blt8f2c"}',
+      ]);
+    });
+  });
+
+  describe('providers without indexes', () => {
+    it('matches fragments by id', () => {
+      const assembler = new ToolCallAssembler();
+      assembler.push([{ id: 'a', function: { name: 'global_search', arguments: '{"query":' } } as any]);
+      assembler.push([{ id: 'b', function: { name: 'get_entry', arguments: '{}' } } as any]);
+      assembler.push([{ id: 'a', function: { arguments: '"tents"}' } } as any]);
+
+      expect(assembler.getToolCalls().map((call) => [call.id, call.function.arguments])).toEqual([
+        ['a', '{"query":"tents"}'],
+        ['b', '{}'],
+      ]);
+    });
+
+    it('continues the most recent call for fragments without id or index', () => {
+      const assembler = new ToolCallAssembler();
+      assembler.push([{ function: { name: 'global_search', arguments: '{"query"' } } as any]);
+      assembler.push([{ function: { arguments: ':"tents"}' } } as any]);
+
+      const [call] = assembler.getToolCalls();
+      expect(call).toEqual({ id: 'call_0', type: 'function', function: { name: 'global_search', arguments: '{"query":"tents"}' } });
+    });
+  });
+
+  it('starts over after reset', async () => {
+    const { assembler } = await replay('single-tool-call.sse');
+    assembler.reset();
+
+    expect(assembler.isComplete()).toBe(false);
+    expect(assembler.getToolCalls()).toEqual([]);
+  });
+});
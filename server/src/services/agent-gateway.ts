@@ -0,0 +1,170 @@
+import type { Server as SocketIOServer, Socket } from 'socket.io';
+import { AppError } from '../middleware/error-handler.js';
+import { verifyToken } from '../middleware/auth.js';
+import type { AgentIdentity, EscalationEvent, EscalationService } from './escalation-service.js';
+
+// Dashboard user behind a socket, from the JWT sent as `auth.token` when connecting
+export interface SocketUser extends AgentIdentity {
+  tenantId: string | null;
+  role: string | null;
+}
+
+type Ack = (response: { ok: true; [key: string]: unknown } | { ok: false; error: string; status: number }) => void;
+
+const MAX_AGENT_MESSAGE_LENGTH = 10000;
+
+// Room of the agents working a tenant's escalation queue
+export const agentsRoom = (tenantId: string) => `agents_${tenantId}`;
+
+const toSocketUser = (decoded: any): SocketUser | null => {
+  const id = decoded?.id || decoded?.userId;
+  if (!id) return null;
+
+  const email = typeof decoded.email === 'string' ? decoded.email : '';
+  return {
+    id: String(id),
+    name: decoded.name || email.split('@')[0] || 'Support agent',
+    tenantId: decoded.tenantId ?? null,
+    role: decoded.role ?? null,
+  };
+};
+
+/**
+ * Lets support agents work the escalation queue over socket.io. An agent
+ * connects with their dashboard token, sends `join_tenant` and then receives
+ * the tenant's queue and every escalation update; `take_conversation`,
+ * `agent_message`, `agent_typing` and `release_conversation` act on a
+ * conversation and answer through the acknowledgement callback.
+ */
+export class AgentGateway {
+  constructor(private io: SocketIOServer, private escalations: EscalationService) {}
+
+  public attach(): this {
+    // Sockets without a token stay anonymous (widgets); a bad token is refused
+    this.io.use((socket, next) => {
+      const token = socket.handshake.auth?.token;
+      if (!token) return next();
+
+      try {
+        const user = toSocketUser(verifyToken(token));
+        if (!user) return next(new Error('Invalid token'));
+        socket.data.user = user;
+        next();
+      } catch {
+        next(new Error('Invalid token'));
+      }
+    });
+
+    this.io.on('connection', (socket) => this.handleConnection(socket));
+    this.escalations.subscribe((event) => this.broadcast(event));
+    return this;
+  }
+
+  private handleConnection(socket: Socket): void {
+    socket.on('join_tenant', async (tenantId: string) => {
+      const user = this.getAgent(socket, tenantId);
+      if (!user) return;
+
+      socket.join(agentsRoom(tenantId));
+      console.log(`🧑‍💼 Agent ${user.id} joined the escalation queue of tenant ${tenantId}`);
+
+      try {
+        socket.emit('escalation_queue', { tenantId, conversations: await this.escalations.getQueue(tenantId) });
+      } catch (error) {
+        console.error('❌ Failed to load escalation queue:', error);
+        socket.emit('error', { message: 'Failed to load escalation queue' });
+      }
+    });
+
+    this.on(socket, 'take_conversation', async (agent, data) => {
+      const conversation = await this.escalations.assign(data.conversationId, data.tenantId, agent);
+      return { conversationId: conversation.id, handledBy: conversation.handled_by };
+    });
+
+    this.on(socket, 'release_conversation', async (agent, data) => {
+      const conversation = await this.escalations.release(data.conversationId, data.tenantId, agent, data.requeue ? 'queued' : 'bot');
+      return { conversationId: conversation.id, handledBy: conversation.handled_by };
+    });
+
+    this.on(socket, 'agent_message', async (agent, data) => {
+      const content = typeof data.content === 'string' ? data.content.trim() : '';
+      if (!content || content.length > MAX_AGENT_MESSAGE_LENGTH) {
+        throw new AppError(`Message must be 1-${MAX_AGENT_MESSAGE_LENGTH} characters`, 400);
+      }
+      const message = await this.escalations.postAgentMessage(data.conversationId, data.tenantId, agent, content);
+      return { message };
+    });
+
+    this.on(socket, 'agent_typing', async (agent, data) => {
+      this.escalations.setAgentTyping(data.conversationId, data.tenantId, agent, !!data.isTyping);
+      return {};
+    });
+  }
+
+  /**
+   * Register a conversation action. Only agents of the conversation's tenant
+   * may use it; errors are reported through the acknowledgement.
+   */
+  private on(
+    socket: Socket,
+    event: string,
+    action: (agent: SocketUser, data: { conversationId: string; tenantId: string; [key: string]: any }) => Promise<Record<string, unknown>>
+  ): void {
+    socket.on(event, async (data: any, ack?: Ack) => {
+      const reply: Ack = typeof ack === 'function' ? ack : () => {};
+
+      const agent = this.getAgent(socket, data?.tenantId);
+      if (!agent) {
+        reply({ ok: false, error: 'Not allowed to handle conversations of this tenant', status: 403 });
+        return;
+      }
+      if (typeof data.conversationId !== 'string' || !data.conversationId) {
+        reply({ ok: false, error: 'Conversation ID is required', status: 400 });
+        return;
+      }
+
+      try {
+        reply({ ok: true, ...(await action(agent, data)) });
+      } catch (error) {
+        if (!(error instanceof AppError)) console.error(`❌ Agent ${event} failed:`, error);
+        reply({
+          ok: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          status: error instanceof AppError ? error.status : 500,
+        });
+      }
+    });
+  }
+
+  // The socket's user when they are an agent of the tenant (or an admin)
+  private getAgent(socket: Socket, tenantId: unknown): SocketUser | null {
+    const user: SocketUser | undefined = socket.data.user;
+    if (!user || typeof tenantId !== 'string' || !tenantId) return null;
+    return user.tenantId === tenantId || user.role === 'admin' ? user : null;
+  }
+
+  private broadcast({ conversationId, tenantId, update }: EscalationEvent): void {
+    if (!tenantId) return;
+    const room = this.io.to(agentsRoom(tenantId));
+
+    switch (update.type) {
+      case 'handoff':
+        room.emit(
+          update.status === 'queued' ? 'conversation_escalated' : update.status === 'agent' ? 'conversation_assigned' : 'conversation_released',
+          { conversationId, status: update.status, agent: update.agent ?? null }
+        );
+        break;
+      case 'visitor_message':
+        room.emit('visitor_message', { conversationId, content: update.content, timestamp: update.timestamp });
+        break;
+      case 'agent_message':
+        room.emit('agent_message', { conversationId, message: update });
+        break;
+      case 'typing':
+        room.emit('agent_typing', { conversationId, isTyping: update.isTyping, agent: update.agent ?? null });
+        break;
+    }
+  }
+}
+
+export default AgentGateway;
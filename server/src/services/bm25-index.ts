@@ -0,0 +1,124 @@
+export const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'so', 'that', 'the',
+  'their', 'there', 'these', 'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will',
+  'with', 'you', 'your',
+]);
+
+// Crude plural/verb-form folding so "shipping" and "ships" meet "ship"
+const stem = (word: string): string => {
+  if (word.length <= 4) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('ing') && word.length > 5) return word.slice(0, -3).replace(/(.)\1$/, '$1');
+  if (word.endsWith('ed') && word.length > 5) return word.slice(0, -2);
+  if (word.endsWith('es') && /(s|x|z|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+export const tokenize = (text: string): string[] => {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+};
+
+export interface BM25Options {
+  k1?: number;
+  b?: number;
+}
+
+interface IndexedDocument {
+  length: number;
+  terms: Map<string, number>;
+}
+
+/**
+ * In-memory Okapi BM25 over short documents (content chunks), with an
+ * inverted index so a query only touches documents sharing one of its terms.
+ */
+export class BM25Index {
+  private readonly k1: number;
+  private readonly b: number;
+  private documents: Map<string, IndexedDocument> = new Map();
+  private postings: Map<string, Set<string>> = new Map();
+  private totalLength = 0;
+
+  constructor(options: BM25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  public add(id: string, text: string): void {
+    this.remove(id);
+
+    const tokens = tokenize(text);
+    const terms = new Map<string, number>();
+    for (const token of tokens) {
+      terms.set(token, (terms.get(token) || 0) + 1);
+    }
+
+    this.documents.set(id, { length: tokens.length, terms });
+    this.totalLength += tokens.length;
+
+    for (const term of terms.keys()) {
+      if (!this.postings.has(term)) this.postings.set(term, new Set());
+      this.postings.get(term)!.add(id);
+    }
+  }
+
+  public remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) return;
+
+    for (const term of document.terms.keys()) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) this.postings.delete(term);
+    }
+
+    this.totalLength -= document.length;
+    this.documents.delete(id);
+  }
+
+  /**
+   * Scores of every document matching at least one query term
+   */
+  public score(query: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const count = this.documents.size;
+    if (count === 0) return scores;
+
+    const averageLength = this.totalLength / count || 1;
+
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (count - posting.size + 0.5) / (posting.size + 0.5));
+
+      for (const id of posting) {
+        const document = this.documents.get(id)!;
+        const frequency = document.terms.get(term)!;
+        const normalization = this.k1 * (1 - this.b + (this.b * document.length) / averageLength);
+        const termScore = idf * ((frequency * (this.k1 + 1)) / (frequency + normalization));
+        scores.set(id, (scores.get(id) || 0) + termScore);
+      }
+    }
+
+    return scores;
+  }
+
+  public search(query: string, k: number): Array<{ id: string; score: number }> {
+    return Array.from(this.score(query), ([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+
+  public get size(): number {
+    return this.documents.size;
+  }
+}
+
+export default BM25Index;
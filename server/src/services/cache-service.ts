@@ -306,10 +306,13 @@ export class CacheService {
     }
   }
 
-  // Pattern operations
+  // Pattern operations. ioredis does not prefix patterns, but does prefix the
+  // keys passed to other commands, so patterns get the prefix added and the
+  // returned keys have it removed.
   public async keys(pattern: string): Promise<string[]> {
     try {
-      return await this.client.keys(pattern);
+      const keys = await this.client.keys(this.withPrefix(pattern));
+      return keys.map((key) => this.withoutPrefix(key));
     } catch (error) {
       console.error(`❌ Cache keys error for pattern ${pattern}:`, error);
       return [];
@@ -318,17 +321,34 @@ export class CacheService {
 
   public async deleteByPattern(pattern: string): Promise<number> {
     try {
-      const keys = await this.client.keys(pattern);
-      if (keys.length > 0) {
-        return await this.client.del(...keys);
-      }
-      return 0;
+      let cursor = '0';
+      let deleted = 0;
+
+      // SCAN instead of KEYS so large keyspaces do not block Redis
+      do {
+        const [next, keys] = await this.client.scan(cursor, 'MATCH', this.withPrefix(pattern), 'COUNT', 500);
+        cursor = next;
+        if (keys.length > 0) {
+          deleted += await this.client.del(...keys.map((key) => this.withoutPrefix(key)));
+        }
+      } while (cursor !== '0');
+
+      return deleted;
     } catch (error) {
       console.error(`❌ Cache deleteByPattern error for pattern ${pattern}:`, error);
       return 0;
     }
   }
 
+  private withPrefix(pattern: string): string {
+    return `${this.config.keyPrefix || ''}${pattern}`;
+  }
+
+  private withoutPrefix(key: string): string {
+    const prefix = this.config.keyPrefix || '';
+    return prefix && key.startsWith(prefix) ? key.slice(prefix.length) : key;
+  }
+
   // Utility methods for common caching patterns
   public async getOrSet<T>(
     key: string,
@@ -0,0 +1,252 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { validationResult } from 'express-validator';
+import type { Server as SocketIOServer, Socket } from 'socket.io';
+import { agentsRoom } from './agent-gateway.js';
+import { ChatServices, streamChatTurn, validateChatRequest } from './chat-runner.js';
+import type { DatabaseService, TenantRecord } from './database-service.js';
+import {
+  SocketMessageAck,
+  SocketSession,
+  SocketSessionMessage,
+  SocketStreamDone,
+  SocketStreamFrame,
+  SOCKET_EVENTS,
+  StreamEvent,
+  TypingStreamEvent,
+} from '../utils/stream-protocol.js';
+
+const MESSAGES_PER_MINUTE = 60;
+const MAX_REQUEST_ID_LENGTH = 100;
+
+interface ActiveRequest {
+  controller: AbortController;
+  room: string;
+}
+
+// Widget connection state, set from the handshake
+interface WidgetSocketData {
+  tenant: TenantRecord | null;
+  session: SocketSession;
+  room: string;
+  window: { startedAt: number; count: number };
+}
+
+const sessionRoom = (tenant: TenantRecord | null, sessionId: string) => `session_${tenant?.id ?? 'anonymous'}_${sessionId}`;
+
+// `<sessionId>.<signature>`, signed for one tenant (or the anonymous default stack)
+const signSession = (secret: string, tenant: TenantRecord | null, sessionId: string): string => {
+  const signature = createHmac('sha256', secret).update(`${tenant?.id ?? 'anonymous'}:${sessionId}`).digest('base64url');
+  return `${sessionId}.${signature}`;
+};
+
+// The session ID of a token this server signed for the tenant, or null
+const readSessionToken = (secret: string, tenant: TenantRecord | null, token: unknown): string | null => {
+  if (typeof token !== 'string' || token.length > 255) return null;
+
+  const separator = token.lastIndexOf('.');
+  if (separator <= 0) return null;
+
+  const sessionId = token.slice(0, separator);
+  const expected = Buffer.from(signSession(secret, tenant, sessionId));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? sessionId : null;
+};
+
+/**
+ * Chat over socket.io, as an alternative to the SSE endpoint. Widgets
+ * authenticate with the tenant API key when connecting; every tab of a
+ * session joins the same room, so an answer requested in one tab streams into
+ * all of them. Answers run through the same pipeline as POST /api/chat/stream.
+ *
+ * Sessions are issued by the server: a widget without a valid session token
+ * gets a new session and its signed token on connect, and rejoins with that
+ * token, so nobody can join another visitor's room by guessing its ID.
+ */
+export class ChatGateway {
+  private requests: Map<string, ActiveRequest> = new Map();
+  private sessionSecret: string;
+
+  constructor(
+    private io: SocketIOServer,
+    private services: ChatServices & { database?: DatabaseService },
+    sessionSecret: string | undefined = process.env.SESSION_SECRET
+  ) {
+    if (!sessionSecret) {
+      console.warn('⚠️ SESSION_SECRET not set, widget chat sessions end when the server restarts');
+    }
+    this.sessionSecret = sessionSecret || randomBytes(32).toString('hex');
+  }
+
+  public attach(): this {
+    this.io.use((socket, next) => {
+      this.authenticate(socket)
+        .then(() => next())
+        .catch((error) => next(error instanceof Error ? error : new Error('Authentication failed')));
+    });
+
+    this.io.on('connection', (socket) => this.handleConnection(socket));
+    return this;
+  }
+
+  // Same rules as resolveWidgetTenant: no API key means the anonymous default stack
+  private async authenticate(socket: Socket): Promise<void> {
+    const { apiKey, tenantId, sessionToken } = socket.handshake.auth || {};
+    let tenant: TenantRecord | null = null;
+
+    if (typeof apiKey === 'string' && apiKey && this.services.database) {
+      let found: TenantRecord | null;
+      try {
+        found = await this.services.database.getTenantByApiKey(apiKey);
+      } catch (error) {
+        console.error('❌ Tenant lookup failed:', error);
+        throw new Error('Tenant lookup unavailable');
+      }
+
+      if (!found) throw new Error('Invalid API key');
+      if (tenantId && found.id !== tenantId) throw new Error('Invalid API key or tenant');
+      if (found.status !== 'active') throw new Error('Tenant is not active');
+      tenant = found;
+    }
+
+    // A missing, forged or other tenant's token starts a new session
+    const sessionId = readSessionToken(this.sessionSecret, tenant, sessionToken) ?? randomUUID();
+    const data: WidgetSocketData = {
+      tenant,
+      session: { sessionId, sessionToken: signSession(this.sessionSecret, tenant, sessionId) },
+      room: sessionRoom(tenant, sessionId),
+      window: { startedAt: Date.now(), count: 0 },
+    };
+    socket.data.widget = data;
+    socket.data.sessionId = sessionId;
+  }
+
+  private handleConnection(socket: Socket): void {
+    const widget: WidgetSocketData = socket.data.widget;
+    socket.join(widget.room);
+    socket.emit(SOCKET_EVENTS.session, widget.session);
+
+    socket.on(SOCKET_EVENTS.message, (data: any, ack?: (response: SocketMessageAck) => void) => {
+      const respond = typeof ack === 'function' ? ack : () => {};
+      // socket.io sends only the first ack, so this is a no-op once the request was accepted
+      this.handleMessage(socket, widget, data, respond).catch((error) => {
+        console.error('❌ Socket chat message failed:', error);
+        respond({ ok: false, error: 'Failed to process message' });
+      });
+    });
+
+    // Stop a request of this session; the HTTP stop endpoint works as well
+    socket.on(SOCKET_EVENTS.stop, (data: any) => {
+      const request = this.requests.get(data?.requestId);
+      if (request && request.room === widget.room) {
+        request.controller.abort();
+        console.log(`⏹️ Socket request ${data.requestId} stopped`);
+      }
+    });
+
+    // The visitor typing: shown in their other tabs and to agents handling the conversation
+    socket.on(SOCKET_EVENTS.typing, (data: any) => {
+      const typing: TypingStreamEvent = { type: 'typing', author: 'visitor', isTyping: !!data?.isTyping };
+      socket.to(widget.room).emit(SOCKET_EVENTS.typing, typing);
+
+      if (widget.tenant && typeof data?.conversationId === 'string') {
+        this.notifyAgentsTyping(widget, socket.data.sessionId, data.conversationId, typing.isTyping).catch((error) => {
+          console.error('❌ Failed to relay visitor typing:', error);
+        });
+      }
+    });
+
+    // Answers keep going while another tab of the session is still open; the last tab to leave stops them all
+    socket.on('disconnect', () => {
+      this.io.in(widget.room).fetchSockets()
+        .then((remaining) => {
+          if (remaining.length > 0) return;
+
+          for (const request of this.requests.values()) {
+            if (request.room === widget.room) request.controller.abort();
+          }
+        })
+        .catch((error) => console.error(`❌ Failed to check the sockets of ${widget.room}:`, error));
+    });
+  }
+
+  private async handleMessage(socket: Socket, widget: WidgetSocketData, data: any, ack: (response: SocketMessageAck) => void): Promise<void> {
+    if (!this.allowMessage(widget)) {
+      ack({ ok: false, error: 'Too many messages, please slow down' });
+      return;
+    }
+
+    // Run the HTTP endpoint's validation chains on the payload
+    const request = { body: data && typeof data === 'object' ? data : {} };
+    await Promise.all(validateChatRequest.map((chain) => chain.run(request)));
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      ack({ ok: false, error: 'Validation failed', details: errors.array() });
+      return;
+    }
+
+    const requestId = typeof data.requestId === 'string' && data.requestId && data.requestId.length <= MAX_REQUEST_ID_LENGTH
+      ? data.requestId
+      : randomUUID();
+    if (this.requests.has(requestId)) {
+      ack({ ok: false, error: 'Request ID already in use' });
+      return;
+    }
+
+    const controller = new AbortController();
+    this.requests.set(requestId, { controller, room: widget.room });
+    ack({ ok: true, requestId });
+
+    const userMessage = [...data.messages].reverse().find((message: any) => message.role === 'user');
+    if (userMessage) {
+      const echo: SocketSessionMessage = { requestId, content: userMessage.content, timestamp: new Date().toISOString() };
+      socket.to(widget.room).emit(SOCKET_EVENTS.sessionMessage, echo);
+    }
+
+    const room = this.io.to(widget.room);
+    const assistantTyping = (isTyping: boolean): TypingStreamEvent => ({ type: 'typing', author: 'assistant', isTyping });
+    let lastId = 0;
+
+    room.emit(SOCKET_EVENTS.typing, assistantTyping(true));
+
+    try {
+      await streamChatTurn({
+        services: this.services,
+        tenant: widget.tenant,
+        body: { ...data, sessionId: socket.data.sessionId },
+        acceptLanguage: socket.handshake.headers['accept-language'],
+        controller,
+        send: (event: StreamEvent) => {
+          const frame: SocketStreamFrame = { requestId, id: ++lastId, event };
+          room.emit(SOCKET_EVENTS.event, frame);
+        },
+      });
+    } finally {
+      this.requests.delete(requestId);
+      room.emit(SOCKET_EVENTS.typing, assistantTyping(false));
+      const done: SocketStreamDone = { requestId };
+      room.emit(SOCKET_EVENTS.done, done);
+    }
+  }
+
+  // Fixed one-minute window per connection, like the HTTP endpoint's rate limit
+  private allowMessage(widget: WidgetSocketData): boolean {
+    const now = Date.now();
+    if (now - widget.window.startedAt >= 60000) {
+      widget.window = { startedAt: now, count: 0 };
+    }
+    widget.window.count += 1;
+    return widget.window.count <= MESSAGES_PER_MINUTE;
+  }
+
+  // Agents only hear about conversations of this visitor's session
+  private async notifyAgentsTyping(widget: WidgetSocketData, sessionId: string, conversationId: string, isTyping: boolean): Promise<void> {
+    if (!widget.tenant || !this.services.conversations) return;
+
+    const conversation = await this.services.conversations.getForVisitor(conversationId, widget.tenant.id, sessionId);
+    if (!conversation) return;
+
+    this.io.to(agentsRoom(widget.tenant.id)).emit('visitor_typing', { conversationId, isTyping });
+  }
+}
+
+export default ChatGateway;
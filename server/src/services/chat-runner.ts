@@ -0,0 +1,279 @@
+import { body } from 'express-validator';
+import { AppError } from '../middleware/error-handler.js';
+import type { ContentstackServicePool } from './contentstack-pool.js';
+import type { ConversationService, ConversationTurn } from './conversation-service.js';
+import type { TenantRecord } from './database-service.js';
+import type { EscalationEvent, EscalationService } from './escalation-service.js';
+import type { GenerationRegistry } from './generation-registry.js';
+import type { ChatMessage, LLMService, ModelTarget, ToolExecutor } from './llm-service.js';
+import type { ProviderConfig } from './llm-providers/index.js';
+import { getLocaleSettings, parseAcceptLanguage, ResolvedLocale, resolveLocale } from './locale-resolver.js';
+import type { PromptService } from './prompt-service.js';
+import { getTenantProviderConfigs } from './provider-secrets.js';
+import type { RetrievalService } from './retrieval-service.js';
+import { SourceCollector } from './source-collector.js';
+import type { ToolContext, ToolRegistry, ToolSpec } from './tool-registry.js';
+import type { HandoffStreamEvent, SourcesStreamEvent, StreamEvent } from '../utils/stream-protocol.js';
+
+/**
+ * One streamed chat turn, shared by the SSE endpoint and the socket.io
+ * transport: both hand in a `send` callback and get the same protocol events.
+ */
+
+// The services a chat turn uses, as found on `app.locals.services`
+export interface ChatServices {
+  llm: LLMService;
+  contentstack: ContentstackServicePool;
+  prompts: PromptService;
+  tools: ToolRegistry;
+  generations?: GenerationRegistry;
+  conversations?: ConversationService;
+  retrieval?: RetrievalService;
+  escalations?: EscalationService;
+}
+
+export interface ChatRequestBody {
+  messages: ChatMessage[];
+  provider?: string;
+  model?: string;
+  websiteContext?: any;
+  conversationId?: string;
+  sessionId?: string;
+}
+
+export interface ChatTurnOptions {
+  services: ChatServices | null | undefined;
+  tenant: TenantRecord | null;
+  body: ChatRequestBody;
+  // Accept-Language of the visitor's browser
+  acceptLanguage?: string | undefined;
+  controller: AbortController;
+  send: (event: StreamEvent) => void;
+}
+
+// Validation middleware; the socket transport runs the same chains on its payloads
+export const validateChatRequest = [
+  body('messages').isArray().withMessage('Messages must be an array'),
+  body('messages.*.content').notEmpty().withMessage('Message content is required'),
+  body('messages.*.role').isIn(['user', 'assistant', 'system']).withMessage('Invalid message role'),
+  body('provider').optional().isString().withMessage('Provider must be a string'),
+  body('model').optional().isString().withMessage('Model must be a string'),
+  body('websiteContext').optional().isObject().withMessage('Website context must be an object'),
+  body('conversationId').optional().isUUID().withMessage('Conversation ID must be a UUID'),
+  body('sessionId').optional().isString().isLength({ max: 255 }).withMessage('Session ID must be a string'),
+];
+
+// Build the tool list and executor for a chat request
+export const createToolset = async (
+  registry: ToolRegistry,
+  context: ToolContext
+): Promise<{ tools: ToolSpec[]; executeTool: ToolExecutor }> => {
+  return {
+    tools: await registry.getToolSpecs(context),
+    executeTool: (name, args) => {
+      console.log(`🛠️ Processing ${name} tool call:`, args);
+      return registry.execute(name, args, context);
+    },
+  };
+};
+
+// Pick provider and model: explicit request values, then tenant defaults, then global defaults
+export const resolveModelSelection = (
+  llmService: LLMService,
+  tenant: TenantRecord | null,
+  requested: { provider?: string; model?: string }
+): { provider: string; model?: string; providerConfigs: ProviderConfig[]; fallbacks?: ModelTarget[] } => {
+  const aiConfig = tenant?.widget_config?.ai || {};
+  const providerConfigs = getTenantProviderConfigs(tenant);
+  const provider = requested.provider || aiConfig.provider || llmService.getDefaultProvider();
+  const model = requested.model || (provider === aiConfig.provider ? aiConfig.model : undefined);
+
+  if (!llmService.hasProvider(provider, providerConfigs)) {
+    throw new AppError(`Provider ${provider} not available`, 400);
+  }
+
+  return {
+    provider,
+    ...(model && { model }),
+    providerConfigs,
+    ...(Array.isArray(aiConfig.fallbacks) && { fallbacks: aiConfig.fallbacks }),
+  };
+};
+
+// The visitor's locale: the page's declared language first, then the browser's preferences
+export const resolveVisitorLocale = (
+  websiteContext: any,
+  acceptLanguage: string | undefined,
+  tenant: TenantRecord | null
+): ResolvedLocale => {
+  const requested = [websiteContext?.language, ...parseAcceptLanguage(acceptLanguage)];
+  return resolveLocale(requested, getLocaleSettings(tenant));
+};
+
+// Open a persisted turn for this request; chat keeps working if storage is down
+export const startConversationTurn = async (
+  conversationService: ConversationService | undefined,
+  tenant: TenantRecord | null,
+  body: ChatRequestBody,
+  locale: ResolvedLocale
+): Promise<ConversationTurn | null> => {
+  if (!conversationService) return null;
+
+  const userMessage = [...body.messages].reverse().find((message) => message.role === 'user');
+
+  try {
+    return await conversationService.startTurn({
+      tenantId: tenant?.id ?? null,
+      ...(body.conversationId && { conversationId: body.conversationId }),
+      ...(body.sessionId && { sessionId: body.sessionId }),
+      ...(userMessage && { userMessage }),
+      metadata: { websiteContext: body.websiteContext || null, locale: locale.locale, language: locale.language },
+    });
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+
+    console.warn('⚠️ Conversation persistence unavailable:', error);
+    return null;
+  }
+};
+
+/**
+ * Escalated conversations pass the visitor's message on to the agents. Once an
+ * agent has taken over the assistant stays out of it: the returned handoff
+ * event is the whole answer. Null means the assistant answers as usual.
+ */
+export const relayToAgent = async (
+  escalations: EscalationService | undefined,
+  turn: ConversationTurn | null,
+  tenant: TenantRecord | null,
+  messages: ChatMessage[]
+): Promise<HandoffStreamEvent | null> => {
+  if (!escalations || !turn) return null;
+
+  try {
+    const state = await escalations.getState(turn.conversationId, tenant?.id ?? null);
+    if (!state || state.handledBy === 'bot') return null;
+
+    const userMessage = [...messages].reverse().find((message) => message.role === 'user');
+    if (userMessage) {
+      escalations.relayVisitorMessage(turn.conversationId, tenant?.id ?? null, userMessage.content);
+    }
+
+    return state.handledBy === 'agent' ? { type: 'handoff', status: 'agent', ...(state.agent && { agent: state.agent }) } : null;
+  } catch (error) {
+    console.warn(`⚠️ Failed to check the handler of ${turn.conversationId}:`, error);
+    return null;
+  }
+};
+
+// The sources event for an answer, or null when no Contentstack entries were used
+export const createSourcesEvent = (sources: SourceCollector, answer: string): SourcesStreamEvent | null => {
+  const cited = sources.forAnswer(answer);
+  return cited.length > 0 ? { type: 'sources', sources: cited } : null;
+};
+
+/**
+ * Run one streamed answer: open the conversation turn, run the agent loop and
+ * send every event. Failures are sent as an error event rather than thrown,
+ * and returned for transports that answer them with a status; ending the
+ * stream is up to the transport.
+ */
+export const streamChatTurn = async ({ services, tenant, body, acceptLanguage, controller, send }: ChatTurnOptions): Promise<Error | null> => {
+  const { messages, websiteContext } = body;
+  let turn: ConversationTurn | null = null;
+  let unsubscribe: (() => void) | undefined;
+
+  try {
+    if (!services?.llm) {
+      throw new Error('LLM service not available');
+    }
+
+    const { provider, model, providerConfigs, fallbacks } = resolveModelSelection(services.llm, tenant, body);
+
+    console.log('📨 Received chat request:', {
+      provider,
+      model,
+      messageCount: messages.length,
+      hasContext: !!websiteContext
+    });
+
+    const locale = resolveVisitorLocale(websiteContext, acceptLanguage, tenant);
+    turn = await startConversationTurn(services.conversations, tenant, body, locale);
+    if (turn) {
+      send({ type: 'conversation', conversationId: turn.conversationId });
+
+      const handoff = await relayToAgent(services.escalations, turn, tenant, messages);
+      if (handoff) {
+        send(handoff);
+        await turn.complete('completed');
+        return null;
+      }
+
+      services.generations?.start(turn.conversationId, tenant?.id ?? null, controller);
+
+      // Escalations during this answer (e.g. the escalate_to_human tool) reach the widget right away
+      unsubscribe = services.escalations?.subscribe(({ update }: EscalationEvent) => {
+        if (update.type === 'handoff') send(update);
+      }, turn.conversationId);
+    }
+
+    const sources = new SourceCollector(tenant?.domain || websiteContext?.domain);
+    const toolset = await createToolset(services.tools, {
+      contentstack: services.contentstack.forTenant(tenant),
+      tenant,
+      websiteContext,
+      locale,
+      signal: controller.signal,
+      sources,
+      ...(services.retrieval && { retrieval: services.retrieval }),
+      ...(turn && { conversationId: turn.conversationId }),
+      ...(services.escalations && { escalations: services.escalations }),
+    });
+
+    // Run the agent loop so tool results are fed back to the model
+    const events = services.llm.runAgent(messages, {
+      provider,
+      ...(model && { model }),
+      websiteContext,
+      providerConfigs,
+      ...(fallbacks && { fallbacks }),
+      systemPrompt: services.prompts.buildForTenant(tenant, websiteContext, toolset.tools, locale),
+      signal: controller.signal,
+      ...toolset,
+    });
+
+    let answer = '';
+    for await (const event of events) {
+      if (event.type === 'content') {
+        answer += event.content;
+      } else if (event.type === 'completion') {
+        // Sources go out once the answer text (and its [n] markers) is complete
+        const sourcesEvent = createSourcesEvent(sources, answer);
+        if (sourcesEvent) {
+          turn?.track(sourcesEvent);
+          send(sourcesEvent);
+        }
+      }
+
+      turn?.track(event);
+      send(event);
+    }
+
+    await turn?.complete(controller.signal.aborted ? 'aborted' : 'completed');
+    return null;
+
+  } catch (error) {
+    console.error('❌ Chat streaming error:', error);
+    await turn?.complete('error', error instanceof Error ? error.message : 'Unknown error');
+
+    send({
+      type: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      timestamp: new Date().toISOString()
+    });
+    return error instanceof Error ? error : new Error('Unknown error occurred');
+  } finally {
+    unsubscribe?.();
+    if (turn) services?.generations?.finish(turn.conversationId, controller);
+  }
+};
@@ -0,0 +1,108 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;
+  resetTimeoutMs?: number;
+}
+
+export interface CircuitBreakerStats {
+  state: CircuitState;
+  failures: number;
+  lastFailureAt: string | null;
+  openedAt: string | null;
+}
+
+/**
+ * Classic three-state circuit breaker. After `failureThreshold` consecutive
+ * failures the circuit opens and requests are refused until
+ * `resetTimeoutMs` has passed; then a single trial request is let through
+ * (half open) and its outcome decides whether the circuit closes again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures: number = 0;
+  private lastFailureAt: number | null = null;
+  private openedAt: number | null = null;
+  private trialStartedAt: number | null = null;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+
+  constructor(public readonly name: string, options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+  }
+
+  /**
+   * Whether a request may go out now. While half open this admits the trial
+   * request and refuses the rest until its outcome is recorded (or it has
+   * been pending for longer than the reset timeout).
+   */
+  public canRequest(): boolean {
+    this.refresh();
+
+    if (this.state === 'half_open') {
+      const now = Date.now();
+      if (this.trialStartedAt !== null && now - this.trialStartedAt < this.resetTimeoutMs) {
+        return false;
+      }
+      this.trialStartedAt = now;
+    }
+
+    return this.state !== 'open';
+  }
+
+  // A request ended without saying anything about the provider, e.g. it was cancelled
+  public releaseTrial(): void {
+    this.trialStartedAt = null;
+  }
+
+  public recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log(`✅ Circuit for ${this.name} closed`);
+    }
+
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialStartedAt = null;
+  }
+
+  public recordFailure(): void {
+    this.failures++;
+    this.lastFailureAt = Date.now();
+
+    if (this.state === 'half_open' || this.failures >= this.failureThreshold) {
+      if (this.state !== 'open') {
+        console.warn(`⚠️ Circuit for ${this.name} opened after ${this.failures} failure(s)`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+    this.trialStartedAt = null;
+  }
+
+  public getState(): CircuitState {
+    this.refresh();
+    return this.state;
+  }
+
+  // An open circuit whose reset timeout has passed becomes half open
+  private refresh(): void {
+    if (this.state === 'open' && this.openedAt !== null && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.state = 'half_open';
+      this.trialStartedAt = null;
+      console.log(`🔌 Circuit for ${this.name} is half open, allowing a trial request`);
+    }
+  }
+
+  public getStats(): CircuitBreakerStats {
+    return {
+      state: this.getState(),
+      failures: this.failures,
+      lastFailureAt: this.lastFailureAt ? new Date(this.lastFailureAt).toISOString() : null,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+    };
+  }
+}
+
+export default CircuitBreaker;
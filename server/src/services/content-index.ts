@@ -0,0 +1,228 @@
+import { BM25Index } from './bm25-index.js';
+import { chunkText, ChunkOptions, entryToText } from './text-chunker.js';
+import type { ContentstackEntry } from './contentstack-service.js';
+import type { EmbeddingBackend } from './embeddings/index.js';
+
+export interface IndexedChunk {
+  id: string;
+  uid: string;
+  contentType: string;
+  title: string;
+  url: string | null;
+  locale: string | null;
+  text: string;
+}
+
+export interface RetrievedChunk extends IndexedChunk {
+  score: number;
+}
+
+export interface RetrieveOptions {
+  contentTypes?: string[];
+  // Locales to search, preferred first; an entry found in several keeps only its best one
+  locales?: string[];
+  minScore?: number;
+  maxChunksPerEntry?: number;
+}
+
+export interface ContentIndexOptions extends ChunkOptions {
+  // Share of the final score that comes from embedding similarity (0..1)
+  semanticWeight?: number;
+}
+
+export interface ContentIndexStats {
+  entries: number;
+  chunks: number;
+  contentTypes: string[];
+  locales: string[];
+  embeddings: string | null;
+}
+
+const cosine = (a: Float32Array, b: Float32Array): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Hybrid search index over the chunked entries of one stack. BM25 finds exact
+ * terms, the optional embedding backend finds paraphrases; scores are blended
+ * after normalizing BM25 to the best match of the query.
+ */
+export class ContentIndex {
+  private readonly bm25 = new BM25Index();
+  private readonly semanticWeight: number;
+  private chunks: Map<string, IndexedChunk> = new Map();
+  private vectors: Map<string, Float32Array> = new Map();
+  private entryChunks: Map<string, string[]> = new Map();
+
+  constructor(private embeddings: EmbeddingBackend | null, private options: ContentIndexOptions = {}) {
+    this.semanticWeight = embeddings ? options.semanticWeight ?? 0.5 : 0;
+  }
+
+  public async addEntries(contentType: string, entries: ContentstackEntry[]): Promise<number> {
+    const added: IndexedChunk[] = [];
+
+    for (const entry of entries) {
+      this.removeEntry(contentType, entry.uid, entry.locale);
+
+      const entryKey = this.entryKey(contentType, entry.uid, entry.locale);
+      const texts = chunkText(entryToText(entry), this.options);
+      const ids = texts.map((text, i) => {
+        const chunk: IndexedChunk = {
+          id: `${entryKey}#${i}`,
+          uid: entry.uid,
+          contentType,
+          title: typeof entry.title === 'string' ? entry.title : entry.uid,
+          url: typeof entry.url === 'string' && entry.url ? entry.url : null,
+          locale: entry.locale || null,
+          text,
+        };
+        this.chunks.set(chunk.id, chunk);
+        this.bm25.add(chunk.id, `${chunk.title}\n${text}`);
+        added.push(chunk);
+        return chunk.id;
+      });
+
+      this.entryChunks.set(entryKey, ids);
+    }
+
+    await this.embedChunks(added);
+    return added.length;
+  }
+
+  /**
+   * Remove an entry's chunks; without a locale every localized version goes
+   */
+  public removeEntry(contentType: string, uid: string, locale?: string | null): boolean {
+    const entryKeys = locale === undefined
+      ? Array.from(this.entryChunks.keys()).filter((key) => key.startsWith(`${contentType}:${uid}:`))
+      : [this.entryKey(contentType, uid, locale)];
+
+    let removed = false;
+    for (const entryKey of entryKeys) {
+      const ids = this.entryChunks.get(entryKey);
+      if (!ids) continue;
+
+      for (const id of ids) {
+        this.bm25.remove(id);
+        this.chunks.delete(id);
+        this.vectors.delete(id);
+      }
+      this.entryChunks.delete(entryKey);
+      removed = true;
+    }
+    return removed;
+  }
+
+  public async retrieve(query: string, k: number, options: RetrieveOptions = {}): Promise<RetrievedChunk[]> {
+    const minScore = options.minScore ?? 0.05;
+    const maxChunksPerEntry = options.maxChunksPerEntry ?? 2;
+    const allowed = options.contentTypes?.length ? new Set(options.contentTypes) : null;
+    const locales = options.locales?.length ? options.locales : null;
+    // Chunks without a locale come from stacks that are not localized and always match
+    const localeRank = (chunk: IndexedChunk) => (locales && chunk.locale ? locales.indexOf(chunk.locale) : 0);
+    const inScope = (id: string) => {
+      const chunk = this.chunks.get(id)!;
+      return (!allowed || allowed.has(chunk.contentType)) && localeRank(chunk) >= 0;
+    };
+
+    const lexical = this.bm25.score(query);
+    const best = Math.max(0, ...Array.from(lexical).filter(([id]) => inScope(id)).map(([, score]) => score));
+
+    const semantic = new Map<string, number>();
+    const queryVector = await this.embedQuery(query);
+    if (queryVector) {
+      for (const [id, vector] of this.vectors) {
+        if (inScope(id)) semantic.set(id, Math.max(0, cosine(queryVector, vector)));
+      }
+    }
+    // Without a query vector (backend down) ranking falls back to BM25 alone
+    const weight = queryVector ? this.semanticWeight : 0;
+
+    const candidates = new Set([...lexical.keys(), ...semantic.keys()]);
+    const scored: RetrievedChunk[] = [];
+    for (const id of candidates) {
+      if (!inScope(id)) continue;
+
+      const lexicalScore = best > 0 ? (lexical.get(id) || 0) / best : 0;
+      const score = (1 - weight) * lexicalScore + weight * (semantic.get(id) || 0);
+      if (score >= minScore) scored.push({ ...this.chunks.get(id)!, score });
+    }
+
+    scored.sort((a, b) => b.score - a.score);
+
+    // The same entry in a fallback locale only counts when its preferred version did not match
+    const bestRank = new Map<string, number>();
+    for (const chunk of scored) {
+      const key = `${chunk.contentType}:${chunk.uid}`;
+      bestRank.set(key, Math.min(bestRank.get(key) ?? Infinity, localeRank(chunk)));
+    }
+
+    // Spread the results over several entries instead of one long page
+    const perEntry = new Map<string, number>();
+    const results: RetrievedChunk[] = [];
+    for (const chunk of scored) {
+      if (localeRank(chunk) > bestRank.get(`${chunk.contentType}:${chunk.uid}`)!) continue;
+
+      const key = this.entryKey(chunk.contentType, chunk.uid, chunk.locale);
+      const taken = perEntry.get(key) || 0;
+      if (taken >= maxChunksPerEntry) continue;
+
+      perEntry.set(key, taken + 1);
+      results.push(chunk);
+      if (results.length >= k) break;
+    }
+
+    return results;
+  }
+
+  public getStats(): ContentIndexStats {
+    return {
+      entries: this.entryChunks.size,
+      chunks: this.chunks.size,
+      contentTypes: Array.from(new Set(Array.from(this.chunks.values(), (chunk) => chunk.contentType))),
+      locales: Array.from(new Set(Array.from(this.chunks.values(), (chunk) => chunk.locale).filter((locale): locale is string => !!locale))),
+      embeddings: this.embeddings?.name || null,
+    };
+  }
+
+  private async embedChunks(chunks: IndexedChunk[]): Promise<void> {
+    if (!this.embeddings) return;
+
+    for (let i = 0; i < chunks.length; i += this.embeddings.batchSize) {
+      const batch = chunks.slice(i, i + this.embeddings.batchSize);
+      try {
+        const vectors = await this.embeddings.embed(batch.map((chunk) => `${chunk.title}\n${chunk.text}`));
+        batch.forEach((chunk, j) => this.vectors.set(chunk.id, Float32Array.from(vectors[j]!)));
+      } catch (error) {
+        // These chunks stay searchable through BM25
+        console.warn(`⚠️ Embedding failed for ${batch.length} chunk(s):`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  private async embedQuery(query: string): Promise<Float32Array | null> {
+    if (!this.embeddings || this.vectors.size === 0) return null;
+
+    try {
+      const [vector] = await this.embeddings.embed([query]);
+      return vector ? Float32Array.from(vector) : null;
+    } catch (error) {
+      console.warn('⚠️ Query embedding failed, using BM25 only:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private entryKey(contentType: string, uid: string, locale?: string | null): string {
+    return `${contentType}:${uid}:${locale || ''}`;
+  }
+}
+
+export default ContentIndex;
@@ -0,0 +1,152 @@
+/**
+ * Field mapping derived from Contentstack content type schemas: which fields
+ * hold searchable text, which point at other entries and which one is the
+ * entry's URL. Stacks name these freely, so nothing can be assumed beyond the
+ * `title` every content type has.
+ */
+
+export interface FieldMapping {
+  titleField: string;
+  // Text fields a `$regex` query can match, as dot paths into groups
+  searchFields: string[];
+  referenceFields: string[];
+  urlField: string | null;
+}
+
+// Per content type overrides, stored as `contentstack_config.fieldMappings`
+export type FieldMappingOverride = Partial<FieldMapping>;
+
+export interface SchemaFieldSummary {
+  uid: string;
+  name: string;
+  type: string;
+  referenceTo?: string[];
+}
+
+export interface ContentTypeSummary {
+  uid: string;
+  title: string;
+  description: string | null;
+  fields: SchemaFieldSummary[];
+  mapping: FieldMapping;
+}
+
+// What queries fall back to when a content type's schema is not available
+export const DEFAULT_FIELD_MAPPING: FieldMapping = {
+  titleField: 'title',
+  searchFields: ['title', 'description', 'content'],
+  referenceFields: [],
+  urlField: 'url',
+};
+
+const MAX_SEARCH_FIELDS = 12;
+const MAX_GROUP_DEPTH = 2;
+const URL_FIELD_PATTERN = /(^|_)(url|slug|path|permalink)$/i;
+
+const isSelectField = (field: any): boolean => Array.isArray(field.enum?.choices) || field.display_type === 'dropdown' || field.display_type === 'radio' || field.display_type === 'checkbox';
+
+// Schema fields with their dot paths; groups and global fields are flattened
+const flattenSchema = (schema: any[], prefix = '', depth = 0): Array<{ path: string; field: any }> => {
+  const fields: Array<{ path: string; field: any }> = [];
+
+  for (const field of schema) {
+    if (!field?.uid) continue;
+
+    const path = prefix ? `${prefix}.${field.uid}` : field.uid;
+    if ((field.data_type === 'group' || field.data_type === 'global_field') && Array.isArray(field.schema)) {
+      if (depth < MAX_GROUP_DEPTH) fields.push(...flattenSchema(field.schema, path, depth + 1));
+      continue;
+    }
+    fields.push({ path, field });
+  }
+
+  return fields;
+};
+
+const toReferenceTargets = (referenceTo: unknown): string[] => {
+  if (Array.isArray(referenceTo)) return referenceTo.filter((target): target is string => typeof target === 'string');
+  return typeof referenceTo === 'string' ? [referenceTo] : [];
+};
+
+export const detectFieldMapping = (schema: any[]): FieldMapping => {
+  const fields = flattenSchema(Array.isArray(schema) ? schema : []);
+  const textFields = fields.filter(({ field }) => field.data_type === 'text' && !isSelectField(field));
+
+  const urlField =
+    textFields.find(({ path }) => path === 'url')?.path ||
+    fields.find(({ field }) => field.data_type === 'link')?.path.concat('.href') ||
+    textFields.find(({ path }) => URL_FIELD_PATTERN.test(path.split('.').pop()!))?.path ||
+    null;
+
+  const searchFields = textFields
+    .map(({ path }) => path)
+    .filter((path) => path !== urlField && !URL_FIELD_PATTERN.test(path.split('.').pop()!))
+    .slice(0, MAX_SEARCH_FIELDS);
+
+  return {
+    titleField: 'title',
+    searchFields: searchFields.length > 0 ? searchFields : ['title'],
+    referenceFields: fields.filter(({ field }) => field.data_type === 'reference').map(({ path }) => path),
+    urlField,
+  };
+};
+
+// Keeps only well-formed override values, so a bad tenant config cannot break queries
+export const applyFieldMappingOverride = (mapping: FieldMapping, override?: FieldMappingOverride | null): FieldMapping => {
+  if (!override || typeof override !== 'object') return mapping;
+
+  const paths = (value: unknown) => Array.isArray(value) ? value.filter((path): path is string => typeof path === 'string' && path.length > 0) : null;
+  const searchFields = paths(override.searchFields);
+  const referenceFields = paths(override.referenceFields);
+
+  return {
+    titleField: typeof override.titleField === 'string' && override.titleField ? override.titleField : mapping.titleField,
+    searchFields: searchFields?.length ? searchFields : mapping.searchFields,
+    referenceFields: referenceFields ?? mapping.referenceFields,
+    urlField: override.urlField === null || typeof override.urlField === 'string' ? override.urlField || null : mapping.urlField,
+  };
+};
+
+export const summarizeContentType = (contentType: any, override?: FieldMappingOverride | null): ContentTypeSummary => {
+  const schema: any[] = Array.isArray(contentType?.schema) ? contentType.schema : [];
+
+  return {
+    uid: contentType.uid,
+    title: contentType.title || contentType.uid,
+    description: contentType.description || null,
+    fields: flattenSchema(schema).map(({ path, field }) => {
+      const referenceTo = toReferenceTargets(field.reference_to);
+      return {
+        uid: path,
+        name: field.display_name || field.uid,
+        type: field.data_type,
+        ...(referenceTo.length > 0 && { referenceTo }),
+      };
+    }),
+    mapping: applyFieldMappingOverride(detectFieldMapping(schema), override),
+  };
+};
+
+// Value at a dot path of an entry, e.g. `seo.url` or `link.href`
+export const getFieldValue = (entry: Record<string, any>, path: string): unknown => {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), entry);
+};
+
+/**
+ * Public URL of an entry from a pattern such as `/products/{url}` or
+ * `/{locale}/blog/{seo.slug}`; null when a placeholder has no value
+ */
+export const applyUrlPattern = (pattern: string, entry: Record<string, any>): string | null => {
+  let complete = true;
+  const url = pattern.replace(/\{([\w.]+)\}/g, (_, path: string) => {
+    const value = getFieldValue(entry, path);
+    if ((typeof value !== 'string' && typeof value !== 'number') || value === '') {
+      complete = false;
+      return '';
+    }
+    // Stored paths usually carry their own slashes; the pattern already has them
+    return String(value).trim().replace(/^\/+|\/+$/g, '');
+  });
+
+  return complete ? url.replace(/([^:]\/)\/+/g, '$1') : null;
+};
@@ -0,0 +1,258 @@
+import axios, { AxiosInstance } from 'axios';
+import type { ContentstackEntry } from './contentstack-service.js';
+
+export interface GraphQLClientConfig {
+  apiKey: string;
+  deliveryToken: string;
+  environment: string;
+  region?: string;
+  // Full stack endpoint, e.g. for a local stand-in; derived from the region otherwise
+  endpoint?: string;
+}
+
+export interface GraphQLEntriesOptions {
+  locale?: string;
+  limit?: number;
+  skip?: number;
+  where?: Record<string, unknown>;
+  // Levels of references resolved with their own fields; deeper ones keep their identity
+  referenceDepth?: number;
+}
+
+// The query was rejected (unknown field, type or argument); the REST API can still answer
+export class GraphQLQueryError extends Error {
+  constructor(message: string, public errors: any[] = []) {
+    super(message);
+    this.name = 'GraphQLQueryError';
+  }
+}
+
+const GRAPHQL_HOSTS: Record<string, string> = {
+  us: 'graphql.contentstack.com',
+  eu: 'eu-graphql.contentstack.com',
+  'azure-na': 'azure-na-graphql.contentstack.com',
+  'azure-eu': 'azure-eu-graphql.contentstack.com',
+  'gcp-na': 'gcp-na-graphql.contentstack.com',
+};
+
+const SYSTEM_SELECTION = 'system { uid locale content_type_uid created_at updated_at tags }';
+const REFERENCE_SYSTEM_SELECTION = 'system { uid locale content_type_uid }';
+const ASSET_SELECTION = '{ url title filename content_type file_size dimension { width height } }';
+const MAX_GROUP_DEPTH = 2;
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// `blog_post` -> `BlogPost`, the name of the content type's GraphQL type
+export const toGraphQLTypeName = (contentType: string): string => {
+  return contentType
+    .split(/[_-]+/)
+    .filter(Boolean)
+    .map((part) => part[0]!.toUpperCase() + part.slice(1))
+    .join('');
+};
+
+// Argument values written inline; strings and numbers as JSON, object keys as names
+const toLiteral = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(toLiteral).join(', ')}]`;
+  if (value && typeof value === 'object') {
+    return `{ ${Object.entries(value).map(([key, child]) => `${key}: ${toLiteral(child)}`).join(', ')} }`;
+  }
+  return JSON.stringify(value);
+};
+
+const toArguments = (args: Record<string, unknown>): string => {
+  const defined = Object.entries(args).filter(([, value]) => value !== undefined);
+  return defined.length > 0 ? `(${defined.map(([key, value]) => `${key}: ${toLiteral(value)}`).join(', ')})` : '';
+};
+
+/**
+ * Selection set for the fields chat answers use: text, numbers, dates, rich
+ * text, links, assets (URL, type, size) and references. Modular blocks and
+ * other structural fields are left out to keep responses small.
+ */
+export const buildSelection = (
+  schema: any[],
+  contentTypes: Map<string, any>,
+  referenceDepth: number,
+  groupDepth = 0
+): string => {
+  const selections: string[] = [];
+
+  for (const field of schema) {
+    if (!field?.uid || !NAME.test(field.uid)) continue;
+
+    switch (field.data_type) {
+      case 'text':
+      case 'number':
+      case 'boolean':
+      case 'isodate':
+        selections.push(field.uid);
+        break;
+      case 'json':
+        selections.push(field.field_metadata?.allow_json_rte ? `${field.uid} { json }` : field.uid);
+        break;
+      case 'file':
+        selections.push(`${field.uid} ${ASSET_SELECTION}`);
+        break;
+      case 'link':
+        selections.push(`${field.uid} { title href }`);
+        break;
+      case 'group':
+      case 'global_field':
+        if (groupDepth < MAX_GROUP_DEPTH && Array.isArray(field.schema)) {
+          const inner = buildSelection(field.schema, contentTypes, referenceDepth, groupDepth + 1);
+          if (inner) selections.push(`${field.uid} { ${inner} }`);
+        }
+        break;
+      case 'reference': {
+        const targets: string[] = Array.isArray(field.reference_to) ? field.reference_to : [field.reference_to];
+        const fragments = targets
+          .filter((target) => typeof target === 'string' && contentTypes.has(target))
+          .map((target) => `... on ${toGraphQLTypeName(target)} { ${buildReferenceSelection(contentTypes.get(target), contentTypes, referenceDepth)} }`);
+        if (fragments.length > 0) selections.push(`${field.uid}Connection { edges { node { ${fragments.join(' ')} } } }`);
+        break;
+      }
+    }
+  }
+
+  return selections.join(' ');
+};
+
+// A resolved reference gets its own fields; past the depth only title, URL and identity
+const buildReferenceSelection = (contentType: any, contentTypes: Map<string, any>, referenceDepth: number): string => {
+  const schema: any[] = Array.isArray(contentType.schema) ? contentType.schema : [];
+  if (referenceDepth > 0) {
+    return `${buildSelection(schema, contentTypes, referenceDepth - 1)} ${REFERENCE_SYSTEM_SELECTION}`.trim();
+  }
+
+  const identity = ['title', 'url'].filter((uid) => schema.some((field) => field.uid === uid && field.data_type === 'text'));
+  return [...identity, REFERENCE_SYSTEM_SELECTION].join(' ');
+};
+
+const normalizeValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(normalizeValue);
+  if (!value || typeof value !== 'object') return value;
+
+  // JSON RTE comes wrapped as { json }; groups and assets are plain objects
+  const keys = Object.keys(value);
+  return keys.length === 1 && keys[0] === 'json' ? (value as any).json : normalizeFields(value as Record<string, any>);
+};
+
+const normalizeFields = (node: Record<string, any>): Record<string, any> => {
+  const fields: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'system') continue;
+
+    if (key.endsWith('Connection') && Array.isArray(value?.edges)) {
+      fields[key.slice(0, -'Connection'.length)] = value.edges
+        .map((edge: any) => edge?.node && normalizeGraphQLEntry(edge.node))
+        .filter(Boolean);
+    } else {
+      fields[key] = normalizeValue(value);
+    }
+  }
+
+  return fields;
+};
+
+/**
+ * Reshape a GraphQL node like a REST entry: system fields at the top level,
+ * `<field>Connection` edges as arrays of referenced entries, JSON RTE unwrapped
+ */
+export const normalizeGraphQLEntry = (node: Record<string, any>, contentType?: string): ContentstackEntry => {
+  const system = node.system || {};
+
+  return {
+    ...normalizeFields(node),
+    uid: system.uid,
+    _content_type_uid: system.content_type_uid || contentType,
+    ...(system.locale && { locale: system.locale }),
+    ...(system.created_at && { created_at: system.created_at }),
+    ...(system.updated_at && { updated_at: system.updated_at }),
+    ...(Array.isArray(system.tags) && { tags: system.tags }),
+  } as ContentstackEntry;
+};
+
+/**
+ * Client for the Contentstack GraphQL Content Delivery API. Queries are
+ * generated from the content type schemas, so only fields the stack has are
+ * requested and references come back resolved in the same response.
+ */
+export class ContentstackGraphQLClient {
+  private http: AxiosInstance;
+
+  constructor(config: GraphQLClientConfig, private getContentTypes: () => Promise<any[]>) {
+    const endpoint = config.endpoint || `https://${GRAPHQL_HOSTS[config.region || 'us'] || GRAPHQL_HOSTS.us}/stacks/${config.apiKey}`;
+
+    this.http = axios.create({
+      baseURL: endpoint,
+      params: { environment: config.environment },
+      headers: {
+        'access_token': config.deliveryToken,
+        'Content-Type': 'application/json',
+      },
+      timeout: 15000,
+    });
+  }
+
+  public async query<T = any>(query: string): Promise<T> {
+    try {
+      const response = await this.http.post('', { query });
+      const errors = response.data?.errors;
+      if (Array.isArray(errors) && errors.length > 0) {
+        throw new GraphQLQueryError(errors.map((error: any) => error.message).join('; '), errors);
+      }
+      return response.data.data as T;
+    } catch (error) {
+      // Invalid queries are answered with 400 and the same errors list
+      if (axios.isAxiosError(error) && error.response?.status === 400 && Array.isArray(error.response.data?.errors)) {
+        const errors = error.response.data.errors;
+        throw new GraphQLQueryError(errors.map((item: any) => item.message).join('; '), errors);
+      }
+      throw error;
+    }
+  }
+
+  public async fetchEntries(contentType: string, options: GraphQLEntriesOptions = {}): Promise<{ entries: ContentstackEntry[]; total: number }> {
+    const selection = await this.selectionFor(contentType, options.referenceDepth ?? 0);
+    const args = toArguments({
+      locale: options.locale || 'en-us',
+      fallback_locale: true,
+      limit: Math.min(options.limit ?? 10, 100),
+      skip: options.skip || undefined,
+      where: options.where,
+    });
+
+    const data = await this.query(`query { all_${contentType}${args} { total items { ${selection} } } }`);
+    const result = data?.[`all_${contentType}`];
+    return {
+      entries: (result?.items || []).map((item: any) => normalizeGraphQLEntry(item, contentType)),
+      total: result?.total ?? 0,
+    };
+  }
+
+  public async fetchEntry(contentType: string, uid: string, options: Omit<GraphQLEntriesOptions, 'limit' | 'skip' | 'where'> = {}): Promise<ContentstackEntry | null> {
+    const selection = await this.selectionFor(contentType, options.referenceDepth ?? 0);
+    const args = toArguments({ uid, locale: options.locale || 'en-us', fallback_locale: true });
+
+    const data = await this.query(`query { ${contentType}${args} { ${selection} } }`);
+    const node = data?.[contentType];
+    return node ? normalizeGraphQLEntry(node, contentType) : null;
+  }
+
+  private async selectionFor(contentType: string, referenceDepth: number): Promise<string> {
+    if (!NAME.test(contentType)) {
+      throw new GraphQLQueryError(`Content type '${contentType}' has no GraphQL name`);
+    }
+
+    const contentTypes = new Map((await this.getContentTypes()).map((candidate) => [candidate.uid, candidate]));
+    const schema = contentTypes.get(contentType)?.schema;
+    if (!Array.isArray(schema)) {
+      throw new GraphQLQueryError(`No schema for content type '${contentType}'`);
+    }
+
+    return `${buildSelection(schema, contentTypes, referenceDepth)} ${SYSTEM_SELECTION}`.trim();
+  }
+}
+
+export default ContentstackGraphQLClient;
@@ -0,0 +1,96 @@
+import { ContentstackConfig, ContentstackService } from './contentstack-service.js';
+import type { CacheService } from './cache-service.js';
+import type { TenantRecord } from './database-service.js';
+
+export interface ContentstackPoolOptions {
+  maxSize?: number;
+}
+
+interface PooledService {
+  service: ContentstackService;
+  fingerprint: string;
+}
+
+/**
+ * Hands out one ContentstackService per tenant, built from the tenant's own
+ * `contentstack_config`. Instances are reused across requests and rebuilt
+ * when the tenant's credentials change; the least recently used ones are
+ * dropped once `maxSize` is reached. Only anonymous requests (the default
+ * widget) use the stack configured in the env; a tenant without credentials
+ * of its own gets no stack at all.
+ */
+export class ContentstackServicePool {
+  private services: Map<string, PooledService> = new Map();
+  private defaultService: ContentstackService | null = null;
+  private readonly maxSize: number;
+
+  constructor(private cacheService?: CacheService, options: ContentstackPoolOptions = {}) {
+    this.maxSize = options.maxSize ?? 100;
+  }
+
+  public forTenant(tenant?: TenantRecord | null): ContentstackService | null {
+    if (!tenant) {
+      return this.getDefault();
+    }
+
+    const config = this.getTenantConfig(tenant);
+    if (!config) {
+      return null;
+    }
+
+    const fingerprint = JSON.stringify(config);
+    const pooled = this.services.get(tenant.id);
+
+    if (pooled && pooled.fingerprint === fingerprint) {
+      // Re-insert so the map stays ordered from least to most recently used
+      this.services.delete(tenant.id);
+      this.services.set(tenant.id, pooled);
+      return pooled.service;
+    }
+
+    const service = new ContentstackService(config, this.cacheService, tenant.id);
+    this.services.delete(tenant.id);
+    this.services.set(tenant.id, { service, fingerprint });
+    this.evict();
+
+    return service;
+  }
+
+  public getDefault(): ContentstackService {
+    if (!this.defaultService) {
+      this.defaultService = new ContentstackService(undefined, this.cacheService);
+    }
+    return this.defaultService;
+  }
+
+  public invalidate(tenantId: string): boolean {
+    return this.services.delete(tenantId);
+  }
+
+  public getStats(): { size: number; maxSize: number; tenants: string[] } {
+    return {
+      size: this.services.size,
+      maxSize: this.maxSize,
+      tenants: Array.from(this.services.keys()),
+    };
+  }
+
+  // A tenant stack needs at least its own API key and delivery token
+  private getTenantConfig(tenant: TenantRecord): Partial<ContentstackConfig> | null {
+    const config = tenant.contentstack_config;
+    if (!config?.apiKey || !config?.deliveryToken) {
+      return null;
+    }
+    return config;
+  }
+
+  private evict(): void {
+    while (this.services.size > this.maxSize) {
+      const oldest = this.services.keys().next().value;
+      if (oldest === undefined) break;
+      this.services.delete(oldest);
+    }
+  }
+}
+
+export default ContentstackServicePool;
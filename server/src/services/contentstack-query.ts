@@ -0,0 +1,115 @@
+import { STOPWORDS } from './bm25-index.js';
+
+/**
+ * How a search string matches entry fields:
+ * - `terms`: every word appears in some field, in any order (default)
+ * - `any`: at least one of the words appears (broad candidates for ranking)
+ * - `phrase`: the words appear together, in order
+ * - `prefix`: a field starts with the text
+ * - `exact`: a field equals the text
+ */
+export type SearchMode = 'terms' | 'any' | 'phrase' | 'prefix' | 'exact';
+
+export const SEARCH_MODES: SearchMode[] = ['terms', 'any', 'phrase', 'prefix', 'exact'];
+
+export interface SearchQueryOptions {
+  mode?: SearchMode;
+  // Longer input is cut at a word boundary
+  maxLength?: number;
+  maxTerms?: number;
+}
+
+export const MAX_SEARCH_LENGTH = 200;
+export const MAX_SEARCH_TERMS = 8;
+const MAX_TERM_LENGTH = 40;
+
+const REGEX_METACHARACTERS = /[.*+?^${}()|[\]\\/-]/g;
+
+// Escape everything a regex engine could treat as syntax
+export const escapeRegex = (text: string): string => text.replace(REGEX_METACHARACTERS, '\\$&');
+
+// Trimmed, whitespace-collapsed input within the length limit, without control characters
+export const normalizeSearchInput = (input: string, maxLength: number = MAX_SEARCH_LENGTH): string => {
+  const text = String(input ?? '')
+    .normalize('NFKC')
+    .replace(/[\p{Cc}\p{Cf}]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength);
+  const boundary = cut.lastIndexOf(' ');
+  return (boundary > maxLength / 2 ? cut.slice(0, boundary) : cut).trim();
+};
+
+const splitWords = (input: string): string[] => {
+  return normalizeSearchInput(input)
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 0)
+    .map((word) => word.slice(0, MAX_TERM_LENGTH));
+};
+
+/**
+ * Distinct search words of the input, stopwords dropped unless nothing else
+ * is left; over-long runs (hashes, base64) are cut to MAX_TERM_LENGTH
+ */
+export const tokenizeSearchQuery = (input: string, maxTerms: number = MAX_SEARCH_TERMS): string[] => {
+  const words = splitWords(input);
+  const meaningful = words.filter((word) => word.length > 1 && !STOPWORDS.has(word));
+  return Array.from(new Set(meaningful.length > 0 ? meaningful : words)).slice(0, maxTerms);
+};
+
+const anyField = (fields: string[], condition: (field: string) => Record<string, any>): Record<string, any> => {
+  return fields.length === 1 ? condition(fields[0]!) : { $or: fields.map(condition) };
+};
+
+const regexCondition = (pattern: string) => (field: string) => ({ [field]: { $regex: pattern, $options: 'i' } });
+
+/**
+ * Contentstack `query` object searching `fields` for the input, or null when
+ * nothing searchable is left after sanitizing. User text only ever reaches
+ * `$regex` escaped.
+ */
+export const buildSearchQuery = (
+  input: string,
+  fields: string[],
+  options: SearchQueryOptions = {}
+): Record<string, any> | null => {
+  const mode = options.mode ?? 'terms';
+  const text = normalizeSearchInput(input, options.maxLength ?? MAX_SEARCH_LENGTH);
+  if (!text || fields.length === 0) return null;
+
+  if (mode === 'exact') {
+    return anyField(fields, (field) => ({ [field]: text }));
+  }
+
+  if (mode === 'prefix') {
+    return anyField(fields, regexCondition(`^${escapeRegex(text)}`));
+  }
+
+  const maxTerms = options.maxTerms ?? MAX_SEARCH_TERMS;
+
+  if (mode === 'phrase') {
+    const words = splitWords(text).slice(0, maxTerms);
+    if (words.length === 0) return null;
+
+    // Words in order, with any punctuation or spacing between them
+    return anyField(fields, regexCondition(words.map(escapeRegex).join('\\W+')));
+  }
+
+  const terms = tokenizeSearchQuery(text, maxTerms);
+  if (terms.length === 0) return null;
+
+  const termClauses = terms.map((term) => anyField(fields, regexCondition(escapeRegex(term))));
+  if (mode === 'any') {
+    return { $or: [...termClauses, { tags: { $in: terms } }] };
+  }
+
+  return {
+    $or: [
+      termClauses.length === 1 ? termClauses[0] : { $and: termClauses },
+      { tags: { $in: terms } },
+    ],
+  };
+};
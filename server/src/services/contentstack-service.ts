@@ -5,6 +5,19 @@
 
 import axios, { AxiosInstance } from 'axios';
 import { CacheService } from './cache-service.js';
+import {
+  ContentTypeSummary,
+  DEFAULT_FIELD_MAPPING,
+  FieldMapping,
+  FieldMappingOverride,
+  applyFieldMappingOverride,
+  applyUrlPattern,
+  getFieldValue,
+  summarizeContentType,
+} from './content-schema.js';
+import { buildSearchQuery, SearchMode } from './contentstack-query.js';
+import { getPreferredContentTypes, rankEntries, RankedEntry } from './relevance-scorer.js';
+import { ContentstackGraphQLClient, GraphQLEntriesOptions, GraphQLQueryError } from './contentstack-graphql.js';
 
 export interface ContentstackConfig {
   apiKey: string;
@@ -14,6 +27,13 @@ export interface ContentstackConfig {
   region?: string;
   host?: string;
   cdnUrl?: string;
+  // Overrides of the field mapping detected from each content type's schema
+  fieldMappings?: Record<string, FieldMappingOverride>;
+  // Public page URL per content type, e.g. { product: '/products/{url}' }
+  urlPatterns?: Record<string, string>;
+  // `graphql` fetches entries with schema-generated GraphQL queries instead of REST
+  deliveryMode?: 'rest' | 'graphql';
+  graphqlEndpoint?: string;
 }
 
 export interface ContentstackEntry {
@@ -33,34 +53,83 @@ export interface ContentstackResponse {
   content_type_uid: string;
 }
 
+// Delivery API host per region, unless the config names one
+const DELIVERY_HOSTS: Record<string, string> = {
+  us: 'cdn.contentstack.io',
+  eu: 'eu-cdn.contentstack.com',
+  'azure-na': 'azure-na-cdn.contentstack.com',
+  'azure-eu': 'azure-eu-cdn.contentstack.com',
+  'gcp-na': 'gcp-na-cdn.contentstack.com',
+};
+
+// Management API host per region
+const MANAGEMENT_HOSTS: Record<string, string> = {
+  us: 'api.contentstack.io',
+  eu: 'eu-api.contentstack.com',
+  'azure-na': 'azure-na-api.contentstack.com',
+  'azure-eu': 'azure-eu-api.contentstack.com',
+  'gcp-na': 'gcp-na-api.contentstack.com',
+};
+
+export interface DeliveryAccess {
+  ok: boolean;
+  status: number | null;
+  error?: string;
+}
+
 export interface QueryOptions {
   limit?: number;
   skip?: number;
   include_count?: boolean;
   locale?: string;
+  // Locales tried in order when nothing is found in `locale`
+  fallbackLocales?: string[];
   include_fallback?: boolean;
   include_metadata?: boolean;
+  // How `searchQuery` is matched against the text fields (see contentstack-query.ts)
+  match?: SearchMode;
+  // Levels of reference fields to resolve with `include[]` (0 keeps UIDs only)
+  referenceDepth?: number;
 }
 
 export class ContentstackService {
   private deliveryApi: AxiosInstance;
   private managementApi?: AxiosInstance;
+  private graphql?: ContentstackGraphQLClient;
   private config: ContentstackConfig;
   private cacheService?: CacheService;
+  private cacheNamespace: string;
   private readonly CACHE_TTL = 5 * 60; // 5 minutes
+  private readonly SCHEMA_TTL = 30 * 60; // 30 minutes
+  private readonly MAX_REFERENCE_DEPTH = 3;
+  private readonly MAX_INCLUDE_PATHS = 20;
+  private contentTypeSummaries: { summaries: Promise<ContentTypeSummary[]>; expiresAt: number } | null = null;
+
+  /**
+   * `cacheNamespace` keeps cached entries of different stacks apart when
+   * several instances share one CacheService (one namespace per tenant).
+   */
+  constructor(config?: Partial<ContentstackConfig>, cacheService?: CacheService, cacheNamespace: string = 'default') {
+    // Tenant stacks get nothing from the env, which configures the default stack only
+    const env: NodeJS.ProcessEnv = config ? {} : process.env;
+    const region = config?.region || env.CONTENTSTACK_REGION || 'us';
 
-  constructor(config?: Partial<ContentstackConfig>, cacheService?: CacheService) {
     this.config = {
-      apiKey: config?.apiKey || process.env.CONTENTSTACK_API_KEY || '',
-      deliveryToken: config?.deliveryToken || process.env.CONTENTSTACK_DELIVERY_TOKEN || '',
-      managementToken: config?.managementToken || process.env.CONTENTSTACK_MANAGEMENT_TOKEN,
-      environment: config?.environment || process.env.CONTENTSTACK_ENVIRONMENT || 'production',
-      region: config?.region || process.env.CONTENTSTACK_REGION || 'us',
-      host: config?.host || process.env.CONTENTSTACK_API_HOST || 'cdn.contentstack.io',
-      cdnUrl: config?.cdnUrl || process.env.CONTENTSTACK_CDN || 'cdn.contentstack.io'
+      apiKey: config?.apiKey || env.CONTENTSTACK_API_KEY || '',
+      deliveryToken: config?.deliveryToken || env.CONTENTSTACK_DELIVERY_TOKEN || '',
+      managementToken: config?.managementToken || env.CONTENTSTACK_MANAGEMENT_TOKEN,
+      environment: config?.environment || env.CONTENTSTACK_ENVIRONMENT || 'production',
+      region,
+      host: config?.host || env.CONTENTSTACK_API_HOST || DELIVERY_HOSTS[region] || DELIVERY_HOSTS.us!,
+      cdnUrl: config?.cdnUrl || env.CONTENTSTACK_CDN || 'cdn.contentstack.io',
+      fieldMappings: config?.fieldMappings || {},
+      urlPatterns: config?.urlPatterns || {},
+      deliveryMode: config?.deliveryMode || (env.CONTENTSTACK_DELIVERY_MODE === 'graphql' ? 'graphql' : 'rest'),
+      graphqlEndpoint: config?.graphqlEndpoint || env.CONTENTSTACK_GRAPHQL_ENDPOINT
     };
 
     this.cacheService = cacheService;
+    this.cacheNamespace = cacheNamespace;
 
     // Initialize delivery API client
     this.deliveryApi = axios.create({
@@ -73,10 +142,21 @@ export class ContentstackService {
       timeout: 10000,
     });
 
+    // GraphQL delivery shares the REST client for schemas and searches
+    if (this.config.deliveryMode === 'graphql') {
+      this.graphql = new ContentstackGraphQLClient({
+        apiKey: this.config.apiKey,
+        deliveryToken: this.config.deliveryToken,
+        environment: this.config.environment,
+        ...(this.config.region && { region: this.config.region }),
+        ...(this.config.graphqlEndpoint && { endpoint: this.config.graphqlEndpoint }),
+      }, () => this.getContentTypes());
+    }
+
     // Initialize management API client if token is provided
     if (this.config.managementToken) {
       this.managementApi = axios.create({
-        baseURL: `https://api.contentstack.io/v3`,
+        baseURL: `https://${MANAGEMENT_HOSTS[this.config.region || 'us'] || MANAGEMENT_HOSTS.us}/v3`,
         headers: {
           'api_key': this.config.apiKey,
           'authorization': this.config.managementToken,
@@ -86,7 +166,7 @@ export class ContentstackService {
       });
     }
 
-    console.log(`✅ ContentstackService initialized for environment: ${this.config.environment}`);
+    console.log(`✅ ContentstackService initialized for environment: ${this.config.environment}${this.graphql ? ' (GraphQL delivery)' : ''}`);
   }
 
   /**
@@ -98,8 +178,17 @@ export class ContentstackService {
     limit: number = 10,
     options?: QueryOptions
   ): Promise<ContentstackEntry[]> {
+    if (options?.fallbackLocales?.length) {
+      const { fallbackLocales, ...rest } = options;
+      for (const locale of [rest.locale || 'en-us', ...fallbackLocales]) {
+        const entries = await this.queryContent(contentType, searchQuery, limit, { ...rest, locale });
+        if (entries.length > 0) return entries;
+      }
+      return [];
+    }
+
     try {
-      const cacheKey = `contentstack:${contentType}:${searchQuery || 'all'}:${limit}:${JSON.stringify(options)}`;
+      const cacheKey = this.cacheKey(contentType, searchQuery || 'all', limit, JSON.stringify(options));
       
       // Try cache first
       if (this.cacheService) {
@@ -120,29 +209,28 @@ export class ContentstackService {
         locale: options?.locale || 'en-us',
         include_fallback: options?.include_fallback ?? true,
         include_metadata: options?.include_metadata ?? false,
+        include_dimension: true,
       };
 
       if (options?.skip) params.skip = options.skip;
 
+      const mapping = await this.getFieldMapping(contentType);
+      const includes = await this.getReferencePaths(contentType, options?.referenceDepth ?? 0);
+      if (includes.length > 0) params.include = includes;
+
       // Add search query if provided
       if (searchQuery && searchQuery.trim()) {
-        // Search in title and other text fields
-        params.query = JSON.stringify({
-          $or: [
-            { title: { $regex: searchQuery, $options: 'i' } },
-            { description: { $regex: searchQuery, $options: 'i' } },
-            { content: { $regex: searchQuery, $options: 'i' } },
-            { tags: { $in: [searchQuery.toLowerCase()] } }
-          ]
-        });
+        // Search in the text fields of this content type's schema
+        const query = buildSearchQuery(searchQuery, mapping.searchFields, { mode: options?.match ?? 'terms' });
+        if (!query) {
+          console.warn(`⚠️  Nothing searchable left in query for ${contentType}: ${JSON.stringify(searchQuery.slice(0, 100))}`);
+          return [];
+        }
+        params.query = JSON.stringify(query);
       }
 
-      const response = await this.deliveryApi.get(
-        `/content_types/${contentType}/entries`,
-        { params }
-      );
-
-      const entries = response.data.entries || [];
+      const { entries: found } = await this.fetchEntries(contentType, params, options?.referenceDepth ?? 0);
+      const entries = found.map((entry) => this.applyFieldMapping(entry, contentType, mapping));
       console.log(`✅ Found ${entries.length} entries for ${contentType}`);
 
       // Cache the results
@@ -177,8 +265,19 @@ export class ContentstackService {
     uid: string,
     options?: QueryOptions
   ): Promise<ContentstackEntry | null> {
+    if (options?.fallbackLocales?.length) {
+      const { fallbackLocales, ...rest } = options;
+      for (const locale of [rest.locale || 'en-us', ...fallbackLocales]) {
+        const entry = await this.getEntry(contentType, uid, { ...rest, locale });
+        if (entry) return entry;
+      }
+      return null;
+    }
+
     try {
-      const cacheKey = `contentstack:entry:${contentType}:${uid}`;
+      const locale = options?.locale || 'en-us';
+      const referenceDepth = options?.referenceDepth ?? 0;
+      const cacheKey = this.cacheKey('entry', contentType, uid, locale, referenceDepth);
       
       if (this.cacheService) {
         const cached = await this.cacheService.get(cacheKey);
@@ -189,17 +288,19 @@ export class ContentstackService {
 
       const params: any = {
         environment: this.config.environment,
-        locale: options?.locale || 'en-us',
+        locale,
         include_fallback: options?.include_fallback ?? true,
+        include_dimension: true,
       };
 
-      const response = await this.deliveryApi.get(
-        `/content_types/${contentType}/entries/${uid}`,
-        { params }
-      );
+      const includes = await this.getReferencePaths(contentType, referenceDepth);
+      if (includes.length > 0) params.include = includes;
+
+      const found = await this.fetchEntry(contentType, uid, params, referenceDepth);
+      const entry = found
+        ? this.applyFieldMapping(found, contentType, await this.getFieldMapping(contentType))
+        : null;
 
-      const entry = response.data.entry;
-      
       if (this.cacheService && entry) {
         await this.cacheService.set(cacheKey, JSON.stringify(entry), this.CACHE_TTL);
       }
@@ -216,46 +317,136 @@ export class ContentstackService {
   }
 
   /**
-   * Search across multiple content types
+   * Fetch every published entry of a content type, page by page (uncached;
+   * used to build the search index)
+   */
+  public async getAllEntries(
+    contentType: string,
+    options: { locale?: string; pageSize?: number; maxEntries?: number } = {}
+  ): Promise<ContentstackEntry[]> {
+    const pageSize = Math.min(options.pageSize ?? 100, 100);
+    const maxEntries = options.maxEntries ?? 2000;
+    const entries: ContentstackEntry[] = [];
+
+    try {
+      const mapping = await this.getFieldMapping(contentType);
+
+      while (entries.length < maxEntries) {
+        const { entries: page, count } = await this.fetchEntries(contentType, {
+          environment: this.config.environment,
+          locale: options.locale || 'en-us',
+          include_fallback: true,
+          include_count: true,
+          limit: Math.min(pageSize, maxEntries - entries.length),
+          skip: entries.length,
+        }, 0);
+
+        entries.push(...page.map((entry) => this.applyFieldMapping(entry, contentType, mapping)));
+
+        if (page.length === 0 || entries.length >= count) break;
+      }
+
+      return entries;
+
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        console.warn(`⚠️  Content type '${contentType}' not found`);
+        return [];
+      }
+      console.error(`❌ Error fetching entries of ${contentType}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Search across multiple content types (by default the stack's own, up to
+   * ten of them) and merge the results into one ranked list
    */
   public async globalSearch(
     searchQuery: string,
-    contentTypes: string[] = ['product', 'article', 'page', 'faq'],
-    limit: number = 5
-  ): Promise<{ contentType: string; entries: ContentstackEntry[] }[]> {
-    const results = await Promise.allSettled(
-      contentTypes.map(async (contentType) => {
-        const entries = await this.queryContent(contentType, searchQuery, limit);
-        return { contentType, entries };
-      })
-    );
-
-    return results
-      .filter((result): result is PromiseFulfilledResult<{ contentType: string; entries: ContentstackEntry[] }> => 
-        result.status === 'fulfilled')
-      .map(result => result.value)
-      .filter(result => result.entries.length > 0);
+    contentTypes?: string[],
+    limit: number = 5,
+    websiteContext?: any,
+    options?: Pick<QueryOptions, 'locale' | 'fallbackLocales'>
+  ): Promise<RankedEntry[]> {
+    const searched = contentTypes?.length ? contentTypes : await this.getDefaultSearchTypes();
+    const results = await this.searchContentTypes(searchQuery, searched, limit, options);
+
+    return rankEntries(results, {
+      query: searchQuery,
+      businessType: websiteContext?.businessType,
+      searchFields: await this.getSearchFields(searched),
+    });
   }
 
   /**
-   * Get all content types
+   * Get all content types, with their schemas
    */
   public async getContentTypes(): Promise<any[]> {
     try {
+      const cacheKey = this.cacheKey('content_types');
+
+      if (this.cacheService) {
+        const cached = await this.cacheService.get(cacheKey);
+        if (cached) {
+          return JSON.parse(cached);
+        }
+      }
+
       const response = await this.deliveryApi.get('/content_types', {
         params: { 
           environment: this.config.environment,
-          include_count: true 
+          include_count: true,
+          include_global_field_schema: true
         }
       });
 
-      return response.data.content_types || [];
+      const contentTypes = response.data.content_types || [];
+
+      if (this.cacheService && contentTypes.length > 0) {
+        await this.cacheService.set(cacheKey, JSON.stringify(contentTypes), this.SCHEMA_TTL);
+      }
+
+      return contentTypes;
     } catch (error) {
       console.error('❌ Error fetching content types:', error);
       return [];
     }
   }
 
+  /**
+   * Content types of the stack with their fields and detected field mapping;
+   * kept in memory so tool schemas can be built for every chat request
+   */
+  public async getContentTypeSummaries(): Promise<ContentTypeSummary[]> {
+    if (this.contentTypeSummaries && this.contentTypeSummaries.expiresAt > Date.now()) {
+      return this.contentTypeSummaries.summaries;
+    }
+
+    const summaries = this.getContentTypes().then((contentTypes) =>
+      contentTypes
+        .filter((contentType) => typeof contentType?.uid === 'string')
+        .map((contentType) => summarizeContentType(contentType, this.config.fieldMappings?.[contentType.uid]))
+    );
+
+    // A failed fetch is retried after a minute rather than after the full TTL
+    this.contentTypeSummaries = { summaries, expiresAt: Date.now() + this.SCHEMA_TTL * 1000 };
+    const resolved = await summaries;
+    if (resolved.length === 0 && this.contentTypeSummaries?.summaries === summaries) {
+      this.contentTypeSummaries.expiresAt = Date.now() + 60 * 1000;
+    }
+    return resolved;
+  }
+
+  /**
+   * Field mapping of a content type; content types missing from the schema
+   * list fall back to the common title/description/content fields
+   */
+  public async getFieldMapping(contentType: string): Promise<FieldMapping> {
+    const summary = (await this.getContentTypeSummaries()).find((candidate) => candidate.uid === contentType);
+    return summary?.mapping || applyFieldMappingOverride(DEFAULT_FIELD_MAPPING, this.config.fieldMappings?.[contentType]);
+  }
+
   /**
    * Health check for Contentstack connectivity
    */
@@ -285,44 +476,27 @@ export class ContentstackService {
   }
 
   /**
-   * Smart content recommendation based on user query
+   * Recommend entries for a user query: entries matching any of its keywords
+   * in the content types that suit the query and the site's business type,
+   * ranked by relevance (see relevance-scorer.ts)
    */
   public async recommendContent(
     userQuery: string,
-    userContext?: any
-  ): Promise<ContentstackEntry[]> {
+    userContext?: any,
+    limit: number = 5,
+    options?: Pick<QueryOptions, 'locale' | 'fallbackLocales'>
+  ): Promise<RankedEntry[]> {
     try {
-      // Extract keywords from user query
-      const keywords = this.extractKeywords(userQuery);
-      
-      // Search across different content types with different strategies
-      const searchPromises = [
-        // Direct search in products if query seems product-related
-        this.isProductQuery(userQuery) ? 
-          this.queryContent('product', userQuery, 3) : Promise.resolve([]),
-        
-        // Search in FAQs if query is a question
-        this.isQuestionQuery(userQuery) ? 
-          this.queryContent('faq', userQuery, 3) : Promise.resolve([]),
-        
-        // Search in articles/help docs
-        this.queryContent('article', userQuery, 2),
-        
-        // Search in general pages
-        this.queryContent('page', userQuery, 2)
-      ];
-
-      const results = await Promise.allSettled(searchPromises);
-      
-      const allEntries = results
-        .filter((result): result is PromiseFulfilledResult<ContentstackEntry[]> => 
-          result.status === 'fulfilled')
-        .flatMap(result => result.value);
+      const contentTypes = await this.getRecommendationTypes(userQuery, userContext?.businessType);
+      const results = await this.searchContentTypes(userQuery, contentTypes, 5, { ...options, match: 'any' });
 
-      // Remove duplicates and sort by relevance
-      const uniqueEntries = this.deduplicateEntries(allEntries);
-      
-      return uniqueEntries.slice(0, 5); // Return top 5 most relevant
+      const ranked = rankEntries(results, {
+        query: userQuery,
+        businessType: userContext?.businessType,
+        searchFields: await this.getSearchFields(contentTypes),
+      });
+
+      return ranked.slice(0, limit);
 
     } catch (error) {
       console.error('❌ Content recommendation error:', error);
@@ -330,12 +504,234 @@ export class ContentstackService {
     }
   }
 
-  private extractKeywords(query: string): string[] {
-    return query
-      .toLowerCase()
-      .split(/\s+/)
-      .filter(word => word.length > 2)
-      .filter(word => !['the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for'].includes(word));
+  /**
+   * Drop the cached entry (all locales) and every cached query of its content
+   * type, since any of them may include the changed entry
+   */
+  public async invalidateEntry(contentType: string, uid: string): Promise<number> {
+    if (!this.cacheService) return 0;
+
+    const [entry, queries] = await Promise.all([
+      this.cacheService.deleteByPattern(`${this.cachePattern('entry', contentType, uid)}:*`),
+      this.cacheService.deleteByPattern(`${this.cachePattern(contentType)}:*`),
+    ]);
+    return entry + queries;
+  }
+
+  /**
+   * Drop everything cached for a content type, e.g. after its schema changed
+   */
+  public async invalidateContentType(contentType: string): Promise<number> {
+    this.contentTypeSummaries = null;
+    if (!this.cacheService) return 0;
+
+    const [entries, queries, schemas] = await Promise.all([
+      this.cacheService.deleteByPattern(`${this.cachePattern('entry', contentType)}:*`),
+      this.cacheService.deleteByPattern(`${this.cachePattern(contentType)}:*`),
+      this.cacheService.del(this.cacheKey('content_types')),
+    ]);
+    return entries + queries + schemas;
+  }
+
+  private cacheKey(...parts: Array<string | number>): string {
+    return ['contentstack', this.cacheNamespace, ...parts].join(':');
+  }
+
+  // Key prefix as a Redis glob, with glob characters in the parts escaped
+  private cachePattern(...parts: string[]): string {
+    return this.cacheKey(...parts).replace(/[*?[\]\\]/g, '\\$&');
+  }
+
+  /**
+   * One page of entries with its total count, over REST or in GraphQL mode
+   * over GraphQL. Queries the GraphQL API rejects are answered over REST.
+   */
+  private async fetchEntries(
+    contentType: string,
+    params: Record<string, any>,
+    referenceDepth: number
+  ): Promise<{ entries: ContentstackEntry[]; count: number }> {
+    if (this.graphql) {
+      try {
+        return await this.fetchEntriesGraphQL(this.graphql, contentType, params, referenceDepth);
+      } catch (error) {
+        if (!(error instanceof GraphQLQueryError)) throw error;
+        console.warn(`⚠️  GraphQL query for ${contentType} rejected, using REST: ${error.message}`);
+      }
+    }
+
+    const response = await this.deliveryApi.get(`/content_types/${contentType}/entries`, { params });
+    return { entries: response.data.entries || [], count: response.data.count ?? 0 };
+  }
+
+  /**
+   * GraphQL has no regex operator, so a search first finds the matching UIDs
+   * over REST (UIDs only, no references) and then fetches those entries
+   */
+  private async fetchEntriesGraphQL(
+    client: ContentstackGraphQLClient,
+    contentType: string,
+    params: Record<string, any>,
+    referenceDepth: number
+  ): Promise<{ entries: ContentstackEntry[]; count: number }> {
+    const options: GraphQLEntriesOptions = { locale: params.locale, limit: params.limit, referenceDepth };
+
+    if (!params.query) {
+      const { entries, total } = await client.fetchEntries(contentType, { ...options, ...(params.skip && { skip: params.skip }) });
+      return { entries, count: total };
+    }
+
+    const { include, ...searchParams } = params;
+    const response = await this.deliveryApi.get(`/content_types/${contentType}/entries`, {
+      params: { ...searchParams, 'only[BASE][]': 'uid' },
+    });
+    const uids: string[] = (response.data.entries || []).map((entry: ContentstackEntry) => entry.uid);
+    if (uids.length === 0) return { entries: [], count: response.data.count ?? 0 };
+
+    const { entries } = await client.fetchEntries(contentType, { ...options, where: { uid_in: uids } });
+    entries.sort((a, b) => uids.indexOf(a.uid) - uids.indexOf(b.uid));
+    return { entries, count: response.data.count ?? entries.length };
+  }
+
+  private async fetchEntry(
+    contentType: string,
+    uid: string,
+    params: Record<string, any>,
+    referenceDepth: number
+  ): Promise<ContentstackEntry | null> {
+    if (this.graphql) {
+      try {
+        return await this.graphql.fetchEntry(contentType, uid, { locale: params.locale, referenceDepth });
+      } catch (error) {
+        if (!(error instanceof GraphQLQueryError)) throw error;
+        console.warn(`⚠️  GraphQL query for ${contentType}/${uid} rejected, using REST: ${error.message}`);
+      }
+    }
+
+    const response = await this.deliveryApi.get(`/content_types/${contentType}/entries/${uid}`, { params });
+    return response.data.entry || null;
+  }
+
+  /**
+   * Fill in `title` and `url` from the fields the mapping points at, then
+   * turn `url` into the public page URL where the content type has a pattern.
+   * Resolved references one level down get their page URLs as well.
+   */
+  private applyFieldMapping(entry: ContentstackEntry, contentType: string, mapping: FieldMapping): ContentstackEntry {
+    const title = mapping.titleField !== 'title' ? getFieldValue(entry, mapping.titleField) : undefined;
+    const mappedUrl = !entry.url && mapping.urlField ? getFieldValue(entry, mapping.urlField) : undefined;
+
+    const mapped: ContentstackEntry = {
+      ...entry,
+      ...(typeof title === 'string' && title && { title }),
+      ...(typeof mappedUrl === 'string' && mappedUrl && { url: mappedUrl }),
+    };
+    const url = this.resolvePageUrl(mapped, contentType);
+    if (url) mapped.url = url;
+
+    for (const field of mapping.referenceFields) {
+      const references = mapped[field];
+      if (!Array.isArray(references)) continue;
+
+      mapped[field] = references.map((reference: any) => {
+        if (!reference?._content_type_uid || Object.keys(reference).length <= 2) return reference;
+        const referenceUrl = this.resolvePageUrl(reference, reference._content_type_uid);
+        return referenceUrl ? { ...reference, url: referenceUrl } : reference;
+      });
+    }
+
+    return mapped;
+  }
+
+  // Absolute URLs stored in the entry are already public and win over a pattern
+  private resolvePageUrl(entry: Record<string, any>, contentType: string): string | null {
+    const pattern = this.config.urlPatterns?.[contentType];
+    if (!pattern || (typeof entry.url === 'string' && /^https?:\/\//i.test(entry.url))) {
+      return typeof entry.url === 'string' && entry.url ? entry.url : null;
+    }
+    return applyUrlPattern(pattern, entry) ?? (typeof entry.url === 'string' && entry.url ? entry.url : null);
+  }
+
+  /**
+   * `include[]` paths resolving the content type's references `depth` levels
+   * deep, following each reference field to the content types it points at
+   */
+  private async getReferencePaths(contentType: string, depth: number): Promise<string[]> {
+    const levels = Math.min(Math.max(0, Math.floor(depth)), this.MAX_REFERENCE_DEPTH);
+    if (levels === 0) return [];
+
+    const summaries = await this.getContentTypeSummaries();
+    const paths = new Set<string>();
+
+    const walk = async (uid: string, prefix: string, level: number): Promise<void> => {
+      const summary = summaries.find((candidate) => candidate.uid === uid);
+      const mapping = summary?.mapping || await this.getFieldMapping(uid);
+
+      for (const field of mapping.referenceFields) {
+        const path = prefix ? `${prefix}.${field}` : field;
+        paths.add(path);
+        if (level >= levels) continue;
+
+        const targets = summary?.fields.find((candidate) => candidate.uid === field)?.referenceTo || [];
+        for (const target of targets) await walk(target, path, level + 1);
+      }
+    };
+
+    await walk(contentType, '', 1);
+    return Array.from(paths).slice(0, this.MAX_INCLUDE_PATHS);
+  }
+
+  private async getDefaultSearchTypes(): Promise<string[]> {
+    const summaries = await this.getContentTypeSummaries();
+    return summaries.length > 0
+      ? summaries.slice(0, 10).map((summary) => summary.uid)
+      : ['product', 'article', 'page', 'faq'];
+  }
+
+  // Query each content type; types that fail are left out of the results
+  private async searchContentTypes(
+    searchQuery: string,
+    contentTypes: string[],
+    limit: number,
+    options?: QueryOptions
+  ): Promise<Array<{ contentType: string; entries: ContentstackEntry[] }>> {
+    const results = await Promise.allSettled(
+      contentTypes.map(async (contentType) => {
+        const entries = await this.queryContent(contentType, searchQuery, limit, options);
+        return { contentType, entries };
+      })
+    );
+
+    return results
+      .filter((result): result is PromiseFulfilledResult<{ contentType: string; entries: ContentstackEntry[] }> =>
+        result.status === 'fulfilled')
+      .map(result => result.value)
+      .filter(result => result.entries.length > 0);
+  }
+
+  private async getSearchFields(contentTypes: string[]): Promise<Record<string, string[]>> {
+    const mappings = await Promise.all(contentTypes.map((contentType) => this.getFieldMapping(contentType)));
+    return Object.fromEntries(contentTypes.map((contentType, i) => [contentType, mappings[i]!.searchFields]));
+  }
+
+  /**
+   * Content types to search for a recommendation, best first: products for
+   * buying intent, FAQs for questions, then the business type's preferred
+   * types. Only types the stack has are kept; a stack with none of them
+   * falls back to its own first types.
+   */
+  private async getRecommendationTypes(query: string, businessType?: string | null): Promise<string[]> {
+    const candidates = Array.from(new Set([
+      ...(this.isProductQuery(query) ? ['product'] : []),
+      ...(this.isQuestionQuery(query) ? ['faq'] : []),
+      ...getPreferredContentTypes(businessType),
+    ]));
+
+    const available = (await this.getContentTypeSummaries()).map((summary) => summary.uid);
+    if (available.length === 0) return candidates.slice(0, 5);
+
+    const existing = candidates.filter((contentType) => available.includes(contentType));
+    return (existing.length > 0 ? existing : available).slice(0, 5);
   }
 
   private isProductQuery(query: string): boolean {
@@ -353,14 +749,79 @@ export class ContentstackService {
     );
   }
 
-  private deduplicateEntries(entries: ContentstackEntry[]): ContentstackEntry[] {
-    const seen = new Set();
-    return entries.filter(entry => {
-      const key = `${entry.uid}`;
-      if (seen.has(key)) return false;
-      seen.add(key);
-      return true;
+  public hasManagementAccess(): boolean {
+    return !!this.managementApi;
+  }
+
+  /**
+   * Stack details from the Management API, e.g. its name and master locale
+   */
+  public async getStack(): Promise<any> {
+    const response = await this.getManagementApi().get('/stacks');
+    return response.data.stack || null;
+  }
+
+  public async getEnvironments(): Promise<any[]> {
+    const response = await this.getManagementApi().get('/environments');
+    return response.data.environments || [];
+  }
+
+  public async getLocales(): Promise<any[]> {
+    const response = await this.getManagementApi().get('/locales');
+    return response.data.locales || [];
+  }
+
+  /**
+   * Every content type of the stack, including ones with nothing published
+   * yet (which the Delivery API does not list)
+   */
+  public async getStackContentTypes(): Promise<any[]> {
+    const response = await this.getManagementApi().get('/content_types', {
+      params: { include_global_field_schema: true, include_count: true },
     });
+    return response.data.content_types || [];
+  }
+
+  /**
+   * A few entries of a content type as stored (drafts included) and how many
+   * there are
+   */
+  public async getSampleEntries(contentType: string, limit: number = 3): Promise<{ entries: ContentstackEntry[]; count: number }> {
+    const response = await this.getManagementApi().get(`/content_types/${encodeURIComponent(contentType)}/entries`, {
+      params: { limit, include_count: true },
+    });
+    return { entries: response.data.entries || [], count: response.data.count ?? 0 };
+  }
+
+  /**
+   * Number of entries the delivery token sees in the configured environment
+   */
+  public async countPublishedEntries(contentType: string): Promise<number> {
+    const response = await this.deliveryApi.get(`/content_types/${encodeURIComponent(contentType)}/entries`, {
+      params: { environment: this.config.environment, limit: 1, include_count: true, 'only[BASE][]': 'uid' },
+    });
+    return response.data.count ?? 0;
+  }
+
+  /**
+   * Whether the delivery token can read the configured environment
+   */
+  public async checkDeliveryAccess(): Promise<DeliveryAccess> {
+    try {
+      const response = await this.deliveryApi.get('/content_types', {
+        params: { environment: this.config.environment, limit: 1 },
+      });
+      return { ok: true, status: response.status };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          ok: false,
+          status: error.response?.status ?? null,
+          error: error.response?.data?.error_message || error.message,
+        };
+      }
+      return { ok: false, status: null, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
   }
 
   /**
@@ -372,9 +833,26 @@ export class ContentstackService {
       environment: this.config.environment,
       region: this.config.region,
       host: this.config.host,
-      cdnUrl: this.config.cdnUrl
+      cdnUrl: this.config.cdnUrl,
+      deliveryMode: this.config.deliveryMode
     };
   }
+
+  public getCacheNamespace(): string {
+    return this.cacheNamespace;
+  }
+
+  // Whether a stack API key (e.g. of a webhook payload) is this service's stack
+  public isStack(apiKey: unknown): boolean {
+    return !!this.config.apiKey && apiKey === this.config.apiKey;
+  }
+
+  private getManagementApi(): AxiosInstance {
+    if (!this.managementApi) {
+      throw new Error('Contentstack management token is not configured');
+    }
+    return this.managementApi;
+  }
 }
 
 export default ContentstackService;
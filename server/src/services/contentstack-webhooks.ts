@@ -0,0 +1,265 @@
+import axios from 'axios';
+import { createHash, createSign, createVerify, KeyObject, timingSafeEqual } from 'crypto';
+import type { ContentstackServicePool } from './contentstack-pool.js';
+import type { ContentstackEntry } from './contentstack-service.js';
+import type { TenantRecord } from './database-service.js';
+import type { RetrievalService } from './retrieval-service.js';
+
+// Base64 RSA-SHA256 signature of the raw body, made with Contentstack's signing key
+export const WEBHOOK_SIGNATURE_HEADER = 'x-contentstack-request-signature';
+
+/**
+ * How a stack's webhooks are authenticated. `signature` checks Contentstack's
+ * request signature against its published key; stacks that cannot rely on it
+ * fall back to the webhook's basic auth credentials (`user:password`) or a
+ * custom header carrying a shared secret.
+ */
+export type WebhookAuth =
+  | { mode: 'signature'; region: string }
+  | { mode: 'basic'; credentials: string }
+  | { mode: 'header'; header: string; secret: string };
+
+export interface WebhookAuthSettings {
+  mode?: string | undefined;
+  secret?: string | undefined;
+  header?: string | undefined;
+}
+
+// What the receiver needs of an incoming request
+export interface WebhookRequestParts {
+  rawBody: Buffer;
+  header: (name: string) => string | undefined;
+}
+
+// Hosts publishing Contentstack's webhook signing key, per region
+const SIGNING_KEY_HOSTS: Record<string, string> = {
+  us: 'app.contentstack.com',
+  eu: 'eu-app.contentstack.com',
+  'azure-na': 'azure-na-app.contentstack.com',
+  'azure-eu': 'azure-eu-app.contentstack.com',
+  'gcp-na': 'gcp-na-app.contentstack.com',
+};
+
+const SIGNING_KEY_TTL_MS = 60 * 60 * 1000;
+
+export type WebhookAction = 'upsert' | 'remove' | 'content_type_changed';
+
+// The parts of a Contentstack webhook payload the receiver acts on
+export interface WebhookEvent {
+  module: string;
+  event: string;
+  action: WebhookAction | null;
+  contentType: string | null;
+  uid: string | null;
+  locale: string | null;
+  environment: string | null;
+  entry: ContentstackEntry | null;
+}
+
+export interface WebhookResult {
+  action: WebhookAction | null;
+  ignored?: string;
+  contentType: string | null;
+  uid: string | null;
+  cacheKeysDeleted: number;
+  indexUpdated: boolean;
+}
+
+const ENTRY_ACTIONS: Record<string, WebhookAction> = {
+  publish: 'upsert',
+  unpublish: 'remove',
+  delete: 'remove',
+};
+
+const CONTENT_TYPE_EVENTS = ['create', 'update', 'delete'];
+
+/**
+ * Contentstack's public signing keys, fetched from
+ * `https://<region host>/.well-known/public-keys.json` and kept for an hour.
+ * CONTENTSTACK_WEBHOOK_PUBLIC_KEY (PEM) replaces them, e.g. to replay signed
+ * fixtures against a local server.
+ */
+export class ContentstackSigningKeys {
+  private keys: Map<string, { key: Promise<string>; expiresAt: number }> = new Map();
+
+  constructor(
+    private fetchKeys: (url: string) => Promise<Record<string, string>> = async (url) => (await axios.get(url, { timeout: 5000 })).data
+  ) {}
+
+  public get(region: string): Promise<string> {
+    const configured = process.env.CONTENTSTACK_WEBHOOK_PUBLIC_KEY;
+    if (configured) return Promise.resolve(configured.replace(/\\n/g, '\n'));
+
+    const cached = this.keys.get(region);
+    if (cached && cached.expiresAt > Date.now()) return cached.key;
+
+    const url = `https://${SIGNING_KEY_HOSTS[region] || SIGNING_KEY_HOSTS.us}/.well-known/public-keys.json`;
+    const key = this.fetchKeys(url).then((keys) => {
+      const signingKey = keys?.['signing-key'];
+      if (typeof signingKey !== 'string' || !signingKey) {
+        throw new Error(`No signing key published at ${url}`);
+      }
+      return signingKey;
+    });
+
+    // A failed fetch is retried by the next webhook rather than cached
+    key.catch(() => this.keys.delete(region));
+    this.keys.set(region, { key, expiresAt: Date.now() + SIGNING_KEY_TTL_MS });
+    return key;
+  }
+}
+
+// Base64 RSA-SHA256 signature of the raw body, as Contentstack sends it
+export const signWebhookPayload = (rawBody: Buffer | string, privateKey: string | KeyObject): string => {
+  return createSign('sha256').update(rawBody).sign(privateKey, 'base64');
+};
+
+export const verifyWebhookSignature = (rawBody: Buffer | string, signature: string | undefined, publicKey: string | KeyObject): boolean => {
+  if (!signature) return false;
+
+  try {
+    return createVerify('sha256').update(rawBody).verify(publicKey, signature.trim(), 'base64');
+  } catch {
+    return false;
+  }
+};
+
+// Hashed first so neither the length nor the content leaks through timing
+const secretsMatch = (received: string | undefined, expected: string): boolean => {
+  if (received === undefined) return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(received), digest(expected));
+};
+
+// Null when the fallback a stack chose is missing its secret
+export const resolveWebhookAuth = (settings: WebhookAuthSettings, region: string): WebhookAuth | null => {
+  switch (settings.mode || 'signature') {
+    case 'signature':
+      return { mode: 'signature', region };
+    case 'basic':
+      return settings.secret ? { mode: 'basic', credentials: settings.secret } : null;
+    case 'header':
+      return settings.secret && settings.header ? { mode: 'header', header: settings.header.toLowerCase(), secret: settings.secret } : null;
+    default:
+      return null;
+  }
+};
+
+export const authenticateWebhook = async (
+  auth: WebhookAuth,
+  request: WebhookRequestParts,
+  signingKeys: ContentstackSigningKeys
+): Promise<boolean> => {
+  switch (auth.mode) {
+    case 'signature':
+      return verifyWebhookSignature(request.rawBody, request.header(WEBHOOK_SIGNATURE_HEADER), await signingKeys.get(auth.region));
+    case 'basic':
+      return secretsMatch(request.header('authorization'), `Basic ${Buffer.from(auth.credentials).toString('base64')}`);
+    case 'header':
+      return secretsMatch(request.header(auth.header), auth.secret);
+  }
+};
+
+export const parseWebhookEvent = (payload: any): WebhookEvent => {
+  const module = String(payload?.module || '');
+  const event = String(payload?.event || '');
+  const data = payload?.data || {};
+
+  const contentType = data.content_type?.uid || data.content_type_uid || data.entry?._content_type_uid || null;
+  const entry = data.entry && typeof data.entry.uid === 'string' ? data.entry as ContentstackEntry : null;
+
+  let action: WebhookAction | null = null;
+  if (module === 'entry') {
+    action = ENTRY_ACTIONS[event] || null;
+  } else if (module === 'content_type' && CONTENT_TYPE_EVENTS.includes(event)) {
+    action = 'content_type_changed';
+  }
+
+  return {
+    module,
+    event,
+    action,
+    contentType,
+    uid: entry?.uid || null,
+    locale: data.locale || entry?.locale || null,
+    environment: data.environment?.name || data.environment || null,
+    entry,
+  };
+};
+
+/**
+ * Applies Contentstack publish events: drops the affected cache keys of the
+ * tenant's stack and updates its search index, so answers reflect a publish
+ * right away instead of after the cache TTL.
+ */
+export class ContentstackWebhookHandler {
+  constructor(private pool: ContentstackServicePool, private retrieval?: RetrievalService) {}
+
+  public async handle(tenant: TenantRecord | null, event: WebhookEvent): Promise<WebhookResult> {
+    const contentstack = this.pool.forTenant(tenant);
+    const result: WebhookResult = {
+      action: event.action,
+      contentType: event.contentType,
+      uid: event.uid,
+      cacheKeysDeleted: 0,
+      indexUpdated: false,
+    };
+
+    if (!contentstack) {
+      return { ...result, ignored: 'Tenant has no stack configured' };
+    }
+    if (!event.action) {
+      return { ...result, ignored: `Unhandled event ${event.module}.${event.event}` };
+    }
+    if (!event.contentType) {
+      return { ...result, ignored: 'Payload has no content type' };
+    }
+
+    // Publishing to another environment does not change what the widget sees
+    const environment = contentstack.getConfig().environment;
+    if (event.action !== 'content_type_changed' && event.environment && event.environment !== environment) {
+      return { ...result, ignored: `Environment ${event.environment} is not served (${environment})` };
+    }
+
+    if (event.action === 'content_type_changed') {
+      result.cacheKeysDeleted = await contentstack.invalidateContentType(event.contentType);
+
+      // Field changes can affect every entry, so the whole index is rebuilt
+      if (this.retrieval?.isIndexed(tenant, event.contentType)) {
+        this.retrieval.ingest(tenant).catch(() => undefined); // Logged by the retrieval service
+        result.indexUpdated = true;
+      }
+      return result;
+    }
+
+    if (!event.uid) {
+      return { ...result, ignored: 'Payload has no entry UID' };
+    }
+
+    result.cacheKeysDeleted = await contentstack.invalidateEntry(event.contentType, event.uid);
+
+    if (!this.retrieval) return result;
+
+    if (event.action === 'remove') {
+      result.indexUpdated = this.retrieval.removeEntry(tenant, event.contentType, event.uid, event.locale ?? undefined);
+      return result;
+    }
+
+    // The payload carries the published version; fetching it right away could
+    // hit a CDN that has not caught up yet and re-cache the stale copy
+    const entry = event.entry || await contentstack
+      .getEntry(event.contentType, event.uid, event.locale ? { locale: event.locale } : undefined)
+      .catch(() => null);
+
+    if (entry) {
+      result.indexUpdated = await this.retrieval.upsertEntry(tenant, event.contentType, {
+        ...entry,
+        ...(event.locale && !entry.locale && { locale: event.locale }),
+      });
+    }
+
+    return result;
+  }
+}
+
+export default ContentstackWebhookHandler;
@@ -0,0 +1,214 @@
+import type { ChatMessage } from './llm-service.js';
+
+export interface ContextReport {
+  context_window: number;
+  max_tokens: number;
+  prompt_tokens: number;
+  dropped_messages: number;
+  dropped_tokens: number;
+  truncated_tool_results: number;
+  summarized: boolean;
+}
+
+export interface ContextFitOptions {
+  contextWindow: number;
+  maxTokens: number;
+}
+
+export interface ContextFitResult {
+  messages: ChatMessage[];
+  report: ContextReport;
+}
+
+export interface ContextWindowManagerOptions {
+  summarize?: boolean;
+  safetyMargin?: number;
+}
+
+const DEFAULT_CONTEXT_WINDOW = parseInt(process.env.LLM_DEFAULT_CONTEXT_WINDOW || '8192');
+
+// Known context lengths, matched by model name prefix (longest prefix wins)
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'llama-3.3-70b': 131072,
+  'llama-3.1-8b': 131072,
+  'llama-3.1-70b': 131072,
+  'llama3-70b': 8192,
+  'llama3-8b': 8192,
+  'llama3': 8192,
+  'llama3.1': 131072,
+  'llama3.2': 131072,
+  'mixtral-8x7b-32768': 32768,
+  'gemma2-9b': 8192,
+  'gpt-4o': 128000,
+  'gpt-4.1': 1047576,
+  'gpt-4-turbo': 128000,
+  'gpt-4': 8192,
+  'gpt-3.5-turbo': 16385,
+  'claude-': 200000,
+  'mistral': 32768,
+  'qwen2.5': 32768,
+};
+
+// Rough average for English text; good enough to stay clear of the limit
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const SUMMARY_MAX_QUESTIONS = 5;
+const SUMMARY_QUESTION_CHARS = 160;
+const TRUNCATION_MARKER = '…[truncated]';
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const estimateMessageTokens = (message: ChatMessage): number => {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content || '');
+  if (message.tool_calls) {
+    tokens += estimateTokens(JSON.stringify(message.tool_calls));
+  }
+  return tokens;
+};
+
+/**
+ * Context length of a model. Provider-configured values win over the
+ * built-in table; unknown models get LLM_DEFAULT_CONTEXT_WINDOW.
+ */
+export const getContextWindow = (model: string, overrides: Record<string, number> = {}): number => {
+  if (overrides[model]) return overrides[model];
+
+  const prefix = Object.keys(MODEL_CONTEXT_WINDOWS)
+    .filter((candidate) => model.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? MODEL_CONTEXT_WINDOWS[prefix]! : DEFAULT_CONTEXT_WINDOW;
+};
+
+/**
+ * Fits a conversation into a model's context window. The system prompt and
+ * the current turn (the latest user message plus any tool rounds after it)
+ * are always kept; older turns are dropped oldest first and replaced by a
+ * short note listing what the user asked earlier. If the current turn alone
+ * is still too large, its tool results are shortened.
+ */
+export class ContextWindowManager {
+  private readonly summarize: boolean;
+  private readonly safetyMargin: number;
+
+  constructor(options: ContextWindowManagerOptions = {}) {
+    this.summarize = options.summarize ?? true;
+    this.safetyMargin = options.safetyMargin ?? 256;
+  }
+
+  public fit(system: ChatMessage, messages: ChatMessage[], options: ContextFitOptions): ContextFitResult {
+    const budget = Math.max(options.contextWindow - options.maxTokens - this.safetyMargin, 0);
+    const groups = this.groupMessages(messages);
+
+    // Everything from the latest user message on belongs to the current turn
+    let currentStart = groups.length - 1;
+    for (let i = groups.length - 1; i >= 0; i--) {
+      if (groups[i]![0]!.role === 'user') {
+        currentStart = i;
+        break;
+      }
+    }
+    currentStart = Math.max(currentStart, 0);
+
+    const history = groups.slice(0, currentStart);
+    const current = groups.slice(currentStart).flat();
+    const dropped: ChatMessage[] = [];
+
+    const total = (kept: ChatMessage[][], summary: ChatMessage | null) =>
+      estimateMessageTokens(system) +
+      (summary ? estimateMessageTokens(summary) : 0) +
+      kept.flat().reduce((sum, message) => sum + estimateMessageTokens(message), 0) +
+      current.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+
+    let summary: ChatMessage | null = null;
+    while (history.length > 0 && total(history, summary) > budget) {
+      dropped.push(...history.shift()!);
+      summary = this.summarize ? this.buildSummary(dropped) : null;
+    }
+
+    let truncatedToolResults = 0;
+    let fitted = current;
+    const overflow = total(history, summary) - budget;
+    if (overflow > 0) {
+      ({ messages: fitted, truncated: truncatedToolResults } = this.truncateToolResults(current, overflow));
+    }
+
+    const result = [system, ...(summary ? [summary] : []), ...history.flat(), ...fitted];
+
+    return {
+      messages: result,
+      report: {
+        context_window: options.contextWindow,
+        max_tokens: options.maxTokens,
+        prompt_tokens: result.reduce((sum, message) => sum + estimateMessageTokens(message), 0),
+        dropped_messages: dropped.length,
+        dropped_tokens: dropped.reduce((sum, message) => sum + estimateMessageTokens(message), 0),
+        truncated_tool_results: truncatedToolResults,
+        summarized: summary !== null,
+      },
+    };
+  }
+
+  // An assistant tool-call message and its tool results are kept or dropped together
+  private groupMessages(messages: ChatMessage[]): ChatMessage[][] {
+    const groups: ChatMessage[][] = [];
+
+    for (const message of messages) {
+      const last = groups[groups.length - 1];
+      if (message.role === 'tool' && last) {
+        last.push(message);
+      } else {
+        groups.push([message]);
+      }
+    }
+
+    return groups;
+  }
+
+  private buildSummary(dropped: ChatMessage[]): ChatMessage {
+    const questions = dropped
+      .filter((message) => message.role === 'user' && message.content)
+      .slice(-SUMMARY_MAX_QUESTIONS)
+      .map((message) => {
+        const text = message.content.replace(/\s+/g, ' ').trim();
+        return `- ${text.length > SUMMARY_QUESTION_CHARS ? text.slice(0, SUMMARY_QUESTION_CHARS) + '…' : text}`;
+      });
+
+    return {
+      role: 'system',
+      content: `${dropped.length} earlier message(s) of this conversation were left out to fit the context window.` +
+        (questions.length ? `\nEarlier, the user asked about:\n${questions.join('\n')}` : ''),
+    };
+  }
+
+  // Shorten the largest tool results first until the overflow is absorbed
+  private truncateToolResults(
+    messages: ChatMessage[],
+    overflow: number
+  ): { messages: ChatMessage[]; truncated: number } {
+    const result = messages.map((message) => ({ ...message }));
+    const toolMessages = result
+      .filter((message) => message.role === 'tool')
+      .sort((a, b) => b.content.length - a.content.length);
+
+    let remaining = overflow;
+    let truncated = 0;
+
+    for (const message of toolMessages) {
+      if (remaining <= 0) break;
+
+      const tokens = estimateTokens(message.content);
+      const keepTokens = Math.max(tokens - remaining, 0);
+      const keepChars = Math.max(keepTokens * CHARS_PER_TOKEN - TRUNCATION_MARKER.length, 0);
+      if (keepChars >= message.content.length) continue;
+
+      message.content = message.content.slice(0, keepChars) + TRUNCATION_MARKER;
+      remaining -= tokens - estimateTokens(message.content);
+      truncated++;
+    }
+
+    return { messages: result, truncated };
+  }
+}
+
+export default ContextWindowManager;
@@ -0,0 +1,180 @@
+import { randomUUID } from 'crypto';
+import { AppError } from '../middleware/error-handler.js';
+import type { ConversationRecord, DatabaseService, MessageRecord } from './database-service.js';
+import type { AgentEvent, ChatMessage, TokenUsage } from './llm-service.js';
+import type { ContextReport } from './context-window.js';
+import type { SourceReference, SourcesStreamEvent } from '../utils/stream-protocol.js';
+
+export type TurnStatus = 'completed' | 'error' | 'aborted';
+
+export interface StartTurnOptions {
+  tenantId: string | null;
+  conversationId?: string;
+  sessionId?: string;
+  userMessage?: ChatMessage;
+  metadata?: Record<string, any>;
+}
+
+export interface RecordedToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+  result?: string;
+  error?: string;
+}
+
+/**
+ * Stores chat turns in the conversations/messages tables. A turn is opened
+ * before the model runs (creating the conversation if needed and saving the
+ * user message) and completed once the agent loop ends.
+ */
+export class ConversationService {
+  constructor(private database: DatabaseService) {}
+
+  public async startTurn(options: StartTurnOptions): Promise<ConversationTurn> {
+    let conversationId = options.conversationId;
+
+    if (conversationId) {
+      const existing = await this.getForVisitor(conversationId, options.tenantId, options.sessionId);
+      if (!existing) {
+        throw new AppError('Conversation not found', 404);
+      }
+    } else {
+      const conversation = await this.database.createConversation({
+        tenant_id: options.tenantId,
+        session_id: options.sessionId || randomUUID(),
+        metadata: options.metadata || {},
+        status: 'active',
+      });
+      conversationId = conversation.id;
+      console.log(`💬 Conversation started: ${conversationId}`);
+    }
+
+    if (options.userMessage) {
+      await this.database.createMessage({
+        conversation_id: conversationId,
+        role: 'user',
+        content: options.userMessage.content,
+        metadata: {},
+      });
+    }
+
+    return new ConversationTurn(this.database, conversationId);
+  }
+
+  // Conversations are only visible to the visitor session that started them
+  public async getForVisitor(conversationId: string, tenantId: string | null, sessionId: string | undefined): Promise<ConversationRecord | null> {
+    return this.database.getVisitorConversation(conversationId, tenantId, sessionId ?? null);
+  }
+
+  public async getHistory(
+    conversationId: string,
+    tenantId: string | null,
+    page: number,
+    limit: number
+  ): Promise<{ messages: MessageRecord[]; total: number } | null> {
+    const conversation = await this.database.getConversationForTenant(conversationId, tenantId);
+    if (!conversation) return null;
+
+    const [messages, total] = await Promise.all([
+      this.database.getMessagesByConversation(conversationId, limit, (page - 1) * limit),
+      this.database.countMessagesByConversation(conversationId),
+    ]);
+
+    return { messages, total };
+  }
+}
+
+/**
+ * Accumulates the agent events of one assistant reply and writes them as a
+ * single assistant message when the turn completes.
+ */
+export class ConversationTurn {
+  private readonly startedAt = Date.now();
+  private content = '';
+  private toolCalls: Map<string, RecordedToolCall> = new Map();
+  private usage: TokenUsage | null = null;
+  private provider: string | null = null;
+  private model: string | null = null;
+  private finishReason: string | null = null;
+  private context: ContextReport | null = null;
+  private sources: SourceReference[] = [];
+  private completed = false;
+
+  constructor(private database: DatabaseService, public readonly conversationId: string) {}
+
+  public track(event: AgentEvent | SourcesStreamEvent): void {
+    switch (event.type) {
+      case 'content':
+        this.content += event.content;
+        break;
+      case 'tool_call':
+        this.toolCalls.set(event.tool_call_id, {
+          id: event.tool_call_id,
+          name: event.name,
+          arguments: event.arguments,
+        });
+        break;
+      case 'tool_result': {
+        const call = this.toolCalls.get(event.tool_call_id);
+        if (call) call.result = event.content;
+        break;
+      }
+      case 'tool_error': {
+        const call = this.toolCalls.get(event.tool_call_id);
+        if (call) {
+          call.error = event.error;
+        } else {
+          this.toolCalls.set(event.tool_call_id, { id: event.tool_call_id, name: event.name, arguments: {}, error: event.error });
+        }
+        break;
+      }
+      case 'completion':
+        this.usage = event.usage;
+        this.provider = event.provider;
+        this.model = event.model;
+        this.finishReason = event.finish_reason;
+        this.context = event.context;
+        break;
+      case 'sources':
+        this.sources = event.sources;
+        break;
+    }
+  }
+
+  public async complete(status: TurnStatus = 'completed', error?: string): Promise<MessageRecord | null> {
+    if (this.completed) return null;
+    this.completed = true;
+
+    // Nothing worth storing if the model never produced anything
+    if (!this.content && this.toolCalls.size === 0 && status !== 'error') {
+      return null;
+    }
+
+    try {
+      return await this.database.createMessage({
+        conversation_id: this.conversationId,
+        role: 'assistant',
+        content: this.content,
+        metadata: {
+          status,
+          ...(error && { error }),
+          toolCalls: Array.from(this.toolCalls.values()),
+          usage: this.usage,
+          provider: this.provider,
+          finishReason: this.finishReason,
+          context: this.context,
+          sources: this.sources,
+        },
+        ...(this.usage && { tokens_used: this.usage.total_tokens }),
+        ...(this.model && { model_used: this.model }),
+        latency_ms: Date.now() - this.startedAt,
+      });
+    } catch (persistError) {
+      console.error(`❌ Failed to store assistant message for ${this.conversationId}:`, persistError);
+      return null;
+    }
+  }
+}
+
+export default ConversationService;
@@ -16,15 +16,21 @@ export interface DatabaseConfig {
 
 export interface ConversationRecord {
   id: string;
-  tenant_id: string;
+  tenant_id: string | null;
   user_id?: string;
   session_id: string;
   created_at: Date;
   updated_at: Date;
   metadata?: any;
   status: 'active' | 'closed' | 'archived';
+  // Who answers the visitor: the bot, a human agent, or nobody yet (waiting in the escalation queue)
+  handled_by?: ConversationHandler;
+  agent_id?: string | null;
+  escalated_at?: Date | null;
 }
 
+export type ConversationHandler = 'bot' | 'queued' | 'agent';
+
 export interface MessageRecord {
   id: string;
   conversation_id: string;
@@ -34,6 +40,7 @@ export interface MessageRecord {
   created_at: Date;
   tokens_used?: number;
   model_used?: string;
+  latency_ms?: number;
 }
 
 export interface TenantRecord {
@@ -43,6 +50,8 @@ export interface TenantRecord {
   api_key: string;
   contentstack_config?: any;
   widget_config?: any;
+  // LLM provider API keys, encrypted (see provider-secrets.ts)
+  provider_secrets?: string | null;
   created_at: Date;
   updated_at: Date;
   status: 'active' | 'inactive' | 'suspended';
@@ -159,10 +168,20 @@ export class DatabaseService {
           metadata JSONB DEFAULT '{}',
           created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
           tokens_used INTEGER,
-          model_used VARCHAR(100)
+          model_used VARCHAR(100),
+          latency_ms INTEGER
         )
       `);
 
+      // Columns added after the initial schema
+      await client.query(`
+        ALTER TABLE messages ADD COLUMN IF NOT EXISTS latency_ms INTEGER;
+        ALTER TABLE tenants ADD COLUMN IF NOT EXISTS provider_secrets TEXT;
+        ALTER TABLE conversations ADD COLUMN IF NOT EXISTS handled_by VARCHAR(20) DEFAULT 'bot';
+        ALTER TABLE conversations ADD COLUMN IF NOT EXISTS agent_id VARCHAR(255);
+        ALTER TABLE conversations ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMP WITH TIME ZONE;
+      `);
+
       // Create analytics table
       await client.query(`
         CREATE TABLE IF NOT EXISTS analytics (
@@ -182,6 +201,7 @@ export class DatabaseService {
         CREATE INDEX IF NOT EXISTS idx_conversations_tenant_id ON conversations(tenant_id);
         CREATE INDEX IF NOT EXISTS idx_conversations_session_id ON conversations(session_id);
         CREATE INDEX IF NOT EXISTS idx_conversations_created_at ON conversations(created_at);
+        CREATE INDEX IF NOT EXISTS idx_conversations_handled_by ON conversations(tenant_id, handled_by);
         
         CREATE INDEX IF NOT EXISTS idx_messages_conversation_id ON messages(conversation_id);
         CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at);
@@ -230,9 +250,9 @@ export class DatabaseService {
     const client = await this.pool.connect();
     try {
       const result = await client.query(
-        `INSERT INTO tenants (name, domain, api_key, contentstack_config, widget_config, status, plan)
-         VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
-        [tenant.name, tenant.domain, tenant.api_key, tenant.contentstack_config, tenant.widget_config, tenant.status, tenant.plan]
+        `INSERT INTO tenants (name, domain, api_key, contentstack_config, widget_config, provider_secrets, status, plan)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+        [tenant.name, tenant.domain, tenant.api_key, tenant.contentstack_config, tenant.widget_config, tenant.provider_secrets ?? null, tenant.status, tenant.plan]
       );
       return result.rows[0];
     } finally {
@@ -250,6 +270,23 @@ export class DatabaseService {
     return result.rows[0] || null;
   }
 
+  public async getTenantById(id: string): Promise<TenantRecord | null> {
+    const result = await this.pool.query('SELECT * FROM tenants WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  public async updateTenantWidgetConfig(id: string, widgetConfig: any): Promise<TenantRecord | null> {
+    const result = await this.pool.query(
+      'UPDATE tenants SET widget_config = $2, updated_at = NOW() WHERE id = $1 RETURNING *',
+      [id, widgetConfig]
+    );
+    return result.rows[0] || null;
+  }
+
+  public async updateTenantProviderSecrets(id: string, providerSecrets: string | null): Promise<void> {
+    await this.pool.query('UPDATE tenants SET provider_secrets = $2, updated_at = NOW() WHERE id = $1', [id, providerSecrets]);
+  }
+
   // Conversation operations
   public async createConversation(conversation: Omit<ConversationRecord, 'id' | 'created_at' | 'updated_at'>): Promise<ConversationRecord> {
     const result = await this.pool.query(
@@ -265,6 +302,28 @@ export class DatabaseService {
     return result.rows[0] || null;
   }
 
+  public async getConversationForTenant(id: string, tenantId: string | null): Promise<ConversationRecord | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM conversations WHERE id = $1 AND tenant_id IS NOT DISTINCT FROM $2',
+      [id, tenantId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * A conversation a widget visitor may continue: one of their tenant's that
+   * was started in the visitor's session. Conversation IDs reach other
+   * visitors (shared links, logs), so the session is checked for tenants too.
+   */
+  public async getVisitorConversation(id: string, tenantId: string | null, sessionId: string | null): Promise<ConversationRecord | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM conversations
+       WHERE id = $1 AND tenant_id IS NOT DISTINCT FROM $2 AND session_id = $3`,
+      [id, tenantId, sessionId]
+    );
+    return result.rows[0] || null;
+  }
+
   public async getConversationsByTenant(tenantId: string, limit: number = 50, offset: number = 0): Promise<ConversationRecord[]> {
     const result = await this.pool.query(
       'SELECT * FROM conversations WHERE tenant_id = $1 ORDER BY created_at DESC LIMIT $2 OFFSET $3',
@@ -273,13 +332,53 @@ export class DatabaseService {
     return result.rows;
   }
 
+  /**
+   * Hand a conversation over, but only if it is still handled by one of
+   * `from` (and by `agentId`, when given). Returns null when someone else got
+   * there first, so two agents cannot take the same conversation.
+   */
+  public async transferConversation(
+    id: string,
+    tenantId: string | null,
+    from: ConversationHandler[],
+    to: { handled_by: ConversationHandler; agent_id: string | null; metadata?: Record<string, any>; agentId?: string }
+  ): Promise<ConversationRecord | null> {
+    const result = await this.pool.query(
+      `UPDATE conversations
+       SET handled_by = $4,
+           agent_id = $5,
+           escalated_at = CASE WHEN $4 = 'bot' THEN NULL ELSE COALESCE(escalated_at, NOW()) END,
+           metadata = COALESCE(metadata, '{}'::jsonb) || $6::jsonb
+       WHERE id = $1 AND tenant_id IS NOT DISTINCT FROM $2 AND COALESCE(handled_by, 'bot') = ANY($3)
+         AND ($7::text IS NULL OR agent_id = $7)
+       RETURNING *`,
+      [id, tenantId, from, to.handled_by, to.agent_id, to.metadata || {}, to.agentId ?? null]
+    );
+    return result.rows[0] || null;
+  }
+
+  // Escalated conversations of a tenant, oldest first: waiting ones, then those with an agent
+  public async getEscalatedConversations(tenantId: string, limit: number = 100): Promise<ConversationRecord[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM conversations
+       WHERE tenant_id = $1 AND handled_by IN ('queued', 'agent') AND status = 'active'
+       ORDER BY handled_by = 'agent', escalated_at ASC LIMIT $2`,
+      [tenantId, limit]
+    );
+    return result.rows;
+  }
+
   // Message operations
   public async createMessage(message: Omit<MessageRecord, 'id' | 'created_at'>): Promise<MessageRecord> {
     const result = await this.pool.query(
-      `INSERT INTO messages (conversation_id, role, content, metadata, tokens_used, model_used)
-       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
-      [message.conversation_id, message.role, message.content, message.metadata, message.tokens_used, message.model_used]
+      `INSERT INTO messages (conversation_id, role, content, metadata, tokens_used, model_used, latency_ms)
+       VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+      [message.conversation_id, message.role, message.content, message.metadata, message.tokens_used, message.model_used, message.latency_ms]
     );
+
+    // Bump the conversation so recently active ones sort first
+    await this.pool.query('UPDATE conversations SET updated_at = NOW() WHERE id = $1', [message.conversation_id]);
+
     return result.rows[0];
   }
 
@@ -291,6 +390,14 @@ export class DatabaseService {
     return result.rows;
   }
 
+  public async countMessagesByConversation(conversationId: string): Promise<number> {
+    const result = await this.pool.query(
+      'SELECT COUNT(*) AS total FROM messages WHERE conversation_id = $1',
+      [conversationId]
+    );
+    return parseInt(result.rows[0].total);
+  }
+
   // Analytics operations
   public async createAnalyticsEvent(event: Omit<AnalyticsRecord, 'id' | 'created_at'>): Promise<AnalyticsRecord> {
     const result = await this.pool.query(
@@ -337,6 +444,32 @@ export class DatabaseService {
     return result.rows;
   }
 
+  // Conversations started per locale, most frequent first; ones without a recorded locale count as 'unknown'
+  public async getConversationsByLocale(
+    tenantId: string,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<Array<{ locale: string; conversations: number }>> {
+    let query = `SELECT COALESCE(metadata->>'locale', 'unknown') AS locale, COUNT(*) AS conversations
+      FROM conversations WHERE tenant_id = $1`;
+    const params: any[] = [tenantId];
+
+    if (startDate) {
+      params.push(startDate);
+      query += ` AND created_at >= $${params.length}`;
+    }
+
+    if (endDate) {
+      params.push(endDate);
+      query += ` AND created_at <= $${params.length}`;
+    }
+
+    query += ' GROUP BY 1 ORDER BY conversations DESC';
+
+    const result = await this.pool.query(query, params);
+    return result.rows.map((row) => ({ locale: row.locale, conversations: parseInt(row.conversations) }));
+  }
+
   // Utility methods
   public async query(text: string, params?: any[]): Promise<QueryResult> {
     return this.pool.query(text, params);
@@ -0,0 +1,53 @@
+import type { EmbeddingBackend, EmbeddingConfig } from './types.js';
+
+// FNV-1a, stable across processes so stored vectors stay comparable
+const hash = (text: string): number => {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+};
+
+/**
+ * Dependency-free embeddings from hashed words and character trigrams. Not a
+ * language model, but trigrams still match word variants and typos that exact
+ * BM25 terms miss, and it needs nothing but the CPU.
+ */
+export class HashingEmbeddingBackend implements EmbeddingBackend {
+  public readonly name = 'hashing';
+  public readonly batchSize: number;
+  private readonly dimensions: number;
+
+  constructor(config: Partial<EmbeddingConfig> = {}) {
+    this.dimensions = config.dimensions ?? 512;
+    this.batchSize = config.batchSize ?? 256;
+  }
+
+  public async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((word) => word.length > 1);
+
+    const add = (feature: string, weight: number) => {
+      const h = hash(feature);
+      // The sign bit keeps colliding features from only ever adding up
+      vector[h % this.dimensions]! += h & 0x80000000 ? -weight : weight;
+    };
+
+    for (const word of words) {
+      add(`w:${word}`, 1);
+      const padded = ` ${word} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+}
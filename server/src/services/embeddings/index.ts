@@ -0,0 +1,38 @@
+import { HashingEmbeddingBackend } from './hashing.js';
+import { OllamaEmbeddingBackend } from './ollama.js';
+import type { EmbeddingBackend, EmbeddingConfig } from './types.js';
+
+export * from './types.js';
+export { HashingEmbeddingBackend, OllamaEmbeddingBackend };
+
+export const createEmbeddingBackend = (config: EmbeddingConfig): EmbeddingBackend => {
+  switch (config.type) {
+    case 'hashing':
+      return new HashingEmbeddingBackend(config);
+    case 'ollama':
+      return new OllamaEmbeddingBackend(config);
+    default:
+      throw new Error(`Unsupported embedding backend: ${(config as EmbeddingConfig).type}`);
+  }
+};
+
+/**
+ * Embedding backend from `EMBEDDING_BACKEND` (`hashing`, `ollama` or `none`).
+ * Without one the content index ranks with BM25 alone.
+ */
+export const loadEmbeddingBackendFromEnv = (env: NodeJS.ProcessEnv = process.env): EmbeddingBackend | null => {
+  const type = env.EMBEDDING_BACKEND || 'hashing';
+  if (type === 'none') return null;
+
+  try {
+    return createEmbeddingBackend({
+      type: type as EmbeddingConfig['type'],
+      ...(env.EMBEDDING_MODEL && { model: env.EMBEDDING_MODEL }),
+      ...(env.EMBEDDING_BASE_URL && { baseUrl: env.EMBEDDING_BASE_URL }),
+      ...(env.EMBEDDING_DIMENSIONS && { dimensions: parseInt(env.EMBEDDING_DIMENSIONS) }),
+    });
+  } catch (error) {
+    console.error('❌ Invalid embedding configuration:', error);
+    return null;
+  }
+};
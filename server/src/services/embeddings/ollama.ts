@@ -0,0 +1,35 @@
+import axios from 'axios';
+import type { EmbeddingBackend, EmbeddingConfig } from './types.js';
+
+/**
+ * Embedding model served by a local Ollama instance, e.g. `nomic-embed-text`
+ */
+export class OllamaEmbeddingBackend implements EmbeddingBackend {
+  public readonly name: string;
+  public readonly batchSize: number;
+  private readonly baseUrl: string;
+  private readonly model: string;
+  private readonly timeout: number;
+
+  constructor(config: EmbeddingConfig) {
+    this.model = config.model || 'nomic-embed-text';
+    this.name = `ollama:${this.model}`;
+    this.baseUrl = (config.baseUrl || 'http://localhost:11434').replace(/\/+$/, '');
+    this.batchSize = config.batchSize ?? 32;
+    this.timeout = config.timeout ?? 60000;
+  }
+
+  public async embed(texts: string[]): Promise<number[][]> {
+    const response = await axios.post(
+      `${this.baseUrl}/api/embed`,
+      { model: this.model, input: texts },
+      { timeout: this.timeout }
+    );
+
+    const embeddings: number[][] = response.data?.embeddings || [];
+    if (embeddings.length !== texts.length) {
+      throw new Error(`Ollama returned ${embeddings.length} embeddings for ${texts.length} inputs`);
+    }
+    return embeddings;
+  }
+}
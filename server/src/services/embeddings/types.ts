@@ -0,0 +1,22 @@
+export type EmbeddingBackendType = 'hashing' | 'ollama';
+
+export interface EmbeddingConfig {
+  type: EmbeddingBackendType;
+  model?: string;
+  baseUrl?: string;
+  dimensions?: number;
+  batchSize?: number;
+  timeout?: number;
+}
+
+/**
+ * Turns text into vectors for the semantic half of the content index.
+ * Backends must work without internet access: either fully in-process or
+ * against a model server on the local network.
+ */
+export interface EmbeddingBackend {
+  readonly name: string;
+  readonly batchSize: number;
+
+  embed(texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,157 @@
+import { htmlToText, jsonRteToText } from './text-chunker.js';
+import type { ContentstackEntry } from './contentstack-service.js';
+
+export interface CompactEntryOptions {
+  // Characters kept of any single text field
+  maxFieldLength?: number;
+  // Rough budget for the whole serialized summary; later fields are dropped past it
+  maxLength?: number;
+  // Levels of resolved references summarized in full
+  maxDepth?: number;
+  maxItems?: number;
+}
+
+export interface AssetSummary {
+  title: string | null;
+  url: string;
+  type: string | null;
+  width?: number;
+  height?: number;
+}
+
+// Bookkeeping fields of the delivery API that tell the model nothing
+const SYSTEM_FIELDS = new Set([
+  'created_at', 'created_by', 'updated_by', 'publish_details', 'ACL', '_version', '_in_progress',
+  '_metadata', '_owner', '_embedded_items', '_workflow', '_rules', 'parent_uid', 'attrs', 'locale',
+  'updated_at', '_content_type_uid', 'content_type_uid', 'uid', 'title', 'url',
+]);
+
+const truncate = (text: string, maxLength: number): string => {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+};
+
+const isAsset = (value: Record<string, any>): boolean => {
+  return typeof value.url === 'string' && (typeof value.filename === 'string' || typeof value.file_size === 'string' || typeof value.file_size === 'number');
+};
+
+const isReference = (value: Record<string, any>): boolean => {
+  return typeof value.uid === 'string' && typeof value._content_type_uid === 'string';
+};
+
+export const summarizeAsset = (asset: Record<string, any>): AssetSummary => {
+  const width = Number(asset.dimension?.width);
+  const height = Number(asset.dimension?.height);
+
+  return {
+    title: asset.title || asset.filename || null,
+    url: asset.url,
+    type: asset.content_type || null,
+    ...(width > 0 && { width }),
+    ...(height > 0 && { height }),
+  };
+};
+
+// Every asset of an entry (file fields, also inside groups and blocks)
+export const extractAssets = (value: unknown, depth = 0): AssetSummary[] => {
+  if (depth > 6 || !value || typeof value !== 'object') return [];
+  if (Array.isArray(value)) return value.flatMap((item) => extractAssets(item, depth + 1));
+
+  const node = value as Record<string, any>;
+  if (isAsset(node)) return [summarizeAsset(node)];
+  return Object.entries(node)
+    .filter(([key]) => !SYSTEM_FIELDS.has(key))
+    .flatMap(([, child]) => extractAssets(child, depth + 1));
+};
+
+const compactValue = (value: unknown, options: Required<CompactEntryOptions>, depth: number): unknown => {
+  if (value === null || value === undefined || value === '') return undefined;
+
+  if (typeof value === 'string') {
+    const text = /<[a-z][^>]*>/i.test(value) ? htmlToText(value) : value.trim();
+    return text ? truncate(text, options.maxFieldLength) : undefined;
+  }
+  if (typeof value !== 'object') return value;
+
+  if (Array.isArray(value)) {
+    const items = value
+      .slice(0, options.maxItems)
+      .map((item) => compactValue(item, options, depth))
+      .filter((item) => item !== undefined);
+    return items.length > 0 ? items : undefined;
+  }
+
+  const node = value as Record<string, any>;
+  if (node.type === 'doc' && Array.isArray(node.children)) {
+    return compactValue(jsonRteToText(node).trim(), options, depth);
+  }
+  if (isAsset(node)) {
+    return summarizeAsset(node);
+  }
+  if (isReference(node)) {
+    // Unresolved references only carry the UID; deep ones are cut to their identity
+    const resolved = Object.keys(node).some((key) => !['uid', '_content_type_uid'].includes(key));
+    if (!resolved || depth >= options.maxDepth) {
+      return {
+        uid: node.uid,
+        content_type: node._content_type_uid,
+        ...(typeof node.title === 'string' && { title: node.title }),
+        ...(typeof node.url === 'string' && node.url && { url: node.url }),
+      };
+    }
+    return compactFields(node, options, depth + 1);
+  }
+
+  const fields = compactFields(node, options, depth);
+  return Object.keys(fields).length > 0 ? fields : undefined;
+};
+
+const compactFields = (entry: Record<string, any>, options: Required<CompactEntryOptions>, depth: number): Record<string, any> => {
+  const summary: Record<string, any> = {
+    ...(typeof entry.uid === 'string' && { uid: entry.uid }),
+    ...(entry._content_type_uid && { content_type: entry._content_type_uid }),
+    ...(typeof entry.title === 'string' && { title: entry.title }),
+    ...(typeof entry.url === 'string' && entry.url && { url: entry.url }),
+  };
+
+  for (const [key, value] of Object.entries(entry)) {
+    if (SYSTEM_FIELDS.has(key)) continue;
+    const compacted = compactValue(value, options, depth);
+    if (compacted !== undefined) summary[key] = compacted;
+  }
+
+  return summary;
+};
+
+/**
+ * Token-efficient view of an entry for tool results: system fields dropped,
+ * rich text flattened, assets reduced to URL, type and size, resolved
+ * references summarized (unresolved ones kept as UID and content type) and
+ * long text cut. Fields past the overall budget are left out and the summary
+ * is marked `truncated`.
+ */
+export const compactEntry = (entry: ContentstackEntry | Record<string, any>, options: CompactEntryOptions = {}): Record<string, any> => {
+  const resolved: Required<CompactEntryOptions> = {
+    maxFieldLength: options.maxFieldLength ?? 600,
+    maxLength: options.maxLength ?? 3000,
+    maxDepth: options.maxDepth ?? 1,
+    maxItems: options.maxItems ?? 10,
+  };
+
+  const fields = compactFields(entry, resolved, 0);
+  if (entry.locale) fields.locale = entry.locale;
+  if (entry.updated_at) fields.updated_at = entry.updated_at;
+
+  const summary: Record<string, any> = {};
+  let length = 2;
+  for (const [key, value] of Object.entries(fields)) {
+    const size = key.length + JSON.stringify(value).length + 4;
+    if (length + size > resolved.maxLength && Object.keys(summary).length > 0) {
+      summary.truncated = true;
+      continue;
+    }
+    summary[key] = value;
+    length += size;
+  }
+
+  return summary;
+};
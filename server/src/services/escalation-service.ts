@@ -0,0 +1,272 @@
+import { EventEmitter } from 'events';
+import { AppError } from '../middleware/error-handler.js';
+import type { ConversationHandler, ConversationRecord, DatabaseService } from './database-service.js';
+import type {
+  AgentMessageStreamEvent,
+  AgentProfile,
+  HandoffStreamEvent,
+  TypingStreamEvent,
+} from '../utils/stream-protocol.js';
+
+export type EscalationSource = 'visitor' | 'assistant';
+
+export interface EscalationRequest {
+  source: EscalationSource;
+  reason?: string;
+}
+
+// A support agent taking over conversations, from their dashboard login
+export interface AgentIdentity {
+  id: string;
+  name: string;
+}
+
+// A visitor wrote while the conversation is escalated; only agents see this
+export interface VisitorMessageEvent {
+  type: 'visitor_message';
+  content: string;
+  timestamp: string;
+}
+
+export type EscalationUpdate = HandoffStreamEvent | AgentMessageStreamEvent | TypingStreamEvent | VisitorMessageEvent;
+
+export interface EscalationEvent {
+  conversationId: string;
+  tenantId: string | null;
+  update: EscalationUpdate;
+}
+
+export type EscalationListener = (event: EscalationEvent) => void;
+
+export interface QueuedConversation {
+  conversationId: string;
+  sessionId: string;
+  handledBy: ConversationHandler;
+  agentId: string | null;
+  escalatedAt: Date | null;
+  source: EscalationSource | null;
+  reason: string | null;
+  language: string | null;
+  updatedAt: Date;
+}
+
+export interface HandoffState {
+  handledBy: ConversationHandler;
+  agent: AgentProfile | null;
+}
+
+const ALL_EVENTS = '*';
+
+const toQueuedConversation = (conversation: ConversationRecord): QueuedConversation => ({
+  conversationId: conversation.id,
+  sessionId: conversation.session_id,
+  handledBy: conversation.handled_by || 'bot',
+  agentId: conversation.agent_id ?? null,
+  escalatedAt: conversation.escalated_at ?? null,
+  source: conversation.metadata?.escalation?.source ?? null,
+  reason: conversation.metadata?.escalation?.reason ?? null,
+  language: conversation.metadata?.language ?? null,
+  updatedAt: conversation.updated_at,
+});
+
+/**
+ * Moves conversations between the assistant and human agents. Escalated
+ * conversations wait in a per-tenant queue until an agent takes one; while an
+ * agent has it the assistant stays quiet. Updates are published in process
+ * memory, so the widget and agents must be connected to the same instance.
+ */
+export class EscalationService {
+  private events = new EventEmitter();
+
+  constructor(private database: DatabaseService) {
+    // One listener per open widget and agent socket
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Put a conversation in the tenant's queue. Asking again while it is
+   * already queued or with an agent changes nothing.
+   */
+  public async escalate(conversationId: string, tenantId: string | null, request: EscalationRequest): Promise<ConversationRecord> {
+    const reason = request.reason?.trim().slice(0, 500) || null;
+    const escalated = await this.database.transferConversation(conversationId, tenantId, ['bot'], {
+      handled_by: 'queued',
+      agent_id: null,
+      metadata: { escalation: { source: request.source, reason, requestedAt: new Date().toISOString() } },
+    });
+
+    if (!escalated) {
+      return this.requireConversation(conversationId, tenantId);
+    }
+
+    console.log(`🙋 Conversation ${conversationId} escalated by the ${request.source}${reason ? `: ${reason}` : ''}`);
+    await this.recordNotice(conversationId, `Conversation escalated to a human agent${reason ? `: ${reason}` : ''}`, { source: request.source });
+    this.publish(conversationId, tenantId, {
+      type: 'handoff',
+      status: 'queued',
+      message: 'We are connecting you with a member of our team. They will join this chat shortly.',
+    });
+    return escalated;
+  }
+
+  public async getQueue(tenantId: string): Promise<QueuedConversation[]> {
+    const conversations = await this.database.getEscalatedConversations(tenantId);
+    return conversations.map(toQueuedConversation);
+  }
+
+  /**
+   * Give a conversation to an agent. Fails with 409 when another agent
+   * already has it.
+   */
+  public async assign(conversationId: string, tenantId: string | null, agent: AgentIdentity): Promise<ConversationRecord> {
+    const assigned = await this.database.transferConversation(conversationId, tenantId, ['bot', 'queued'], {
+      handled_by: 'agent',
+      agent_id: agent.id,
+      metadata: { agent: { id: agent.id, name: agent.name } },
+    });
+
+    if (!assigned) {
+      const current = await this.requireConversation(conversationId, tenantId);
+      if (current.handled_by === 'agent' && current.agent_id === agent.id) return current;
+      throw new AppError('Conversation is already handled by another agent', 409);
+    }
+
+    console.log(`🧑‍💼 Agent ${agent.id} took over conversation ${conversationId}`);
+    await this.recordNotice(conversationId, `${agent.name} joined the conversation`, { agent });
+    this.publish(conversationId, tenantId, {
+      type: 'handoff',
+      status: 'agent',
+      agent: { name: agent.name },
+      message: `${agent.name} joined the conversation`,
+    });
+    return assigned;
+  }
+
+  /**
+   * Hand the conversation back, to the assistant or to the queue for
+   * another agent
+   */
+  public async release(
+    conversationId: string,
+    tenantId: string | null,
+    agent: AgentIdentity,
+    to: 'bot' | 'queued' = 'bot'
+  ): Promise<ConversationRecord> {
+    const released = await this.database.transferConversation(conversationId, tenantId, ['agent'], {
+      handled_by: to,
+      agent_id: null,
+      agentId: agent.id,
+    });
+
+    if (!released) {
+      await this.requireConversation(conversationId, tenantId);
+      throw new AppError('Conversation is not handled by this agent', 409);
+    }
+
+    console.log(`↩️ Agent ${agent.id} released conversation ${conversationId} to ${to === 'bot' ? 'the assistant' : 'the queue'}`);
+    await this.recordNotice(conversationId, `${agent.name} left the conversation`, { agent });
+    this.publish(conversationId, tenantId, { type: 'typing', author: 'agent', isTyping: false });
+    this.publish(conversationId, tenantId, {
+      type: 'handoff',
+      status: to,
+      message: to === 'bot'
+        ? `${agent.name} left the conversation. The assistant will answer from here.`
+        : `${agent.name} left the conversation. Another member of our team will join shortly.`,
+    });
+    return released;
+  }
+
+  public async postAgentMessage(
+    conversationId: string,
+    tenantId: string | null,
+    agent: AgentIdentity,
+    content: string
+  ): Promise<AgentMessageStreamEvent> {
+    const conversation = await this.requireConversation(conversationId, tenantId);
+    if (conversation.handled_by !== 'agent' || conversation.agent_id !== agent.id) {
+      throw new AppError('Conversation is not handled by this agent', 409);
+    }
+
+    // Stored as assistant turns so the model sees them if the conversation goes back to it
+    const message = await this.database.createMessage({
+      conversation_id: conversationId,
+      role: 'assistant',
+      content,
+      metadata: { author: 'agent', agent: { id: agent.id, name: agent.name } },
+    });
+
+    const event: AgentMessageStreamEvent = {
+      type: 'agent_message',
+      id: message.id,
+      content,
+      agent: { name: agent.name },
+      timestamp: new Date(message.created_at).toISOString(),
+    };
+
+    this.publish(conversationId, tenantId, { type: 'typing', author: 'agent', isTyping: false });
+    this.publish(conversationId, tenantId, event);
+    return event;
+  }
+
+  public setAgentTyping(conversationId: string, tenantId: string | null, agent: AgentIdentity, isTyping: boolean): void {
+    this.publish(conversationId, tenantId, { type: 'typing', author: 'agent', isTyping, agent: { name: agent.name } });
+  }
+
+  // Forward a visitor message to the agents; the chat routes have already stored it
+  public relayVisitorMessage(conversationId: string, tenantId: string | null, content: string): void {
+    this.publish(conversationId, tenantId, { type: 'visitor_message', content, timestamp: new Date().toISOString() });
+  }
+
+  // Who currently answers the conversation; null when it does not exist for the tenant
+  public async getState(conversationId: string, tenantId: string | null): Promise<HandoffState | null> {
+    const conversation = await this.database.getConversationForTenant(conversationId, tenantId);
+    if (!conversation) return null;
+
+    const handledBy = conversation.handled_by || 'bot';
+    const agentName = handledBy === 'agent' ? conversation.metadata?.agent?.name : null;
+    return { handledBy, agent: agentName ? { name: agentName } : null };
+  }
+
+  /**
+   * Listen to every conversation's updates (the agent gateway) or, with a
+   * conversation ID, to one conversation's (a visitor's widget). Returns a
+   * function that removes the listener.
+   */
+  public subscribe(listener: EscalationListener, conversationId?: string): () => void {
+    const channel = conversationId || ALL_EVENTS;
+    this.events.on(channel, listener);
+    return () => {
+      this.events.off(channel, listener);
+    };
+  }
+
+  private publish(conversationId: string, tenantId: string | null, update: EscalationUpdate): void {
+    const event: EscalationEvent = { conversationId, tenantId, update };
+    this.events.emit(conversationId, event);
+    this.events.emit(ALL_EVENTS, event);
+  }
+
+  private async requireConversation(conversationId: string, tenantId: string | null): Promise<ConversationRecord> {
+    const conversation = await this.database.getConversationForTenant(conversationId, tenantId);
+    if (!conversation) {
+      throw new AppError('Conversation not found', 404);
+    }
+    return conversation;
+  }
+
+  // Handoffs show up in the conversation history as system messages
+  private async recordNotice(conversationId: string, content: string, metadata: Record<string, any>): Promise<void> {
+    try {
+      await this.database.createMessage({
+        conversation_id: conversationId,
+        role: 'system',
+        content,
+        metadata: { author: 'system', event: 'handoff', ...metadata },
+      });
+    } catch (error) {
+      console.warn(`⚠️ Failed to record handoff for ${conversationId}:`, error);
+    }
+  }
+}
+
+export default EscalationService;
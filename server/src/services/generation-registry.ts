@@ -0,0 +1,55 @@
+export interface ActiveGeneration {
+  controller: AbortController;
+  tenantId: string | null;
+  startedAt: number;
+}
+
+/**
+ * Tracks the answers currently being generated, keyed by conversation, so a
+ * separate request (the widget's Stop button) can cancel one. Entries live in
+ * process memory and only reach generations running on this instance.
+ */
+export class GenerationRegistry {
+  private generations: Map<string, ActiveGeneration> = new Map();
+
+  /**
+   * Register a new generation. A still-running generation for the same
+   * conversation is superseded and aborted.
+   */
+  public start(conversationId: string, tenantId: string | null, controller: AbortController = new AbortController()): AbortController {
+    this.generations.get(conversationId)?.controller.abort();
+    this.generations.set(conversationId, { controller, tenantId, startedAt: Date.now() });
+    return controller;
+  }
+
+  /**
+   * Remove the entry, but only if it still belongs to this controller
+   */
+  public finish(conversationId: string, controller: AbortController): void {
+    if (this.generations.get(conversationId)?.controller === controller) {
+      this.generations.delete(conversationId);
+    }
+  }
+
+  /**
+   * Abort the conversation's generation if it belongs to the tenant.
+   * Returns false when nothing matching is running.
+   */
+  public stop(conversationId: string, tenantId: string | null): boolean {
+    const generation = this.generations.get(conversationId);
+    if (!generation || generation.tenantId !== tenantId) {
+      return false;
+    }
+
+    generation.controller.abort();
+    this.generations.delete(conversationId);
+    console.log(`⏹️ Generation stopped for conversation ${conversationId}`);
+    return true;
+  }
+
+  public get size(): number {
+    return this.generations.size;
+  }
+}
+
+export default GenerationRegistry;
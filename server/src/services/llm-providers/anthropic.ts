@@ -0,0 +1,230 @@
+import axios from 'axios';
+import type { ChatMessage, StreamChunk } from '../llm-service.js';
+import type { LLMProviderAdapter, ProviderConfig, ProviderRequest } from './types.js';
+import { parseToolArguments, readServerSentEvents } from './stream-utils.js';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Anthropic stop reasons mapped to their OpenAI finish_reason equivalents
+const STOP_REASONS: Record<string, string> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  tool_use: 'tool_calls',
+  max_tokens: 'length',
+};
+
+type ContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, any> }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: ContentBlock[];
+}
+
+/**
+ * Adapter for Anthropic Messages-style APIs. The system prompt moves to a
+ * top-level field, tool calls and results become content blocks, and the
+ * typed stream events are folded back into OpenAI-style deltas.
+ */
+export class AnthropicAdapter implements LLMProviderAdapter {
+  public readonly name: string;
+  public readonly label: string;
+  public readonly type = 'anthropic' as const;
+  public readonly models: string[];
+  public readonly contextWindows: Record<string, number>;
+  private readonly baseUrl: string;
+  private readonly apiKey: string;
+  private readonly timeout: number;
+
+  constructor(config: ProviderConfig) {
+    this.name = config.name;
+    this.label = config.label || 'Anthropic';
+    this.models = config.models;
+    this.contextWindows = config.contextWindows || {};
+    this.baseUrl = (config.baseUrl || 'https://api.anthropic.com/v1').replace(/\/+$/, '');
+    this.apiKey = config.apiKey || '';
+    this.timeout = config.timeout ?? 60000;
+  }
+
+  public async streamChat(request: ProviderRequest): Promise<AsyncIterable<StreamChunk>> {
+    const system = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+
+    const requestBody = {
+      model: request.model,
+      ...(system && { system }),
+      messages: this.toAnthropicMessages(request.messages),
+      ...(request.tools?.length && {
+        tools: request.tools.map((tool) => ({
+          name: tool.function.name,
+          description: tool.function.description,
+          input_schema: tool.function.parameters,
+        })),
+        tool_choice: { type: request.toolChoice === 'none' ? 'none' : 'auto' },
+      }),
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 1000,
+      stream: true,
+    };
+
+    const response = await axios.post(`${this.baseUrl}/messages`, requestBody, {
+      headers: {
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json',
+      },
+      responseType: 'stream',
+      timeout: this.timeout,
+      ...(request.signal && { signal: request.signal }),
+    });
+
+    return this.parseStream(response.data);
+  }
+
+  private toAnthropicMessages(messages: ChatMessage[]): AnthropicMessage[] {
+    const result: AnthropicMessage[] = [];
+
+    for (const message of messages) {
+      if (message.role === 'system') continue;
+
+      let role: AnthropicMessage['role'];
+      const content: ContentBlock[] = [];
+
+      if (message.role === 'tool') {
+        // Tool results are sent back as user turns
+        role = 'user';
+        content.push({
+          type: 'tool_result',
+          tool_use_id: message.tool_call_id || '',
+          content: message.content,
+        });
+      } else {
+        role = message.role;
+        if (message.content) {
+          content.push({ type: 'text', text: message.content });
+        }
+        for (const toolCall of message.tool_calls || []) {
+          content.push({
+            type: 'tool_use',
+            id: toolCall.id,
+            name: toolCall.function.name,
+            input: parseToolArguments(toolCall.function.arguments),
+          });
+        }
+      }
+
+      // Consecutive turns from the same role must be merged
+      const previous = result[result.length - 1];
+      if (previous && previous.role === role) {
+        previous.content.push(...content);
+      } else {
+        result.push({ role, content });
+      }
+    }
+
+    return result;
+  }
+
+  private async *parseStream(stream: AsyncIterable<Buffer>): AsyncIterable<StreamChunk> {
+    // Anthropic numbers all content blocks; tool calls get their own index
+    const toolIndexByBlock = new Map<number, number>();
+    let promptTokens = 0;
+
+    for await (const { data } of readServerSentEvents(stream)) {
+      let event: any;
+      try {
+        event = JSON.parse(data);
+      } catch (error) {
+        console.warn(`Failed to parse ${this.name} stream event:`, data);
+        continue;
+      }
+
+      switch (event.type) {
+        case 'message_start':
+          promptTokens = event.message?.usage?.input_tokens || 0;
+          break;
+
+        case 'content_block_start':
+          if (event.content_block?.type === 'tool_use') {
+            const index = toolIndexByBlock.size;
+            toolIndexByBlock.set(event.index, index);
+            yield {
+              choices: [{
+                delta: {
+                  tool_calls: [{
+                    index,
+                    id: event.content_block.id,
+                    type: 'function',
+                    function: { name: event.content_block.name, arguments: '' },
+                  }],
+                },
+              }],
+            };
+          }
+          break;
+
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta') {
+            yield { choices: [{ delta: { content: event.delta.text } }] };
+          } else if (event.delta?.type === 'input_json_delta') {
+            const index = toolIndexByBlock.get(event.index);
+            if (index === undefined) break;
+
+            yield {
+              choices: [{
+                delta: {
+                  tool_calls: [{ index, function: { arguments: event.delta.partial_json } }],
+                },
+              }],
+            };
+          }
+          break;
+
+        case 'message_delta': {
+          const completionTokens = event.usage?.output_tokens || 0;
+          yield {
+            choices: [{
+              delta: {},
+              finish_reason: STOP_REASONS[event.delta?.stop_reason] || 'stop',
+            }],
+            usage: {
+              prompt_tokens: promptTokens,
+              completion_tokens: completionTokens,
+              total_tokens: promptTokens + completionTokens,
+            },
+          };
+          break;
+        }
+
+        case 'error':
+          throw new Error(event.error?.message || `${this.name} stream error`);
+
+        case 'message_stop':
+          return;
+      }
+    }
+  }
+
+  public async healthCheck(): Promise<boolean> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/models`, {
+        headers: {
+          'x-api-key': this.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        timeout: 5000,
+      });
+
+      return response.status === 200;
+    } catch (error) {
+      console.error(`Health check failed for ${this.name}:`, error);
+      return false;
+    }
+  }
+}
+
+export default AnthropicAdapter;
@@ -0,0 +1,108 @@
+import { AnthropicAdapter } from './anthropic.js';
+import { MockAdapter } from './mock.js';
+import { OllamaAdapter } from './ollama.js';
+import { OpenAICompatibleAdapter } from './openai-compatible.js';
+import type { LLMProviderAdapter, ProviderConfig } from './types.js';
+
+export * from './types.js';
+export { AnthropicAdapter, MockAdapter, OllamaAdapter, OpenAICompatibleAdapter };
+
+const parseModels = (value: string | undefined, fallback: string[]): string[] => {
+  const models = (value || '').split(',').map((model) => model.trim()).filter(Boolean);
+  return models.length > 0 ? models : fallback;
+};
+
+export const createProviderAdapter = (config: ProviderConfig): LLMProviderAdapter => {
+  switch (config.type) {
+    case 'openai-compatible':
+      return new OpenAICompatibleAdapter(config);
+    case 'anthropic':
+      return new AnthropicAdapter(config);
+    case 'ollama':
+      return new OllamaAdapter(config);
+    case 'mock':
+      return new MockAdapter(config);
+    default:
+      throw new Error(`Unsupported provider type: ${(config as ProviderConfig).type}`);
+  }
+};
+
+/**
+ * Provider configuration from the environment. Well-known providers are
+ * enabled by their API key (or base URL for Ollama); any other endpoint can
+ * be added through `LLM_PROVIDERS` as a JSON array of `ProviderConfig`.
+ */
+export const loadProviderConfigsFromEnv = (env: NodeJS.ProcessEnv = process.env): ProviderConfig[] => {
+  const configs: ProviderConfig[] = [];
+
+  if (env.GROQ_API_KEY) {
+    configs.push({
+      type: 'openai-compatible',
+      name: 'groq',
+      label: 'Groq',
+      apiKey: env.GROQ_API_KEY,
+      baseUrl: env.GROQ_BASE_URL || 'https://api.groq.com/openai/v1',
+      models: parseModels(env.GROQ_MODELS, [
+        'llama-3.3-70b-versatile',
+        'llama-3.1-70b-versatile',
+        'llama-3.1-8b-instant',
+        'mixtral-8x7b-32768',
+        'gemma-7b-it'
+      ]),
+    });
+  }
+
+  if (env.OPENAI_API_KEY) {
+    configs.push({
+      type: 'openai-compatible',
+      name: 'openai',
+      label: 'OpenAI',
+      apiKey: env.OPENAI_API_KEY,
+      baseUrl: env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+      models: parseModels(env.OPENAI_MODELS, ['gpt-4o-mini', 'gpt-4o']),
+    });
+  }
+
+  if (env.ANTHROPIC_API_KEY) {
+    configs.push({
+      type: 'anthropic',
+      name: 'anthropic',
+      label: 'Anthropic',
+      apiKey: env.ANTHROPIC_API_KEY,
+      baseUrl: env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com/v1',
+      models: parseModels(env.ANTHROPIC_MODELS, ['claude-3-5-haiku-latest', 'claude-3-5-sonnet-latest']),
+    });
+  }
+
+  if (env.OLLAMA_BASE_URL) {
+    configs.push({
+      type: 'ollama',
+      name: 'ollama',
+      label: 'Ollama',
+      baseUrl: env.OLLAMA_BASE_URL,
+      models: parseModels(env.OLLAMA_MODELS, ['llama3.1']),
+    });
+  }
+
+  // Scripted fixtures for offline development and tests
+  if (env.LLM_MOCK === 'true' || env.NODE_ENV === 'test') {
+    configs.push({
+      type: 'mock',
+      name: 'mock',
+      label: 'Mock (fixtures)',
+      ...(env.MOCK_LLM_FIXTURES_DIR && { fixturesDir: env.MOCK_LLM_FIXTURES_DIR }),
+      models: [],
+    });
+  }
+
+  if (env.LLM_PROVIDERS) {
+    try {
+      const extra = JSON.parse(env.LLM_PROVIDERS);
+      configs.push(...(Array.isArray(extra) ? extra : [extra]));
+    } catch (error) {
+      console.error('❌ Invalid LLM_PROVIDERS configuration:', error);
+    }
+  }
+
+  return configs;
+};
@@ -0,0 +1,239 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { AxiosError, AxiosHeaders, CanceledError } from 'axios';
+import type { ChatMessage, StreamChunk, TokenUsage } from '../llm-service.js';
+import type { LLMProviderAdapter, ProviderConfig, ProviderRequest } from './types.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_FIXTURES_DIR = path.resolve(__dirname, '../../../fixtures/llm');
+
+export type MockEvent =
+  | { content: string }
+  | { tool_call: { id?: string; name: string; arguments: Record<string, any> | string; chunks?: number } }
+  | { error: { message: string; status?: number } }
+  | { delay: number };
+
+export interface MockTurn {
+  events: MockEvent[];
+  finish_reason?: string;
+  usage?: TokenUsage;
+}
+
+export interface MockScenario {
+  name: string;
+  description?: string;
+  match?: string;
+  latencyMs?: number;
+  turns: MockTurn[];
+}
+
+/**
+ * Deterministic provider that replays scripted conversations from JSON
+ * fixtures, so the chat endpoints can run without network access or API keys.
+ *
+ * The model name selects a scenario by name; any other model picks the first
+ * scenario whose `match` pattern matches the last user message, falling back
+ * to `default`. Which turn of the scenario is replayed is derived from the
+ * number of tool rounds since that user message, so the same request always
+ * produces the same stream.
+ */
+export class MockAdapter implements LLMProviderAdapter {
+  public readonly name: string;
+  public readonly label: string;
+  public readonly type = 'mock' as const;
+  public readonly models: string[];
+  public readonly contextWindows: Record<string, number>;
+  private readonly scenarios: Map<string, MockScenario> = new Map();
+  private readonly latencyOverride: number | null;
+
+  constructor(config: ProviderConfig) {
+    this.name = config.name;
+    this.label = config.label || 'Mock';
+
+    const fixturesDir = config.fixturesDir || process.env.MOCK_LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+    for (const scenario of this.loadScenarios(fixturesDir)) {
+      this.scenarios.set(scenario.name, scenario);
+    }
+
+    this.models = config.models.length > 0 ? config.models : Array.from(this.scenarios.keys());
+    this.contextWindows = config.contextWindows || {};
+    this.latencyOverride = process.env.MOCK_LLM_LATENCY_MS ? parseInt(process.env.MOCK_LLM_LATENCY_MS) : null;
+  }
+
+  private loadScenarios(dir: string): MockScenario[] {
+    if (!fs.existsSync(dir)) {
+      console.warn(`⚠️ Mock LLM fixtures directory not found: ${dir}`);
+      return [];
+    }
+
+    return fs.readdirSync(dir)
+      .filter((file) => file.endsWith('.json'))
+      .sort()
+      .map((file) => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as MockScenario);
+  }
+
+  public async streamChat(request: ProviderRequest): Promise<AsyncIterable<StreamChunk>> {
+    const scenario = this.selectScenario(request);
+    const turnIndex = this.countToolRounds(request.messages);
+    const turn = scenario.turns[Math.min(turnIndex, scenario.turns.length - 1)];
+
+    if (!turn) {
+      throw new Error(`Mock scenario ${scenario.name} has no turns`);
+    }
+
+    // Errors scripted before any output fail the request itself, like an HTTP error would
+    const [first] = turn.events;
+    if (first && 'error' in first) {
+      throw this.createError(first.error);
+    }
+
+    return this.replay(turn, scenario.latencyMs ?? 0, request.toolChoice === 'none', request.signal);
+  }
+
+  private selectScenario(request: ProviderRequest): MockScenario {
+    const byName = this.scenarios.get(request.model);
+    if (byName) return byName;
+
+    const lastUserMessage = [...request.messages].reverse().find((message) => message.role === 'user');
+    const matched = Array.from(this.scenarios.values()).find((scenario) =>
+      scenario.match && lastUserMessage && new RegExp(scenario.match, 'i').test(lastUserMessage.content)
+    );
+
+    const scenario = matched || this.scenarios.get('default');
+    if (!scenario) {
+      throw new Error(`No mock scenario found for model ${request.model}`);
+    }
+    return scenario;
+  }
+
+  private countToolRounds(messages: ChatMessage[]): number {
+    let rounds = 0;
+
+    for (let i = messages.length - 1; i >= 0 && messages[i]!.role !== 'user'; i--) {
+      if (messages[i]!.role === 'assistant' && messages[i]!.tool_calls?.length) {
+        rounds++;
+      }
+    }
+
+    return rounds;
+  }
+
+  private async *replay(
+    turn: MockTurn,
+    latencyMs: number,
+    suppressTools: boolean,
+    signal?: AbortSignal
+  ): AsyncIterable<StreamChunk> {
+    const latency = this.latencyOverride ?? latencyMs;
+    let toolIndex = 0;
+
+    for (const event of turn.events) {
+      if ('delay' in event) {
+        await this.sleep(event.delay, signal);
+        continue;
+      }
+
+      if ('error' in event) {
+        throw this.createError(event.error);
+      }
+
+      await this.sleep(latency, signal);
+
+      if ('content' in event) {
+        yield { choices: [{ delta: { content: event.content } }] };
+        continue;
+      }
+
+      if (suppressTools) continue;
+
+      // Split the arguments to exercise the same reassembly real providers need
+      const index = toolIndex++;
+      const args = typeof event.tool_call.arguments === 'string'
+        ? event.tool_call.arguments
+        : JSON.stringify(event.tool_call.arguments);
+      const fragments = this.split(args, event.tool_call.chunks ?? 1);
+
+      for (const [i, fragment] of fragments.entries()) {
+        yield {
+          choices: [{
+            delta: {
+              tool_calls: [{
+                index,
+                ...(i === 0 && {
+                  id: event.tool_call.id || `call_mock_${index}`,
+                  type: 'function' as const,
+                }),
+                function: {
+                  ...(i === 0 && { name: event.tool_call.name }),
+                  arguments: fragment,
+                },
+              }],
+            },
+          }],
+        };
+      }
+    }
+
+    const finishReason = turn.finish_reason || (toolIndex > 0 && !suppressTools ? 'tool_calls' : 'stop');
+    yield {
+      choices: [{
+        delta: {},
+        finish_reason: suppressTools && finishReason === 'tool_calls' ? 'stop' : finishReason,
+      }],
+      ...(turn.usage && { usage: turn.usage }),
+    };
+  }
+
+  private split(value: string, parts: number): string[] {
+    if (parts <= 1 || value.length <= 1) return [value];
+
+    const size = Math.ceil(value.length / parts);
+    const fragments: string[] = [];
+    for (let i = 0; i < value.length; i += size) {
+      fragments.push(value.slice(i, i + size));
+    }
+    return fragments;
+  }
+
+  private createError(error: { message: string; status?: number }): Error {
+    if (error.status === undefined) {
+      return new Error(error.message);
+    }
+
+    // Shaped like an axios HTTP error so failover treats it like a real one
+    return new AxiosError(error.message, AxiosError.ERR_BAD_RESPONSE, undefined, undefined, {
+      status: error.status,
+      statusText: error.message,
+      data: { error: { message: error.message } },
+      headers: {},
+      config: { headers: new AxiosHeaders() },
+    });
+  }
+
+  // Behaves like an aborted HTTP stream: rejects with axios' CanceledError
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new CanceledError());
+    }
+    if (ms <= 0) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new CanceledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  public async healthCheck(): Promise<boolean> {
+    return this.scenarios.size > 0;
+  }
+}
+
+export default MockAdapter;
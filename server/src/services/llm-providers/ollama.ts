@@ -0,0 +1,142 @@
+import axios from 'axios';
+import type { ChatMessage, StreamChunk } from '../llm-service.js';
+import type { LLMProviderAdapter, ProviderConfig, ProviderRequest } from './types.js';
+import { parseToolArguments, readLines } from './stream-utils.js';
+
+/**
+ * Adapter for a local Ollama server. Ollama streams newline-delimited JSON
+ * and returns tool calls whole, with arguments as objects rather than
+ * strings, so each call is emitted as a single complete delta.
+ */
+export class OllamaAdapter implements LLMProviderAdapter {
+  public readonly name: string;
+  public readonly label: string;
+  public readonly type = 'ollama' as const;
+  public readonly models: string[];
+  public readonly contextWindows: Record<string, number>;
+  private readonly baseUrl: string;
+  private readonly timeout: number;
+
+  constructor(config: ProviderConfig) {
+    this.name = config.name;
+    this.label = config.label || 'Ollama';
+    this.models = config.models;
+    this.contextWindows = config.contextWindows || {};
+    this.baseUrl = (config.baseUrl || 'http://localhost:11434').replace(/\/+$/, '');
+    this.timeout = config.timeout ?? 120000;
+  }
+
+  public async streamChat(request: ProviderRequest): Promise<AsyncIterable<StreamChunk>> {
+    // Ollama has no tool_choice, so tools are simply withheld to force an answer
+    const sendTools = request.tools?.length && request.toolChoice !== 'none';
+
+    const requestBody = {
+      model: request.model,
+      messages: request.messages.map((message) => this.toOllamaMessage(message)),
+      ...(sendTools && { tools: request.tools }),
+      options: {
+        temperature: request.temperature ?? 0.7,
+        num_predict: request.maxTokens ?? 1000,
+      },
+      stream: true,
+    };
+
+    const response = await axios.post(`${this.baseUrl}/api/chat`, requestBody, {
+      responseType: 'stream',
+      timeout: this.timeout,
+      ...(request.signal && { signal: request.signal }),
+    });
+
+    return this.parseStream(response.data);
+  }
+
+  private toOllamaMessage(message: ChatMessage): Record<string, any> {
+    return {
+      role: message.role,
+      content: message.content,
+      ...(message.tool_calls && {
+        tool_calls: message.tool_calls.map((toolCall) => ({
+          function: {
+            name: toolCall.function.name,
+            arguments: parseToolArguments(toolCall.function.arguments),
+          },
+        })),
+      }),
+    };
+  }
+
+  private async *parseStream(stream: AsyncIterable<Buffer>): AsyncIterable<StreamChunk> {
+    let toolCallCount = 0;
+
+    for await (const line of readLines(stream)) {
+      if (!line.trim()) continue;
+
+      let parsed: any;
+      try {
+        parsed = JSON.parse(line);
+      } catch (error) {
+        console.warn(`Failed to parse ${this.name} stream line:`, line);
+        continue;
+      }
+
+      if (parsed.error) {
+        throw new Error(parsed.error);
+      }
+
+      const message = parsed.message || {};
+
+      if (message.content) {
+        yield { choices: [{ delta: { content: message.content } }] };
+      }
+
+      for (const toolCall of message.tool_calls || []) {
+        const index = toolCallCount++;
+        yield {
+          choices: [{
+            delta: {
+              tool_calls: [{
+                index,
+                id: `call_${index}`,
+                type: 'function',
+                function: {
+                  name: toolCall.function?.name || '',
+                  arguments: JSON.stringify(toolCall.function?.arguments || {}),
+                },
+              }],
+            },
+          }],
+        };
+      }
+
+      if (parsed.done) {
+        const promptTokens = parsed.prompt_eval_count || 0;
+        const completionTokens = parsed.eval_count || 0;
+
+        yield {
+          choices: [{
+            delta: {},
+            finish_reason: toolCallCount > 0 ? 'tool_calls' : (parsed.done_reason || 'stop'),
+          }],
+          usage: {
+            prompt_tokens: promptTokens,
+            completion_tokens: completionTokens,
+            total_tokens: promptTokens + completionTokens,
+          },
+        };
+        return;
+      }
+    }
+  }
+
+  public async healthCheck(): Promise<boolean> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/api/tags`, { timeout: 5000 });
+      return response.status === 200;
+    } catch (error) {
+      console.error(`Health check failed for ${this.name}:`, error);
+      return false;
+    }
+  }
+}
+
+export default OllamaAdapter;
@@ -0,0 +1,96 @@
+import axios from 'axios';
+import type { StreamChunk } from '../llm-service.js';
+import type { LLMProviderAdapter, ProviderConfig, ProviderRequest } from './types.js';
+import { readServerSentEvents } from './stream-utils.js';
+
+/**
+ * Adapter for any endpoint that speaks the OpenAI chat completions API
+ * (OpenAI, Groq, Together, vLLM, LM Studio, ...).
+ */
+export class OpenAICompatibleAdapter implements LLMProviderAdapter {
+  public readonly name: string;
+  public readonly label: string;
+  public readonly type = 'openai-compatible' as const;
+  public readonly models: string[];
+  public readonly contextWindows: Record<string, number>;
+  private readonly baseUrl: string;
+  private readonly apiKey: string;
+  private readonly timeout: number;
+
+  constructor(config: ProviderConfig) {
+    if (!config.baseUrl) {
+      throw new Error(`Provider ${config.name} requires a base URL`);
+    }
+
+    this.name = config.name;
+    this.label = config.label || config.name;
+    this.models = config.models;
+    this.contextWindows = config.contextWindows || {};
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey || '';
+    this.timeout = config.timeout ?? 60000;
+  }
+
+  public async streamChat(request: ProviderRequest): Promise<AsyncIterable<StreamChunk>> {
+    const requestBody = {
+      model: request.model,
+      messages: request.messages.map(({ timestamp, ...message }) => message),
+      ...(request.tools?.length && {
+        tools: request.tools,
+        tool_choice: request.toolChoice || 'auto',
+      }),
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 1000,
+      stream: true,
+    };
+
+    const response = await axios.post(`${this.baseUrl}/chat/completions`, requestBody, {
+      headers: {
+        ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+        'Content-Type': 'application/json',
+      },
+      responseType: 'stream',
+      timeout: this.timeout,
+      ...(request.signal && { signal: request.signal }),
+    });
+
+    return this.parseStream(response.data);
+  }
+
+  private async *parseStream(stream: AsyncIterable<Buffer>): AsyncIterable<StreamChunk> {
+    for await (const { data } of readServerSentEvents(stream)) {
+      if (data.trim() === '[DONE]') {
+        return;
+      }
+
+      try {
+        const parsed = JSON.parse(data);
+
+        // Groq reports usage in an extension field on the final chunk
+        if (!parsed.usage && parsed.x_groq?.usage) {
+          parsed.usage = parsed.x_groq.usage;
+        }
+
+        yield parsed as StreamChunk;
+      } catch (error) {
+        console.warn(`Failed to parse ${this.name} stream chunk:`, data);
+      }
+    }
+  }
+
+  public async healthCheck(): Promise<boolean> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/models`, {
+        headers: this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {},
+        timeout: 5000,
+      });
+
+      return response.status === 200;
+    } catch (error) {
+      console.error(`Health check failed for ${this.name}:`, error);
+      return false;
+    }
+  }
+}
+
+export default OpenAICompatibleAdapter;
@@ -0,0 +1,73 @@
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Read a Node stream line by line, keeping incomplete lines buffered between
+ * network chunks.
+ */
+export async function* readLines(stream: AsyncIterable<Buffer | string>): AsyncIterable<string> {
+  let buffer = '';
+
+  for await (const chunk of stream) {
+    buffer += chunk.toString();
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || ''; // Keep the last incomplete line
+
+    for (const line of lines) {
+      yield line.replace(/\r$/, '');
+    }
+  }
+
+  if (buffer) {
+    yield buffer.replace(/\r$/, '');
+  }
+}
+
+/**
+ * Parse a `text/event-stream` body into events. Multi-line `data:` fields are
+ * joined with newlines as the SSE spec requires.
+ */
+export async function* readServerSentEvents(
+  stream: AsyncIterable<Buffer | string>
+): AsyncIterable<ServerSentEvent> {
+  let event: string | undefined;
+  let data: string[] = [];
+
+  for await (const line of readLines(stream)) {
+    if (line === '') {
+      if (data.length > 0) {
+        yield { ...(event && { event }), data: data.join('\n') };
+      }
+      event = undefined;
+      data = [];
+      continue;
+    }
+
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  if (data.length > 0) {
+    yield { ...(event && { event }), data: data.join('\n') };
+  }
+}
+
+/**
+ * Arguments of an earlier assistant tool call as an object, for APIs that
+ * take them parsed. The model may have produced malformed JSON (the agent
+ * loop reports that to it as a tool error), so this falls back to `{}`.
+ */
+export const parseToolArguments = (raw: string | undefined): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
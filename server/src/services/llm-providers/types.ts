@@ -0,0 +1,45 @@
+import type { ChatMessage, StreamChunk } from '../llm-service.js';
+import type { ToolSpec } from '../tool-registry.js';
+
+export type ProviderType = 'openai-compatible' | 'anthropic' | 'ollama' | 'mock';
+
+export interface ProviderConfig {
+  type: ProviderType;
+  name: string;
+  label?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  models: string[];
+  timeout?: number;
+  // Context length per model, for models the built-in table does not know
+  contextWindows?: Record<string, number>;
+  // Mock provider only: directory of scripted conversation fixtures
+  fixturesDir?: string;
+}
+
+export interface ProviderRequest {
+  model: string;
+  messages: ChatMessage[];
+  tools?: ToolSpec[];
+  toolChoice?: 'auto' | 'none';
+  temperature?: number;
+  maxTokens?: number;
+  // Aborts the upstream request, e.g. when the widget disconnects
+  signal?: AbortSignal;
+}
+
+/**
+ * Common interface for every LLM backend. Adapters translate the request into
+ * the provider's wire format and normalize its stream into `StreamChunk`s in
+ * the OpenAI delta shape the agent loop understands.
+ */
+export interface LLMProviderAdapter {
+  readonly name: string;
+  readonly label: string;
+  readonly type: ProviderType;
+  readonly models: string[];
+  readonly contextWindows: Record<string, number>;
+
+  streamChat(request: ProviderRequest): Promise<AsyncIterable<StreamChunk>>;
+  healthCheck(): Promise<boolean>;
+}
@@ -1,16 +1,33 @@
 import axios from 'axios';
+import { createHash } from 'crypto';
+import { CircuitBreaker, CircuitState } from './circuit-breaker.js';
+import { ToolCallAssembler } from './tool-call-assembler.js';
+import { ContextReport, ContextWindowManager, getContextWindow } from './context-window.js';
+import { PromptService } from './prompt-service.js';
+import type { ToolSpec } from './tool-registry.js';
+import {
+  createProviderAdapter,
+  loadProviderConfigsFromEnv,
+  LLMProviderAdapter,
+  ProviderConfig,
+} from './llm-providers/index.js';
 
-export interface LLMProvider {
-  name: string;
-  apiKey: string;
-  baseUrl: string;
-  models: string[];
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
 }
 
 export interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
+  role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
   timestamp?: string;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+  name?: string;
 }
 
 export interface StreamChunk {
@@ -18,7 +35,9 @@ export interface StreamChunk {
     delta?: {
       content?: string;
       tool_calls?: Array<{
+        index?: number;
         id?: string;
+        type?: 'function';
         function?: {
           name?: string;
           arguments?: string;
@@ -34,28 +53,107 @@ export interface StreamChunk {
   };
 }
 
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export type ToolExecutor = (name: string, args: Record<string, any>) => Promise<unknown>;
+
+export interface AgentOptions {
+  provider?: string;
+  model?: string;
+  websiteContext?: any;
+  tools?: ToolSpec[];
+  executeTool: ToolExecutor;
+  maxToolRounds?: number;
+  providerConfigs?: ProviderConfig[];
+  fallbacks?: ModelTarget[];
+  systemPrompt?: string;
+  // Stops generation and pending tool calls; the loop then completes as 'aborted'
+  signal?: AbortSignal;
+}
+
+export interface ModelTarget {
+  provider: string;
+  model?: string;
+}
+
+export type AgentEvent =
+  | { type: 'content'; content: string }
+  | { type: 'tool_call'; tool_call_id: string; name: string; arguments: Record<string, any> }
+  | { type: 'tool_result'; tool_call_id: string; name: string; content: string }
+  | { type: 'tool_error'; tool_call_id: string; name: string; error: string }
+  | { type: 'provider_switched'; from: ModelTarget; to: ModelTarget; reason: string }
+  | {
+      type: 'completion';
+      finish_reason: string;
+      usage: TokenUsage | null;
+      tool_rounds: number;
+      provider: string;
+      model: string | null;
+      context: ContextReport | null;
+    };
+
+type FailoverItem =
+  | { chunk: StreamChunk }
+  | { switched: { from: ModelTarget; to: ModelTarget; reason: string } };
+
+export interface StreamingOptions {
+  tools?: ToolSpec[];
+  toolChoice?: 'auto' | 'none';
+  providerConfigs?: ProviderConfig[];
+  systemPrompt?: string;
+  signal?: AbortSignal;
+  // Called with what had to be dropped to fit the model's context window
+  onContextFit?: (report: ContextReport) => void;
+}
+
+export interface ProviderModels {
+  name: string;
+  label: string;
+  type: LLMProviderAdapter['type'];
+  models: string[];
+  defaultModel: string | null;
+  circuit: CircuitState;
+}
+
+const DEFAULT_MAX_TOOL_ROUNDS = 3;
+const MAX_RETRIES = parseInt(process.env.LLM_MAX_RETRIES || '2');
+const RETRY_BASE_DELAY_MS = parseInt(process.env.LLM_RETRY_BASE_DELAY_MS || '500');
+const MAX_OUTPUT_TOKENS = parseInt(process.env.LLM_MAX_OUTPUT_TOKENS || '1000');
+
+// Parse "provider:model,provider:model" into an ordered fallback chain
+export const parseFallbackChain = (value: string | undefined): ModelTarget[] => {
+  return (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [provider = '', ...model] = entry.split(':');
+      return model.length > 0 ? { provider, model: model.join(':') } : { provider };
+    });
+};
+
 export class LLMService {
-  private providers: Map<string, LLMProvider> = new Map();
+  private providers: Map<string, LLMProviderAdapter> = new Map();
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private fallbackChain: ModelTarget[] = parseFallbackChain(process.env.LLM_FALLBACK_CHAIN);
+  private contextManager = new ContextWindowManager();
+  private prompts = new PromptService();
 
-  constructor() {
-    this.initializeProviders();
+  constructor(configs: ProviderConfig[] = loadProviderConfigsFromEnv()) {
+    this.initializeProviders(configs);
   }
 
-  private initializeProviders() {
-    // Groq provider
-    if (process.env.GROQ_API_KEY) {
-      this.providers.set('groq', {
-        name: 'Groq',
-        apiKey: process.env.GROQ_API_KEY,
-        baseUrl: 'https://api.groq.com/openai/v1',
-        models: [
-          'llama-3.3-70b-versatile',
-          'llama-3.1-70b-versatile',
-          'llama-3.1-8b-instant',
-          'mixtral-8x7b-32768',
-          'gemma-7b-it'
-        ]
-      });
+  private initializeProviders(configs: ProviderConfig[]) {
+    for (const config of configs) {
+      try {
+        this.providers.set(config.name, createProviderAdapter(config));
+      } catch (error) {
+        console.error(`❌ Failed to initialize LLM provider ${config.name}:`, error);
+      }
     }
 
     console.log(`✅ LLM Service initialized with ${this.providers.size} provider(s)`);
@@ -65,144 +163,388 @@ export class LLMService {
     return Array.from(this.providers.keys());
   }
 
+  public getDefaultProvider(): string {
+    const preferred = process.env.LLM_DEFAULT_PROVIDER || 'groq';
+    if (this.providers.has(preferred)) return preferred;
+
+    return this.getAvailableProviders()[0] || preferred;
+  }
+
+  /**
+   * Resolve a provider by name. Tenant-supplied configs take precedence over
+   * the globally configured providers with the same name.
+   */
+  public getProvider(name: string, providerConfigs: ProviderConfig[] = []): LLMProviderAdapter | null {
+    const tenantConfig = providerConfigs.find((config) => config.name === name);
+    if (tenantConfig) {
+      return createProviderAdapter(tenantConfig);
+    }
+
+    return this.providers.get(name) || null;
+  }
+
+  public hasProvider(name: string, providerConfigs: ProviderConfig[] = []): boolean {
+    return this.providers.has(name) || providerConfigs.some((config) => config.name === name);
+  }
+
   public async generateStreamingResponse(
     messages: ChatMessage[],
-    provider: string = 'groq',
+    provider: string = this.getDefaultProvider(),
     model?: string,
-    websiteContext?: any
+    websiteContext?: any,
+    options: StreamingOptions = {}
   ): Promise<AsyncIterable<StreamChunk>> {
-    const llmProvider = this.providers.get(provider);
+    const llmProvider = this.getProvider(provider, options.providerConfigs);
     if (!llmProvider) {
       throw new Error(`Provider ${provider} not available`);
     }
 
     const selectedModel = model || llmProvider.models[0];
+    if (!selectedModel) {
+      throw new Error(`Provider ${provider} has no models configured`);
+    }
     console.log(`🤖 Generating response with ${provider}:${selectedModel}`);
 
-    // Create tools for Contentstack integration
-    const tools = [
-      {
-        type: 'function',
-        function: {
-          name: 'query_contentstack_content',
-          description: 'Query content from Contentstack CMS when users ask about products, articles, or other content-specific information',
-          parameters: {
-            type: 'object',
-            properties: {
-              content_type: {
-                type: 'string',
-                description: 'The content type to query (e.g., "product", "article", "event")',
-              },
-              query: {
-                type: 'string',
-                description: 'Search query to find relevant content',
-              },
-              limit: {
-                type: 'number',
-                description: 'Maximum number of results to return',
-                default: 5,
-              },
-            },
-            required: ['content_type', 'query'],
-          },
-        },
-      },
-    ];
-
-    // Enhanced system message with context awareness
+    const tools = options.tools || [];
+
+    // Tenant prompts are rendered by the caller; otherwise use the default persona
     const systemMessage = {
       role: 'system' as const,
-      content: `You are a helpful AI assistant for a website. Your main job is to help users with their questions.
+      content: options.systemPrompt ?? this.prompts.buildSystemPrompt({ websiteContext, tools }),
+    };
 
-IMPORTANT DECISION MAKING:
-- If users ask about specific content like products, articles, events, or anything that might be stored in a CMS, use the query_contentstack_content tool
-- For general questions, conversations, or requests that don't need specific content data, respond directly without using tools
-- Be smart about detecting when users want real information vs general chat
+    // Leave room for the answer, then trim the history to what still fits
+    const contextWindow = getContextWindow(selectedModel, llmProvider.contextWindows);
+    const maxTokens = Math.min(MAX_OUTPUT_TOKENS, Math.floor(contextWindow / 4));
+    const fitted = this.contextManager.fit(systemMessage, messages, { contextWindow, maxTokens });
 
-Website Context: ${websiteContext ? JSON.stringify(websiteContext) : 'Generic website'}
+    if (fitted.report.dropped_messages > 0 || fitted.report.truncated_tool_results > 0) {
+      console.log(`✂️ Trimmed context for ${provider}:${selectedModel}: dropped ${fitted.report.dropped_messages} message(s), truncated ${fitted.report.truncated_tool_results} tool result(s)`);
+    }
+    options.onContextFit?.(fitted.report);
 
-Examples of when to use tools:
-- "Show me your products" → Use tool with content_type="product"
-- "What's your return policy?" → Use tool with content_type="article", query="return policy"
-- "Hello, how are you?" → Respond directly, no tool needed
-- "What's the weather like?" → Respond directly, no tool needed
+    try {
+      return await llmProvider.streamChat({
+        model: selectedModel,
+        messages: fitted.messages,
+        tools,
+        ...(options.toolChoice && { toolChoice: options.toolChoice }),
+        temperature: 0.7,
+        maxTokens,
+        ...(options.signal && { signal: options.signal }),
+      });
+    } catch (error) {
+      console.error('❌ LLM API Error:', error instanceof Error ? error.message : error);
+      // Rethrow as-is so the failover logic can inspect the HTTP status
+      throw error instanceof Error ? error : new Error('Failed to generate response');
+    }
+  }
 
-Always be helpful, friendly, and provide accurate information based on the tools available.`
-    };
+  /**
+   * Run the tool-calling agent loop: stream the model's answer, execute any
+   * tool calls it makes, feed the results back as `tool` messages and
+   * re-invoke the provider until it produces a final answer.
+   */
+  public async *runAgent(
+    messages: ChatMessage[],
+    options: AgentOptions
+  ): AsyncIterable<AgentEvent> {
+    const { websiteContext, tools, executeTool, providerConfigs, systemPrompt, signal } = options;
+    const maxToolRounds = options.maxToolRounds ?? DEFAULT_MAX_TOOL_ROUNDS;
+    const conversation: ChatMessage[] = [...messages];
+    const chain = this.buildChain(
+      { provider: options.provider || this.getDefaultProvider(), ...(options.model && { model: options.model }) },
+      options.fallbacks
+    );
+    const active = { index: 0 };
+    const context: { report: ContextReport | null } = { report: null };
+    let usage: TokenUsage | null = null;
 
-    const requestBody = {
-      model: selectedModel,
-      messages: [systemMessage, ...messages],
-      tools,
-      tool_choice: 'auto',
-      temperature: 0.7,
-      max_tokens: 1000,
-      stream: true,
+    const completion = (finishReason: string, round: number): AgentEvent => {
+      const answeredBy = chain[active.index]!;
+      return {
+        type: 'completion',
+        finish_reason: finishReason,
+        usage,
+        tool_rounds: round,
+        provider: answeredBy.provider,
+        model: answeredBy.model || this.getProvider(answeredBy.provider, providerConfigs)?.models[0] || null,
+        context: context.report,
+      };
     };
 
-    try {
-      const response = await axios.post(
-        `${llmProvider.baseUrl}/chat/completions`,
-        requestBody,
+    for (let round = 0; ; round++) {
+      // Once the tool budget is spent, force the model to answer with what it has
+      const toolChoice = round < maxToolRounds ? 'auto' : 'none';
+      const stream = this.streamWithFailover(
+        conversation,
+        chain,
+        active,
+        websiteContext,
         {
-          headers: {
-            'Authorization': `Bearer ${llmProvider.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-          responseType: 'stream',
+          ...(tools && { tools }),
+          ...(providerConfigs && { providerConfigs }),
+          ...(systemPrompt && { systemPrompt }),
+          ...(signal && { signal }),
+          toolChoice,
+          onContextFit: (report) => { context.report = report; },
         }
       );
 
-      return this.parseStreamResponse(response.data);
-    } catch (error) {
-      console.error('❌ LLM API Error:', error);
-      throw new Error(
-        error instanceof Error ? error.message : 'Failed to generate response'
+      let content = '';
+      let finishReason = 'stop';
+      const assembler = new ToolCallAssembler();
+
+      try {
+        for await (const item of stream) {
+          // Stop reading even if the provider keeps the connection open
+          if (signal?.aborted) break;
+
+          if ('switched' in item) {
+            yield { type: 'provider_switched', ...item.switched };
+            continue;
+          }
+
+          const { chunk } = item;
+          if (chunk.usage) {
+            usage = this.addUsage(usage, chunk.usage);
+          }
+
+          const choice = chunk.choices?.[0];
+          if (!choice) continue;
+
+          if (choice.delta?.content) {
+            content += choice.delta.content;
+            yield { type: 'content', content: choice.delta.content };
+          }
+
+          // Argument fragments are only usable once the whole turn has arrived
+          assembler.pushChunk(chunk);
+
+          if (choice.finish_reason) {
+            finishReason = choice.finish_reason;
+          }
+        }
+      } catch (error) {
+        // A cancelled request surfaces as a stream error; anything else is real
+        if (!signal?.aborted) throw error;
+      }
+
+      if (signal?.aborted) {
+        yield completion('aborted', round);
+        return;
+      }
+
+      if (!assembler.end() || toolChoice === 'none') {
+        yield completion(finishReason, round);
+        return;
+      }
+
+      const toolCalls = assembler.getToolCalls();
+      conversation.push({ role: 'assistant', content, tool_calls: toolCalls });
+
+      const parsedCalls = toolCalls.map((toolCall) => {
+        try {
+          return { toolCall, args: JSON.parse(toolCall.function.arguments || '{}') as Record<string, any> };
+        } catch {
+          return { toolCall, args: null };
+        }
+      });
+
+      for (const { toolCall, args } of parsedCalls) {
+        if (args) {
+          yield { type: 'tool_call', tool_call_id: toolCall.id, name: toolCall.function.name, arguments: args };
+        }
+      }
+
+      // Parallel tool calls from the same turn run concurrently
+      const results = await Promise.allSettled(
+        parsedCalls.map(({ toolCall, args }) => {
+          if (!args) {
+            return Promise.reject(new Error(`Invalid arguments for tool ${toolCall.function.name}`));
+          }
+          return executeTool(toolCall.function.name, args);
+        })
       );
+
+      if (signal?.aborted) {
+        yield completion('aborted', round + 1);
+        return;
+      }
+
+      for (const [i, { toolCall }] of parsedCalls.entries()) {
+        const name = toolCall.function.name;
+        const result = results[i]!;
+
+        if (result.status === 'fulfilled') {
+          const value = result.value;
+          const resultContent = typeof value === 'string' ? value : JSON.stringify(value);
+
+          conversation.push({ role: 'tool', tool_call_id: toolCall.id, name, content: resultContent });
+          yield { type: 'tool_result', tool_call_id: toolCall.id, name, content: resultContent };
+        } else {
+          const message = result.reason instanceof Error ? result.reason.message : 'Unknown error';
+          console.error(`❌ Tool ${name} failed:`, result.reason);
+
+          // Let the model know the tool failed so it can recover in its answer
+          conversation.push({
+            role: 'tool',
+            tool_call_id: toolCall.id,
+            name,
+            content: JSON.stringify({ error: message }),
+          });
+          yield { type: 'tool_error', tool_call_id: toolCall.id, name, error: message };
+        }
+      }
     }
   }
 
-  private async *parseStreamResponse(stream: any): AsyncIterable<StreamChunk> {
-    return new Promise<AsyncIterable<StreamChunk>>((resolve, reject) => {
-      const iterator = this.createStreamIterator(stream);
-      resolve(iterator);
-    });
+  private buildChain(primary: ModelTarget, fallbacks: ModelTarget[] = this.fallbackChain): ModelTarget[] {
+    const chain = [primary];
+
+    for (const target of fallbacks) {
+      const duplicate = chain.some((existing) =>
+        existing.provider === target.provider && (existing.model || null) === (target.model || null)
+      );
+      if (!duplicate) chain.push(target);
+    }
+
+    return chain;
   }
 
-  private async *createStreamIterator(stream: any): AsyncIterable<StreamChunk> {
-    let buffer = '';
+  /**
+   * Stream from the active target of the chain, retrying with exponential
+   * backoff and then falling through to the next target. Once a chunk has
+   * been passed downstream the answer is committed to that model, so later
+   * failures are rethrown instead of retried.
+   */
+  private async *streamWithFailover(
+    messages: ChatMessage[],
+    chain: ModelTarget[],
+    active: { index: number },
+    websiteContext: any,
+    options: StreamingOptions
+  ): AsyncIterable<FailoverItem> {
+    let lastError: unknown = null;
 
-    for await (const chunk of stream) {
-      buffer += chunk.toString();
-      
-      // Split by newlines to process complete messages
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || ''; // Keep the last incomplete line
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6).trim();
-          
-          if (data === '[DONE]') {
-            return;
+    for (let index = active.index; index < chain.length; index++) {
+      const target = chain[index]!;
+      const breaker = this.getBreaker(target.provider, options.providerConfigs);
+
+      if (!breaker.canRequest()) {
+        console.warn(`⚠️ Skipping ${target.provider}: circuit is open`);
+        lastError = new Error(`Provider ${target.provider} is temporarily unavailable`);
+        continue;
+      }
+
+      if (index !== active.index) {
+        const from = chain[active.index]!;
+        const reason = lastError instanceof Error ? lastError.message : 'Provider unavailable';
+        console.warn(`🔀 Switching from ${from.provider}:${from.model || 'default'} to ${target.provider}:${target.model || 'default'}`);
+
+        active.index = index;
+        yield { switched: { from, to: target, reason } };
+      }
+
+      for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+        let started = false;
+        options.signal?.throwIfAborted();
+
+        try {
+          const stream = await this.generateStreamingResponse(
+            messages,
+            target.provider,
+            target.model,
+            websiteContext,
+            options
+          );
+
+          for await (const chunk of stream) {
+            started = true;
+            yield { chunk };
           }
 
-          try {
-            const parsed = JSON.parse(data);
-            yield parsed as StreamChunk;
-          } catch (error) {
-            console.warn('Failed to parse stream chunk:', data);
-            continue;
+          breaker.recordSuccess();
+          return;
+        } catch (error) {
+          // Cancellation is ours, not the provider's: no retry, no failover
+          if (options.signal?.aborted) {
+            throw error;
+          }
+
+          lastError = error;
+
+          if (this.isProviderFault(error)) {
+            breaker.recordFailure();
           }
+
+          if (started) {
+            throw error;
+          }
+
+          if (!this.isRetryable(error) || attempt === MAX_RETRIES || !breaker.canRequest()) {
+            break;
+          }
+
+          const delay = RETRY_BASE_DELAY_MS * 2 ** attempt + Math.floor(Math.random() * RETRY_BASE_DELAY_MS);
+          console.warn(`🔁 Retrying ${target.provider} in ${delay}ms (attempt ${attempt + 2}/${MAX_RETRIES + 1})`);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        } finally {
+          // Cancelled and rejected requests say nothing about the provider's health
+          breaker.releaseTrial();
         }
       }
     }
+
+    throw lastError instanceof Error ? lastError : new Error('All LLM providers failed');
+  }
+
+  /**
+   * Circuit of a provider as configured for the request. Tenant configs get
+   * their own circuit per endpoint and key, so one tenant's outage or bad
+   * settings never open the circuit of another tenant or of the platform.
+   */
+  private getBreaker(provider: string, providerConfigs: ProviderConfig[] = []): CircuitBreaker {
+    const tenantConfig = providerConfigs.find((config) => config.name === provider);
+    const key = tenantConfig
+      ? `${provider}:${createHash('sha256').update([tenantConfig.type, tenantConfig.baseUrl || '', tenantConfig.apiKey || ''].join('\n')).digest('hex').slice(0, 16)}`
+      : provider;
+
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(provider);
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  // Network errors, rate limits and server errors are worth another attempt
+  private isRetryable(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) return false;
+
+    const status = error.response?.status;
+    return status === undefined || status === 429 || status >= 500;
+  }
+
+  // Outages count against the circuit; auth errors are a configuration problem, not an outage
+  private isProviderFault(error: unknown): boolean {
+    return this.isRetryable(error);
+  }
+
+  private addUsage(total: TokenUsage | null, usage: TokenUsage): TokenUsage {
+    if (!total) return { ...usage };
+
+    return {
+      prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+      completion_tokens: total.completion_tokens + usage.completion_tokens,
+      total_tokens: total.total_tokens + usage.total_tokens,
+    };
   }
 
   // Non-streaming version for simple use cases
   public async generateResponse(
     messages: ChatMessage[],
-    provider: string = 'groq',
+    provider: string = this.getDefaultProvider(),
     model?: string,
     websiteContext?: any
   ): Promise<string> {
@@ -222,37 +564,51 @@ Always be helpful, friendly, and provide accurate information based on the tools
   // Health check method
   public async healthCheck(): Promise<{ [provider: string]: boolean }> {
     const results: { [provider: string]: boolean } = {};
-    
-    for (const [name, provider] of this.providers) {
-      try {
-        const response = await axios.get(`${provider.baseUrl}/models`, {
-          headers: {
-            'Authorization': `Bearer ${provider.apiKey}`,
-          },
-          timeout: 5000,
-        });
-        
-        results[name] = response.status === 200;
-      } catch (error) {
-        console.error(`Health check failed for ${name}:`, error);
-        results[name] = false;
-      }
-    }
-    
+
+    await Promise.all(
+      Array.from(this.providers.entries()).map(async ([name, provider]) => {
+        results[name] = await provider.healthCheck();
+
+        // Health checks feed the same circuit as live calls
+        if (results[name]) {
+          this.getBreaker(name).recordSuccess();
+        } else {
+          this.getBreaker(name).recordFailure();
+        }
+      })
+    );
+
     return results;
   }
 
   // Get model information
-  public getModelInfo(provider: string = 'groq'): { models: string[]; default: string } | null {
+  public getModelInfo(provider: string = this.getDefaultProvider()): { models: string[]; default: string } | null {
     const llmProvider = this.providers.get(provider);
-    if (!llmProvider) return null;
-    
+    if (!llmProvider?.models[0]) return null;
+
     return {
       models: llmProvider.models,
       default: llmProvider.models[0],
     };
   }
 
+  // List every model of every provider, including tenant-configured ones
+  public listModels(providerConfigs: ProviderConfig[] = []): ProviderModels[] {
+    const names = new Set([...this.providers.keys(), ...providerConfigs.map((config) => config.name)]);
+
+    return Array.from(names)
+      .map((name) => this.getProvider(name, providerConfigs))
+      .filter((provider): provider is LLMProviderAdapter => provider !== null)
+      .map((provider) => ({
+        name: provider.name,
+        label: provider.label,
+        type: provider.type,
+        models: provider.models,
+        defaultModel: provider.models[0] || null,
+        circuit: this.getBreaker(provider.name, providerConfigs).getState(),
+      }));
+  }
+
   // Validate API keys on startup
   public async validateProviders(): Promise<void> {
     console.log('🔍 Validating LLM providers...');
@@ -0,0 +1,122 @@
+import type { TenantRecord } from './database-service.js';
+
+/**
+ * Maps what the visitor's browser or page says about their language onto the
+ * Contentstack locales a tenant publishes. Contentstack codes are lowercase
+ * (`en-us`, `fr-fr`); visitors send anything from `fr` to `fr_CA` to a full
+ * Accept-Language header.
+ */
+
+// Stored as `widget_config.locales`, e.g. { supported: ['en-us', 'fr-fr'], default: 'en-us' }
+export interface LocaleSettings {
+  supported: string[];
+  default: string;
+}
+
+export interface ResolvedLocale {
+  // Contentstack locale content is fetched in
+  locale: string;
+  // Tried in order when nothing is published in `locale`
+  fallbacks: string[];
+  // What the visitor asked for, normalized; null when they did not say
+  language: string | null;
+}
+
+const DEFAULT_LOCALE = 'en-us';
+const MAX_LOCALES = 10;
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/;
+
+// `fr_CA` -> `fr-ca`; null for anything that is not a language tag
+export const normalizeLocale = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const code = value.trim().toLowerCase().replace(/_/g, '-');
+  return LOCALE_PATTERN.test(code) ? code : null;
+};
+
+const baseLanguage = (locale: string): string => locale.split('-')[0]!;
+
+// Language tags of an Accept-Language header, most preferred first
+export const parseAcceptLanguage = (header: string | undefined): string[] => {
+  if (!header) return [];
+
+  return header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const quality = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+      return { tag: normalizeLocale(tag), quality: quality ? parseFloat(quality.slice(2)) : 1, index };
+    })
+    .filter((item): item is { tag: string; quality: number; index: number } => !!item.tag && item.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map((item) => item.tag);
+};
+
+const toSettings = (supported: unknown, fallback: unknown): LocaleSettings | null => {
+  const locales = Array.isArray(supported)
+    ? Array.from(new Set(supported.map(normalizeLocale).filter((locale): locale is string => !!locale))).slice(0, MAX_LOCALES)
+    : [];
+  if (locales.length === 0) return null;
+
+  const preferred = normalizeLocale(fallback);
+  return { supported: locales, default: preferred && locales.includes(preferred) ? preferred : locales[0]! };
+};
+
+/**
+ * The tenant's locales (`widget_config.locales`), else CONTENTSTACK_LOCALES
+ * and CONTENTSTACK_DEFAULT_LOCALE, else English only
+ */
+export const getLocaleSettings = (tenant?: TenantRecord | null): LocaleSettings => {
+  const configured = tenant?.widget_config?.locales;
+  return (
+    toSettings(configured?.supported, configured?.default) ||
+    toSettings((process.env.CONTENTSTACK_LOCALES || '').split(','), process.env.CONTENTSTACK_DEFAULT_LOCALE) ||
+    { supported: [DEFAULT_LOCALE], default: DEFAULT_LOCALE }
+  );
+};
+
+/**
+ * Pick the locale for a visitor: the first requested language the tenant
+ * publishes exactly, else one in the same language (`fr-ca` -> `fr-fr`), else
+ * the default. Fallbacks are the other locales of that language, then the
+ * default.
+ */
+export const resolveLocale = (requested: string | string[] | null | undefined, settings: LocaleSettings): ResolvedLocale => {
+  const candidates = (Array.isArray(requested) ? requested : [requested])
+    .map(normalizeLocale)
+    .filter((locale): locale is string => !!locale);
+
+  let locale = settings.default;
+  for (const candidate of candidates) {
+    const match =
+      settings.supported.find((supported) => supported === candidate) ||
+      settings.supported.find((supported) => baseLanguage(supported) === baseLanguage(candidate));
+    if (match) {
+      locale = match;
+      break;
+    }
+  }
+
+  const fallbacks = [
+    ...settings.supported.filter((supported) => supported !== locale && baseLanguage(supported) === baseLanguage(locale)),
+    ...(locale !== settings.default ? [settings.default] : []),
+  ];
+
+  return { locale, fallbacks: Array.from(new Set(fallbacks)), language: candidates[0] || null };
+};
+
+// Every locale to try, preferred first
+export const toLocaleChain = (resolved: ResolvedLocale): string[] => [resolved.locale, ...resolved.fallbacks];
+
+// Readable name for prompts, e.g. `fr-ca` -> "French (Canada)"; the code itself when unknown
+export const describeLocale = (locale: string): string => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(locale) || locale;
+  } catch {
+    return locale;
+  }
+};
+
+// Whether content in `locale` is in a different language than the visitor's
+export const needsTranslation = (resolved: ResolvedLocale): boolean => {
+  return !!resolved.language && baseLanguage(resolved.language) !== baseLanguage(resolved.locale);
+};
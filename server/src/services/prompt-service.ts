@@ -0,0 +1,290 @@
+import { AppError } from '../middleware/error-handler.js';
+import type { TenantRecord } from './database-service.js';
+import { describeLocale, needsTranslation, ResolvedLocale } from './locale-resolver.js';
+import type { ToolSpec } from './tool-registry.js';
+
+export interface PromptExample {
+  question: string;
+  answer: string;
+}
+
+export interface PersonaConfig {
+  name?: string;
+  role?: string;
+  tone?: string;
+  instructions?: string;
+  forbiddenTopics?: string[];
+  escalation?: string;
+  examples?: PromptExample[];
+}
+
+export interface PromptVersion {
+  version: number;
+  persona: PersonaConfig;
+  createdAt: string;
+  createdBy?: string;
+  note?: string;
+}
+
+// Stored as `widget_config.prompts`
+export interface TenantPromptConfig {
+  activeVersion: number | null;
+  versions: PromptVersion[];
+}
+
+export interface BuildPromptOptions {
+  persona?: PersonaConfig | null;
+  websiteContext?: any;
+  tools?: ToolSpec[];
+  siteName?: string;
+  // The visitor's language and the locale content is retrieved in
+  locale?: ResolvedLocale | null;
+}
+
+export type TemplateVariables = Record<string, string>;
+
+const TEMPLATE_VARIABLES = ['assistantName', 'siteName', 'domain', 'businessType', 'language', 'timezone', 'currentDate'];
+const MAX_VARIABLE_LENGTH = 200;
+const MAX_TEMPLATE_LENGTH = 4000;
+const MAX_EXAMPLES = 10;
+const MAX_FORBIDDEN_TOPICS = 50;
+const MAX_VERSIONS = 20;
+// Described separately from the content tools
+const HANDOFF_TOOL = 'escalate_to_human';
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z]+)\s*(?:\|\s*"([^"]*)"\s*)?\}\}/g;
+
+/**
+ * Minimal template renderer: `{{ name }}` or `{{ name | "fallback" }}`.
+ * Only whitelisted variables are substituted and nothing is evaluated, so
+ * tenant templates and client-supplied website context cannot run code or
+ * smuggle in further placeholders.
+ */
+export const renderTemplate = (template: string, variables: TemplateVariables): string => {
+  return template.replace(PLACEHOLDER, (_, name: string, fallback?: string) => {
+    const value = variables[name];
+    return value ? value : fallback ?? '';
+  });
+};
+
+// Unknown placeholder names in a template, for validation before saving
+export const findUnknownVariables = (template: string): string[] => {
+  const unknown = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    if (!TEMPLATE_VARIABLES.includes(match[1]!)) unknown.add(match[1]!);
+  }
+  return Array.from(unknown);
+};
+
+// Website context comes from the browser, so values are flattened and capped
+const sanitizeValue = (value: unknown): string => {
+  if (typeof value !== 'string' && typeof value !== 'number') return '';
+
+  return String(value)
+    .replace(/[{}]/g, '')
+    .replace(/[\u0000-\u001f\u007f]+/g, ' ')
+    .trim()
+    .slice(0, MAX_VARIABLE_LENGTH);
+};
+
+const formatDate = (timezone: string): string => {
+  try {
+    return new Date().toLocaleDateString('en-US', {
+      timeZone: timezone || 'UTC',
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  } catch {
+    return new Date().toDateString();
+  }
+};
+
+/**
+ * Builds the system prompt from a tenant's persona (versioned in
+ * `widget_config.prompts`) and the website context of the request.
+ */
+export class PromptService {
+  public getPromptConfig(tenant?: TenantRecord | null): TenantPromptConfig {
+    const config = tenant?.widget_config?.prompts;
+    return {
+      activeVersion: config?.activeVersion ?? null,
+      versions: Array.isArray(config?.versions) ? config.versions : [],
+    };
+  }
+
+  public getVersion(tenant: TenantRecord | null | undefined, version?: number): PromptVersion | null {
+    const config = this.getPromptConfig(tenant);
+    const wanted = version ?? config.activeVersion;
+    return config.versions.find((candidate) => candidate.version === wanted) || null;
+  }
+
+  public buildForTenant(tenant: TenantRecord | null | undefined, websiteContext?: any, tools?: ToolSpec[], locale?: ResolvedLocale): string {
+    return this.buildSystemPrompt({
+      persona: this.getVersion(tenant)?.persona || null,
+      websiteContext,
+      ...(tools && { tools }),
+      ...(tenant?.name && { siteName: tenant.name }),
+      ...(locale && { locale }),
+    });
+  }
+
+  public getVariables(options: BuildPromptOptions): TemplateVariables {
+    const context = options.websiteContext || {};
+    const timezone = sanitizeValue(context.timezone);
+
+    return {
+      assistantName: sanitizeValue(options.persona?.name) || 'the website assistant',
+      siteName: sanitizeValue(options.siteName || context.domain) || 'this website',
+      domain: sanitizeValue(context.domain),
+      businessType: sanitizeValue(context.businessType),
+      language: sanitizeValue(options.locale?.language ? describeLocale(options.locale.language) : context.language),
+      timezone,
+      currentDate: formatDate(timezone),
+    };
+  }
+
+  public buildSystemPrompt(options: BuildPromptOptions): string {
+    const persona = options.persona || {};
+    const tools = (options.tools || []).filter((tool) => tool.function.name !== HANDOFF_TOOL);
+    const canHandOff = !!options.tools?.some((tool) => tool.function.name === HANDOFF_TOOL);
+    const vars = this.getVariables(options);
+    const render = (template: string) => renderTemplate(template, vars);
+
+    const sections: string[] = [];
+
+    sections.push(persona.name || persona.role
+      ? render(`You are ${persona.name ? '{{ assistantName }}' : 'an AI assistant'}${persona.role ? `, ${persona.role}` : ''}, for {{ siteName }}.`)
+      : 'You are a helpful AI assistant for a website. Your main job is to help users with their questions.');
+
+    if (persona.tone) {
+      sections.push(`Tone: ${render(persona.tone)}`);
+    }
+
+    sections.push(`IMPORTANT DECISION MAKING:
+- If users ask about specific content like products, articles, events, or anything that might be stored in a CMS, use one of the available tools${tools.length ? ` (${tools.map((tool) => tool.function.name).join(', ')})` : ''}
+- For general questions, conversations, or requests that don't need specific content data, respond directly without using tools
+- Be smart about detecting when users want real information vs general chat
+- When a tool returns results, base your answer on that data and do not invent details it does not contain
+- Each entry in a tool result has a \`citation\` number. Cite the entries you use inline as [n] right after the statement they support, e.g. "The jacket is waterproof [2]." Only cite numbers that appear in tool results${canHandOff ? `
+- If the user asks to talk to a person, or needs something you cannot do with the available information, use ${HANDOFF_TOOL} and tell them a team member will join shortly` : ''}`);
+
+    const contextLines = [
+      vars.domain && `- Website: ${vars.domain}`,
+      vars.businessType && `- Business type: ${vars.businessType}`,
+      vars.language && `- Reply in ${vars.language} unless the user writes in another language`,
+      options.locale && needsTranslation(options.locale) && `- Content is published in ${describeLocale(options.locale.locale)}; translate what you use from tool results into the reply language`,
+      vars.timezone && `- Timezone: ${vars.timezone} (today is ${vars.currentDate})`,
+    ].filter(Boolean);
+    sections.push(`Website Context:\n${contextLines.length ? contextLines.join('\n') : '- Generic website'}`);
+
+    if (persona.instructions) {
+      sections.push(`Instructions:\n${render(persona.instructions)}`);
+    }
+
+    if (persona.forbiddenTopics?.length) {
+      sections.push(`Do not discuss the following topics. If asked, politely decline and offer help with something else:\n${persona.forbiddenTopics.map((topic) => `- ${topic}`).join('\n')}`);
+    }
+
+    if (persona.escalation) {
+      sections.push(`Escalation:\n${render(persona.escalation)}`);
+    }
+
+    if (persona.examples?.length) {
+      sections.push(`Example answers:\n${persona.examples.map((example) => `Q: ${example.question}\nA: ${render(example.answer)}`).join('\n\n')}`);
+    }
+
+    sections.push(`Examples of when to use tools:
+- "Show me your products" → Use tool with content_type="product"
+- "What's your return policy?" → Use tool with content_type="article", query="return policy"
+- "Hello, how are you?" → Respond directly, no tool needed
+- "What's the weather like?" → Respond directly, no tool needed
+
+Always be helpful, friendly, and provide accurate information based on the tools available.`);
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Reject personas that would not render cleanly; returns the normalized persona
+   */
+  public validatePersona(input: any): PersonaConfig {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      throw new AppError('Persona must be an object', 400);
+    }
+
+    const persona: PersonaConfig = {};
+    const textFields = ['name', 'role', 'tone', 'instructions', 'escalation'] as const;
+
+    for (const field of textFields) {
+      const value = input[field];
+      if (value === undefined || value === null || value === '') continue;
+      if (typeof value !== 'string' || value.length > MAX_TEMPLATE_LENGTH) {
+        throw new AppError(`Persona ${field} must be a string of at most ${MAX_TEMPLATE_LENGTH} characters`, 400);
+      }
+
+      const unknown = findUnknownVariables(value);
+      if (unknown.length > 0) {
+        throw new AppError(`Unknown template variable(s) in ${field}: ${unknown.join(', ')}`, 400, { allowed: TEMPLATE_VARIABLES });
+      }
+      persona[field] = value;
+    }
+
+    if (input.forbiddenTopics !== undefined) {
+      if (!Array.isArray(input.forbiddenTopics) || input.forbiddenTopics.length > MAX_FORBIDDEN_TOPICS ||
+          input.forbiddenTopics.some((topic: unknown) => typeof topic !== 'string' || !topic.trim())) {
+        throw new AppError(`Forbidden topics must be a list of at most ${MAX_FORBIDDEN_TOPICS} strings`, 400);
+      }
+      persona.forbiddenTopics = input.forbiddenTopics.map((topic: string) => topic.trim());
+    }
+
+    if (input.examples !== undefined) {
+      if (!Array.isArray(input.examples) || input.examples.length > MAX_EXAMPLES ||
+          input.examples.some((example: any) => typeof example?.question !== 'string' || typeof example?.answer !== 'string')) {
+        throw new AppError(`Examples must be a list of at most ${MAX_EXAMPLES} { question, answer } pairs`, 400);
+      }
+      persona.examples = input.examples.map((example: PromptExample) => ({ question: example.question, answer: example.answer }));
+    }
+
+    return persona;
+  }
+
+  /**
+   * Append a new persona version; older versions beyond MAX_VERSIONS are pruned
+   * unless they are the active one.
+   */
+  public addVersion(
+    config: TenantPromptConfig,
+    persona: PersonaConfig,
+    options: { activate?: boolean; createdBy?: string; note?: string } = {}
+  ): { config: TenantPromptConfig; version: PromptVersion } {
+    const latest = config.versions.reduce((max, candidate) => Math.max(max, candidate.version), 0);
+    const version: PromptVersion = {
+      version: latest + 1,
+      persona,
+      createdAt: new Date().toISOString(),
+      ...(options.createdBy && { createdBy: options.createdBy }),
+      ...(options.note && { note: options.note }),
+    };
+
+    const activeVersion = options.activate ? version.version : config.activeVersion;
+    let versions = [...config.versions, version];
+    while (versions.length > MAX_VERSIONS) {
+      const removable = versions.findIndex((candidate) => candidate.version !== activeVersion);
+      if (removable === -1) break;
+      versions = versions.filter((_, index) => index !== removable);
+    }
+
+    return { config: { activeVersion, versions }, version };
+  }
+
+  public activateVersion(config: TenantPromptConfig, version: number): TenantPromptConfig {
+    if (!config.versions.some((candidate) => candidate.version === version)) {
+      throw new AppError(`Prompt version ${version} not found`, 404);
+    }
+    return { ...config, activeVersion: version };
+  }
+}
+
+export default PromptService;
@@ -0,0 +1,180 @@
+import crypto from 'crypto';
+import { isIP } from 'net';
+import { AppError } from '../middleware/error-handler.js';
+import type { TenantRecord } from './database-service.js';
+import type { ProviderConfig, ProviderType } from './llm-providers/index.js';
+
+/**
+ * Tenant LLM provider credentials. The provider list itself lives in
+ * `widget_config.ai.providers`; the API keys are kept apart, encrypted in the
+ * tenant's `provider_secrets` column with SECRETS_ENCRYPTION_KEY.
+ */
+
+// API keys by provider name
+export type ProviderSecrets = Record<string, { apiKey: string }>;
+
+const ALGORITHM = 'aes-256-gcm';
+const FORMAT_VERSION = 'v1';
+
+const getKey = (): Buffer | null => {
+  const secret = process.env.SECRETS_ENCRYPTION_KEY;
+  return secret ? crypto.createHash('sha256').update(secret).digest() : null;
+};
+
+// `v1:<iv>:<auth tag>:<ciphertext>`, base64 parts; null when there is nothing to store
+export const encryptProviderSecrets = (secrets: ProviderSecrets): string | null => {
+  if (Object.keys(secrets).length === 0) return null;
+
+  const key = getKey();
+  if (!key) {
+    throw new AppError('Provider API keys cannot be stored: SECRETS_ENCRYPTION_KEY is not configured', 500);
+  }
+
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()]);
+
+  return [FORMAT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64')))
+    .join(':');
+};
+
+export const decryptProviderSecrets = (payload: string | null | undefined): ProviderSecrets => {
+  if (!payload) return {};
+
+  const key = getKey();
+  const [version, iv, tag, ciphertext] = payload.split(':');
+  if (!key || version !== FORMAT_VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Provider secrets cannot be decrypted with the configured SECRETS_ENCRYPTION_KEY');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+  return JSON.parse(plaintext.toString('utf8'));
+};
+
+// Provider types tenants may configure; `mock` reads fixture files from the server's disk
+const TENANT_PROVIDER_TYPES: ProviderType[] = ['openai-compatible', 'anthropic', 'ollama'];
+
+// Hosts that only make sense from inside our network, by name or as written IP literal
+const isPrivateHost = (hostname: string): boolean => {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (host === 'localhost' || /\.(localhost|local|internal)$/.test(host) || (!host.includes('.') && !isIP(host))) {
+    return true;
+  }
+
+  if (isIP(host) === 4) {
+    const [a, b] = host.split('.').map(Number) as [number, number];
+    return a === 0 || a === 10 || a === 127 || (a === 100 && b >= 64 && b < 128) || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b < 32) || (a === 192 && b === 168) || a >= 224;
+  }
+
+  if (isIP(host) === 6) {
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(host);
+    if (mapped) return isPrivateHost(mapped[1]!);
+    return host === '::' || host === '::1' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) || host.startsWith('::ffff:');
+  }
+
+  return false;
+};
+
+/**
+ * Problems with a provider config a tenant wants to save; empty when it may be
+ * used. Only the hosted provider types, over http(s) to public hosts, so a
+ * tenant cannot make the server read local files or call internal services.
+ */
+export const checkTenantProviderConfig = (config: any): string[] => {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) return ['Provider config must be an object'];
+
+  const problems: string[] = [];
+  if (typeof config.name !== 'string' || !config.name.trim() || config.name.length > 100) {
+    problems.push('Provider name must be a string of 1-100 characters');
+  }
+  if (!TENANT_PROVIDER_TYPES.includes(config.type)) {
+    problems.push(`Provider type must be one of ${TENANT_PROVIDER_TYPES.join(', ')}`);
+  }
+  if ('fixturesDir' in config) {
+    problems.push('fixturesDir is not allowed in tenant provider configs');
+  }
+  if (!Array.isArray(config.models) || !config.models.every((model: unknown) => typeof model === 'string')) {
+    problems.push('Provider models must be a list of model names');
+  }
+  if (config.apiKey !== undefined && typeof config.apiKey !== 'string') {
+    problems.push('Provider API key must be a string');
+  }
+
+  // Anthropic has a default endpoint; the others need their base URL
+  if (config.baseUrl === undefined) {
+    if (config.type !== 'anthropic') problems.push('Provider base URL is required');
+  } else {
+    let url: URL | null = null;
+    try {
+      url = typeof config.baseUrl === 'string' ? new URL(config.baseUrl) : null;
+    } catch {
+      url = null;
+    }
+
+    if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:')) {
+      problems.push('Provider base URL must be an http(s) URL');
+    } else if (url.username || url.password) {
+      problems.push('Provider base URL must not contain credentials');
+    } else if (isPrivateHost(url.hostname)) {
+      problems.push('Provider base URL must point at a public host');
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * Take the API keys out of provider configs before they are stored in
+ * `widget_config`. A provider sent without a key keeps the one stored for it;
+ * keys of providers no longer listed are dropped.
+ */
+export const separateProviderSecrets = (
+  providers: ProviderConfig[],
+  stored: ProviderSecrets = {}
+): { providers: ProviderConfig[]; secrets: ProviderSecrets } => {
+  const secrets: ProviderSecrets = {};
+
+  const stripped = providers.map(({ apiKey, ...config }) => {
+    const key = apiKey || stored[config.name]?.apiKey;
+    if (key) secrets[config.name] = { apiKey: key };
+    return config;
+  });
+
+  return { providers: stripped, secrets };
+};
+
+/**
+ * The tenant's provider configs with their API keys. Keys saved inline in
+ * `widget_config` before secrets were split out still work until the tenant's
+ * AI config is saved again.
+ */
+export const getTenantProviderConfigs = (tenant: TenantRecord | null): ProviderConfig[] => {
+  const stored: ProviderConfig[] = Array.isArray(tenant?.widget_config?.ai?.providers) ? tenant!.widget_config.ai.providers : [];
+  if (!tenant || stored.length === 0) return [];
+
+  // Configs saved before they were checked are left out rather than used
+  const providers = stored.filter((config) => {
+    const problems = checkTenantProviderConfig(config);
+    if (problems.length > 0) {
+      console.warn(`⚠️ Ignoring provider ${config?.name} of tenant ${tenant.id}: ${problems.join('; ')}`);
+    }
+    return problems.length === 0;
+  });
+  if (providers.length === 0) return [];
+
+  let secrets: ProviderSecrets = {};
+  try {
+    secrets = decryptProviderSecrets(tenant.provider_secrets);
+  } catch (error) {
+    console.error(`❌ Failed to read provider secrets of tenant ${tenant.id}:`, error instanceof Error ? error.message : error);
+  }
+
+  return providers.map((config) => {
+    const apiKey = secrets[config.name]?.apiKey;
+    return apiKey ? { ...config, apiKey } : config;
+  });
+};
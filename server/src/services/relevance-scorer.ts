@@ -0,0 +1,154 @@
+import { tokenize } from './bm25-index.js';
+import { fieldToText } from './text-chunker.js';
+import type { ContentstackEntry } from './contentstack-service.js';
+
+export interface Relevance {
+  // 0..1, comparable across content types
+  score: number;
+  // Top-level fields containing at least one keyword, best match first
+  matchedFields: string[];
+}
+
+export type RankedEntry = ContentstackEntry & { _content_type_uid: string; relevance: Relevance };
+
+export interface RankingOptions {
+  query: string;
+  businessType?: string | null;
+  // Text fields of each content type from its field mapping; weighted above other fields
+  searchFields?: Record<string, string[]>;
+  now?: number;
+}
+
+// How much each content type matters to a kind of site; unlisted types get DEFAULT_PRIORITY
+export const CONTENT_TYPE_PRIORITIES: Record<string, Record<string, number>> = {
+  ecommerce: { product: 1, category: 0.8, faq: 0.8, promotion: 0.7, article: 0.5, page: 0.4 },
+  travel: { destination: 1, tour: 1, package: 1, hotel: 0.9, faq: 0.8, article: 0.6, page: 0.4 },
+  tech: { documentation: 1, doc: 1, guide: 0.9, faq: 0.9, product: 0.8, article: 0.7, page: 0.4 },
+  education: { course: 1, program: 0.9, faq: 0.8, event: 0.7, article: 0.6, page: 0.4 },
+  default: { faq: 0.8, product: 0.7, article: 0.7, page: 0.5 },
+};
+
+const DEFAULT_PRIORITY = 0.5;
+
+const FIELD_WEIGHTS = { title: 3, tags: 2, search: 1.5, other: 1 };
+const SCORE_WEIGHTS = { keywords: 0.65, priority: 0.2, recency: 0.15 };
+const PHRASE_BONUS = 0.15;
+const RECENCY_HALF_LIFE_DAYS = 180;
+
+// Fields that are bookkeeping rather than content
+const IGNORED_FIELDS = new Set([
+  'uid', 'url', 'locale', 'created_at', 'updated_at', 'created_by', 'updated_by', 'publish_details', 'ACL',
+  '_version', '_in_progress', '_metadata', '_content_type_uid', 'relevance', 'citation',
+]);
+
+export const getContentTypePriority = (contentType: string, businessType?: string | null): number => {
+  const priorities = CONTENT_TYPE_PRIORITIES[businessType?.toLowerCase() || ''] || CONTENT_TYPE_PRIORITIES.default!;
+  return priorities[contentType] ?? DEFAULT_PRIORITY;
+};
+
+// Content types a business type ranks highest, best first
+export const getPreferredContentTypes = (businessType?: string | null): string[] => {
+  const priorities = CONTENT_TYPE_PRIORITIES[businessType?.toLowerCase() || ''] || CONTENT_TYPE_PRIORITIES.default!;
+  return Object.entries(priorities).sort((a, b) => b[1] - a[1]).map(([contentType]) => contentType);
+};
+
+// 1 for an entry updated now, halving every RECENCY_HALF_LIFE_DAYS; 0 without a date
+const recencyOf = (entry: ContentstackEntry, now: number): number => {
+  const updated = Date.parse(entry.updated_at || entry.created_at || '');
+  if (Number.isNaN(updated)) return 0;
+
+  const ageDays = Math.max(0, now - updated) / 86400000;
+  return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+};
+
+const fieldWeight = (field: string, searchFields: Set<string>): number => {
+  if (field === 'title') return FIELD_WEIGHTS.title;
+  if (field === 'tags') return FIELD_WEIGHTS.tags;
+  return searchFields.has(field) ? FIELD_WEIGHTS.search : FIELD_WEIGHTS.other;
+};
+
+const fieldTerms = (field: string, value: unknown): Set<string> => {
+  // Tags and one-word values would be skipped as identifiers by the generic text extraction
+  if (typeof value === 'string') return new Set(tokenize(value.replace(/<[^>]*>/g, ' ')));
+  if (field === 'tags' && Array.isArray(value)) return new Set(tokenize(value.join(' ')));
+  return new Set(tokenize(fieldToText(value)));
+};
+
+/**
+ * Score one entry: each keyword counts with the weight of the best field it
+ * appears in (title > tags > mapped search fields > anything else), plus a
+ * bonus when the whole query appears in the title; blended with the content
+ * type's priority for the business type and how recently it was updated.
+ */
+export const scoreEntry = (
+  entry: ContentstackEntry,
+  contentType: string,
+  keywords: string[],
+  options: Omit<RankingOptions, 'searchFields'> & { searchFields?: string[] }
+): Relevance => {
+  const searchFields = new Set((options.searchFields || []).map((path) => path.split('.')[0]!));
+  const matches: Array<{ field: string; weight: number; hits: number }> = [];
+  const best = new Map<string, number>();
+
+  for (const [field, value] of Object.entries(entry)) {
+    if (IGNORED_FIELDS.has(field) || value === null || value === undefined) continue;
+
+    const terms = fieldTerms(field, value);
+    const hits = keywords.filter((keyword) => terms.has(keyword));
+    if (hits.length === 0) continue;
+
+    const weight = fieldWeight(field, searchFields);
+    matches.push({ field, weight, hits: hits.length });
+    hits.forEach((keyword) => best.set(keyword, Math.max(best.get(keyword) || 0, weight)));
+  }
+
+  let keywordScore = 0;
+  if (keywords.length > 0) {
+    keywordScore = Array.from(best.values()).reduce((sum, weight) => sum + weight, 0) / (keywords.length * FIELD_WEIGHTS.title);
+
+    const phrase = options.query.trim().toLowerCase();
+    if (phrase.includes(' ') && typeof entry.title === 'string' && entry.title.toLowerCase().includes(phrase)) {
+      keywordScore = Math.min(1, keywordScore + PHRASE_BONUS);
+    }
+  }
+
+  const score =
+    SCORE_WEIGHTS.keywords * keywordScore +
+    SCORE_WEIGHTS.priority * getContentTypePriority(contentType, options.businessType) +
+    SCORE_WEIGHTS.recency * recencyOf(entry, options.now ?? Date.now());
+
+  return {
+    score: Math.round(score * 1000) / 1000,
+    matchedFields: matches
+      .sort((a, b) => b.weight * b.hits - a.weight * a.hits)
+      .map((match) => match.field),
+  };
+};
+
+/**
+ * Merge search results of several content types into one list ordered by
+ * score; an entry found under several queries is kept once
+ */
+export const rankEntries = (
+  results: Array<{ contentType: string; entries: ContentstackEntry[] }>,
+  options: RankingOptions
+): RankedEntry[] => {
+  const keywords = Array.from(new Set(tokenize(options.query)));
+  const ranked = new Map<string, RankedEntry>();
+
+  for (const { contentType, entries } of results) {
+    for (const entry of entries) {
+      const type = entry._content_type_uid || contentType;
+      const key = `${type}:${entry.uid}:${entry.locale || ''}`;
+      if (ranked.has(key)) continue;
+
+      const relevance = scoreEntry(entry, type, keywords, {
+        ...options,
+        searchFields: options.searchFields?.[type] || [],
+      });
+      ranked.set(key, { ...entry, _content_type_uid: type, relevance });
+    }
+  }
+
+  return Array.from(ranked.values()).sort((a, b) => b.relevance.score - a.relevance.score);
+};
@@ -0,0 +1,247 @@
+import { AppError } from '../middleware/error-handler.js';
+import { ContentIndex, ContentIndexStats, RetrievedChunk } from './content-index.js';
+import type { ContentstackServicePool } from './contentstack-pool.js';
+import type { ContentstackEntry } from './contentstack-service.js';
+import type { TenantRecord } from './database-service.js';
+import type { EmbeddingBackend } from './embeddings/index.js';
+import { getLocaleSettings } from './locale-resolver.js';
+
+export interface RetrievalServiceOptions {
+  contentTypes?: string[];
+  maxIndexes?: number;
+  refreshIntervalMs?: number;
+  maxEntriesPerType?: number;
+  semanticWeight?: number;
+}
+
+export interface IndexStatus {
+  namespace: string | null;
+  state: 'ready' | 'building' | 'missing';
+  builtAt: string | null;
+  contentTypes: string[];
+  locales: string[];
+  stats: ContentIndexStats | null;
+  lastError: string | null;
+}
+
+interface StackIndex {
+  index: ContentIndex;
+  contentTypes: string[];
+  locales: string[];
+  builtAt: number;
+}
+
+const NO_STACK_ERROR = 'No Contentstack stack is configured for this tenant';
+
+const parseList = (value: string | undefined): string[] => {
+  return (value || '').split(',').map((item) => item.trim()).filter(Boolean);
+};
+
+/**
+ * Builds and serves one local search index per Contentstack stack. Ingestion
+ * pulls every entry of the configured content types (tenant setting
+ * `widget_config.retrieval.contentTypes`, else RAG_CONTENT_TYPES) in each
+ * supported locale, chunks it and indexes it in memory. Indexes are built in
+ * the background on first use and refreshed periodically; until one is ready
+ * `retrieve` returns null and callers fall back to a plain Contentstack query.
+ */
+export class RetrievalService {
+  private indexes: Map<string, StackIndex> = new Map();
+  private builds: Map<string, Promise<StackIndex>> = new Map();
+  private errors: Map<string, string> = new Map();
+  private readonly contentTypes: string[];
+  private readonly maxIndexes: number;
+  private readonly refreshIntervalMs: number;
+  private readonly maxEntriesPerType: number;
+  private readonly semanticWeight: number | undefined;
+
+  constructor(
+    private pool: ContentstackServicePool,
+    private embeddings: EmbeddingBackend | null,
+    options: RetrievalServiceOptions = {}
+  ) {
+    const envTypes = parseList(process.env.RAG_CONTENT_TYPES);
+    this.contentTypes = options.contentTypes ?? (envTypes.length > 0 ? envTypes : ['product', 'article', 'page', 'faq']);
+    this.maxIndexes = options.maxIndexes ?? 20;
+    this.refreshIntervalMs = options.refreshIntervalMs ?? parseInt(process.env.RAG_REFRESH_INTERVAL_MS || '3600000');
+    this.maxEntriesPerType = options.maxEntriesPerType ?? parseInt(process.env.RAG_MAX_ENTRIES_PER_TYPE || '2000');
+    this.semanticWeight = options.semanticWeight;
+  }
+
+  /**
+   * Best matching chunks for the query, or null when no index is ready yet
+   * (or it does not cover the requested content types or preferred locale).
+   * `locales` lists the visitor's locale first, then its fallbacks.
+   */
+  public async retrieve(
+    tenant: TenantRecord | null | undefined,
+    query: string,
+    k: number,
+    options: { contentTypes?: string[]; locales?: string[] } = {}
+  ): Promise<RetrievedChunk[] | null> {
+    const namespace = this.getNamespace(tenant);
+    if (!namespace) return null;
+    const current = this.indexes.get(namespace);
+
+    if (!current || Date.now() - current.builtAt > this.refreshIntervalMs) {
+      this.startBuild(tenant, namespace).catch(() => undefined); // Errors are kept for getStatus
+    }
+    if (!current) return null;
+
+    if (options.contentTypes?.some((contentType) => !current.contentTypes.includes(contentType))) {
+      return null;
+    }
+    if (options.locales?.length && !current.locales.includes(options.locales[0]!)) {
+      return null;
+    }
+
+    // Re-insert so the map stays ordered from least to most recently used
+    this.indexes.delete(namespace);
+    this.indexes.set(namespace, current);
+
+    return current.index.retrieve(query, k, {
+      ...(options.contentTypes && { contentTypes: options.contentTypes }),
+      ...(options.locales && { locales: options.locales }),
+    });
+  }
+
+  /**
+   * (Re)build the index of the tenant's stack and wait for it
+   */
+  public async ingest(tenant: TenantRecord | null | undefined): Promise<IndexStatus> {
+    const namespace = this.getNamespace(tenant);
+    if (!namespace) {
+      throw new AppError(NO_STACK_ERROR, 409);
+    }
+
+    await this.startBuild(tenant, namespace);
+    return this.getStatus(tenant);
+  }
+
+  public getStatus(tenant: TenantRecord | null | undefined): IndexStatus {
+    const namespace = this.getNamespace(tenant);
+    if (!namespace) {
+      return { namespace, state: 'missing', builtAt: null, contentTypes: [], locales: [], stats: null, lastError: NO_STACK_ERROR };
+    }
+    const current = this.indexes.get(namespace);
+
+    return {
+      namespace,
+      state: this.builds.has(namespace) ? 'building' : current ? 'ready' : 'missing',
+      builtAt: current ? new Date(current.builtAt).toISOString() : null,
+      contentTypes: current?.contentTypes || this.getContentTypes(tenant),
+      locales: current?.locales || this.getLocales(tenant),
+      stats: current?.index.getStats() || null,
+      lastError: this.errors.get(namespace) || null,
+    };
+  }
+
+  /**
+   * Re-index one changed entry. Returns false when the stack has no index yet
+   * or does not index this content type (the next build picks it up).
+   */
+  public async upsertEntry(tenant: TenantRecord | null | undefined, contentType: string, entry: ContentstackEntry): Promise<boolean> {
+    const namespace = this.getNamespace(tenant);
+    const current = namespace ? this.indexes.get(namespace) : undefined;
+    if (!current?.contentTypes.includes(contentType)) return false;
+
+    await current.index.addEntries(contentType, [entry]);
+    return true;
+  }
+
+  public removeEntry(tenant: TenantRecord | null | undefined, contentType: string, uid: string, locale?: string): boolean {
+    const namespace = this.getNamespace(tenant);
+    const current = namespace ? this.indexes.get(namespace) : undefined;
+    return current ? current.index.removeEntry(contentType, uid, locale) : false;
+  }
+
+  public isIndexed(tenant: TenantRecord | null | undefined, contentType: string): boolean {
+    return this.getContentTypes(tenant).includes(contentType);
+  }
+
+  public invalidate(namespace: string): boolean {
+    return this.indexes.delete(namespace);
+  }
+
+  public getContentTypes(tenant: TenantRecord | null | undefined): string[] {
+    const configured = tenant?.widget_config?.retrieval?.contentTypes;
+    // The env stack's index is shared by every anonymous widget, so only tenant stacks can choose
+    if (tenant && this.getNamespace(tenant) === tenant.id && Array.isArray(configured) && configured.length > 0) {
+      return configured.filter((contentType: unknown): contentType is string => typeof contentType === 'string');
+    }
+    return this.contentTypes;
+  }
+
+  // Like content types, only tenants with their own stack choose the indexed locales
+  public getLocales(tenant: TenantRecord | null | undefined): string[] {
+    const ownStack = tenant && this.getNamespace(tenant) === tenant.id;
+    return getLocaleSettings(ownStack ? tenant : null).supported;
+  }
+
+  // Indexes follow the Contentstack instance (and so the stack) the tenant uses; null without one
+  private getNamespace(tenant: TenantRecord | null | undefined): string | null {
+    return this.pool.forTenant(tenant)?.getCacheNamespace() ?? null;
+  }
+
+  // Concurrent builds of the same stack share one promise
+  private startBuild(tenant: TenantRecord | null | undefined, namespace: string): Promise<StackIndex> {
+    const pending = this.builds.get(namespace);
+    if (pending) return pending;
+
+    const build = this.build(tenant, namespace)
+      .then((built) => {
+        this.indexes.delete(namespace);
+        this.indexes.set(namespace, built);
+        this.errors.delete(namespace);
+        this.evict();
+        return built;
+      })
+      .catch((error) => {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        this.errors.set(namespace, message);
+        console.error(`❌ Content index build failed for ${namespace}:`, message);
+        throw error;
+      })
+      .finally(() => this.builds.delete(namespace));
+
+    this.builds.set(namespace, build);
+    return build;
+  }
+
+  private async build(tenant: TenantRecord | null | undefined, namespace: string): Promise<StackIndex> {
+    const startedAt = Date.now();
+    const contentstack = this.pool.forTenant(tenant);
+    if (!contentstack) throw new Error(NO_STACK_ERROR);
+    const contentTypes = this.getContentTypes(tenant);
+    const locales = this.getLocales(tenant);
+    const index = new ContentIndex(this.embeddings, {
+      ...(this.semanticWeight !== undefined && { semanticWeight: this.semanticWeight }),
+    });
+
+    console.log(`📚 Building content index for ${namespace}: ${contentTypes.join(', ')} (${locales.join(', ')})`);
+
+    // One content type at a time to stay well inside the Delivery API rate limits
+    for (const locale of locales) {
+      for (const contentType of contentTypes) {
+        const entries = await contentstack.getAllEntries(contentType, { locale, maxEntries: this.maxEntriesPerType });
+        // Unlocalized entries come back in the fallback locale and are indexed there once
+        await index.addEntries(contentType, entries.filter((entry) => !entry.locale || entry.locale === locale || !locales.includes(entry.locale)));
+      }
+    }
+
+    const stats = index.getStats();
+    console.log(`✅ Content index for ${namespace} ready: ${stats.entries} entries, ${stats.chunks} chunks in ${Date.now() - startedAt}ms`);
+
+    return { index, contentTypes, locales, builtAt: Date.now() };
+  }
+
+  private evict(): void {
+    while (this.indexes.size > this.maxIndexes) {
+      const oldest = this.indexes.keys().next().value;
+      if (oldest === undefined) break;
+      this.indexes.delete(oldest);
+    }
+  }
+}
+
+export default RetrievalService;
@@ -0,0 +1,114 @@
+import type { SourceReference } from '../utils/stream-protocol.js';
+
+// A Contentstack entry or a retrieved chunk of one
+export interface CitableEntry {
+  uid: string;
+  [key: string]: any;
+}
+
+const SNIPPET_LENGTH = 200;
+const SNIPPET_FIELDS = ['description', 'summary', 'excerpt', 'answer', 'content', 'body', 'text'];
+const CITATION = /\[(\d{1,3})\]/g;
+
+// Numbers of the [n] markers used in an answer
+export const findCitations = (text: string): Set<number> => {
+  const cited = new Set<number>();
+  for (const match of text.matchAll(CITATION)) {
+    cited.add(parseInt(match[1]!, 10));
+  }
+  return cited;
+};
+
+const toPlainText = (value: unknown): string => {
+  if (typeof value !== 'string') return '';
+  return value
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const buildSnippet = (entry: CitableEntry): string | null => {
+  for (const field of SNIPPET_FIELDS) {
+    const text = toPlainText(entry[field]);
+    if (text) {
+      return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH - 1).trimEnd()}…` : text;
+    }
+  }
+  return null;
+};
+
+// Entry URLs are usually site-relative paths; only http(s) links are handed out
+export const resolveEntryUrl = (url: unknown, baseUrl?: string | null): string | null => {
+  if (typeof url !== 'string' || !url.trim()) return null;
+
+  try {
+    const base = baseUrl ? (/^https?:\/\//i.test(baseUrl) ? baseUrl : `https://${baseUrl}`) : undefined;
+    const resolved = new URL(url.trim(), base);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Numbers the Contentstack entries returned by tools during one chat turn so
+ * the model can cite them as [n] and the client can render them as footnotes.
+ * The same entry keeps its number across tool calls.
+ */
+export class SourceCollector {
+  private sources: Map<string, SourceReference> = new Map();
+
+  constructor(private baseUrl?: string | null) {}
+
+  /**
+   * Register an entry and return its citation number
+   */
+  public cite(entry: CitableEntry, contentType?: string): number {
+    const type = contentType || entry._content_type_uid || 'entry';
+    const key = `${type}:${entry.uid}:${entry.locale || ''}`;
+
+    const existing = this.sources.get(key);
+    if (existing) return existing.index;
+
+    const source: SourceReference = {
+      index: this.sources.size + 1,
+      title: toPlainText(entry.title) || entry.uid,
+      contentType: type,
+      uid: entry.uid,
+      url: resolveEntryUrl(entry.url, this.baseUrl),
+      snippet: buildSnippet(entry),
+      ...(entry.locale && { locale: entry.locale }),
+      ...(entry.relevance && {
+        relevance: { score: entry.relevance.score, matchedFields: entry.relevance.matchedFields },
+      }),
+    };
+
+    this.sources.set(key, source);
+    return source.index;
+  }
+
+  /**
+   * Attach citation numbers to tool results before they go to the model
+   */
+  public citeAll<T extends CitableEntry>(entries: T[], contentType?: string): Array<T & { citation: number }> {
+    return entries.map((entry) => ({ ...entry, citation: this.cite(entry, contentType) }));
+  }
+
+  public getSources(): SourceReference[] {
+    return Array.from(this.sources.values());
+  }
+
+  /**
+   * Sources to show with an answer: the ones it cites, or every retrieved
+   * entry when the model did not mark any citations.
+   */
+  public forAnswer(answer: string): SourceReference[] {
+    const sources = this.getSources();
+    const cited = findCitations(answer);
+    const matching = sources.filter((source) => cited.has(source.index));
+    return matching.length > 0 ? matching : sources;
+  }
+}
+
+export default SourceCollector;
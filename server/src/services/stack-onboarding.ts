@@ -0,0 +1,300 @@
+import axios from 'axios';
+import {
+  applyFieldMappingOverride,
+  detectFieldMapping,
+  FieldMapping,
+  FieldMappingOverride,
+  getFieldValue,
+} from './content-schema.js';
+import type { ContentstackServicePool } from './contentstack-pool.js';
+import type { ContentstackEntry, ContentstackService } from './contentstack-service.js';
+import type { TenantRecord } from './database-service.js';
+import { getLocaleSettings, LocaleSettings, normalizeLocale } from './locale-resolver.js';
+import { CONTENT_TYPE_PRIORITIES } from './relevance-scorer.js';
+import type { TenantToolConfig } from './tool-registry.js';
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface ReadinessCheck {
+  id: string;
+  status: CheckStatus;
+  message: string;
+}
+
+export interface DiscoveredContentType {
+  uid: string;
+  title: string;
+  // All entries, drafts included (Management API)
+  totalEntries: number | null;
+  // Entries the delivery token sees in the configured environment
+  publishedEntries: number | null;
+  sampleEntries: Array<{ uid: string; title: string | null }>;
+  // Detected mapping with the tenant's overrides applied
+  mapping: FieldMapping;
+  // Search fields none of the sample entries fill in
+  emptyFields: string[];
+}
+
+// Stored as `widget_config.onboarding`
+export interface ReadinessReport {
+  status: 'ready' | 'needs_attention' | 'blocked';
+  checkedAt: string;
+  stack: {
+    name: string | null;
+    masterLocale: string | null;
+    environment: string | null;
+    region: string | null;
+  };
+  environments: string[];
+  locales: Array<{ code: string; name: string; fallback: string | null }>;
+  contentTypes: DiscoveredContentType[];
+  proposal: {
+    fieldMappings: Record<string, FieldMappingOverride>;
+    tools: TenantToolConfig;
+    retrieval: { contentTypes: string[] };
+    locales: LocaleSettings | null;
+  };
+  checks: ReadinessCheck[];
+}
+
+const MAX_SAMPLED_TYPES = 25;
+const SAMPLE_SIZE = 3;
+const MAX_RETRIEVAL_TYPES = 10;
+const PATH_VALUE = /^(\/|https?:\/\/)\S*$/;
+
+// Content types the recommendation tool looks for, across business types
+const RECOMMENDABLE_TYPES = new Set(Object.values(CONTENT_TYPE_PRIORITIES).flatMap((priorities) => Object.keys(priorities)));
+
+const describeError = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    return `${status ? `${status} ` : ''}${error.response?.data?.error_message || error.message}`;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+};
+
+const isFilled = (value: unknown): boolean => {
+  if (value === null || value === undefined) return false;
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+};
+
+/**
+ * Mapping changes the sample entries suggest: search fields nobody fills in
+ * are dropped, and a text field holding paths becomes the URL field when the
+ * detected one is empty. Only fields that differ from `mapping` are returned.
+ */
+export const proposeFieldMapping = (mapping: FieldMapping, schema: any[], samples: ContentstackEntry[]): FieldMappingOverride => {
+  if (samples.length === 0) return {};
+
+  const filled = (path: string) => samples.some((entry) => isFilled(getFieldValue(entry, path)));
+  const override: FieldMappingOverride = {};
+
+  const searchFields = mapping.searchFields.filter(filled);
+  if (searchFields.length > 0 && searchFields.length < mapping.searchFields.length) {
+    override.searchFields = searchFields;
+  }
+
+  if (!mapping.urlField || !filled(mapping.urlField)) {
+    const candidate = Object.keys(samples[0]!).find((field) =>
+      field !== mapping.urlField &&
+      schema.some((definition) => definition?.uid === field && definition.data_type === 'text') &&
+      samples.every((entry) => typeof entry[field] === 'string' && PATH_VALUE.test(entry[field]))
+    );
+    if (candidate) override.urlField = candidate;
+  }
+
+  return override;
+};
+
+const overallStatus = (checks: ReadinessCheck[]): ReadinessReport['status'] => {
+  if (checks.some((check) => check.status === 'fail')) return 'blocked';
+  return checks.some((check) => check.status === 'warn') ? 'needs_attention' : 'ready';
+};
+
+/**
+ * Discovers how a tenant's stack is set up, using its management token:
+ * environments, locales, content types and a few entries of each. From that
+ * it proposes field mappings, tool switches, indexed content types and
+ * locales, and checks that the delivery token can read what the widget needs.
+ * Nothing is changed on the stack; the report only suggests configuration.
+ */
+export class StackOnboarding {
+  constructor(private pool: ContentstackServicePool) {}
+
+  public async run(tenant: TenantRecord | null): Promise<ReadinessReport> {
+    const contentstack = this.pool.forTenant(tenant);
+    const config = contentstack?.getConfig();
+    const checks: ReadinessCheck[] = [];
+    const report: ReadinessReport = {
+      status: 'blocked',
+      checkedAt: new Date().toISOString(),
+      stack: { name: null, masterLocale: null, environment: config?.environment ?? null, region: config?.region || null },
+      environments: [],
+      locales: [],
+      contentTypes: [],
+      proposal: { fieldMappings: {}, tools: {}, retrieval: { contentTypes: [] }, locales: null },
+      checks,
+    };
+
+    if (!contentstack || !config) {
+      checks.push({ id: 'credentials', status: 'fail', message: 'No stack API key and delivery token configured; add them to the Contentstack settings first' });
+      return report;
+    }
+
+    const delivery = await contentstack.checkDeliveryAccess();
+    checks.push(delivery.ok
+      ? { id: 'delivery_token', status: 'pass', message: `Delivery token can read environment '${config.environment}'` }
+      : { id: 'delivery_token', status: 'fail', message: `Delivery token was rejected (${delivery.status ?? 'no response'}): ${delivery.error}` });
+
+    if (!contentstack.hasManagementAccess()) {
+      checks.push({ id: 'management_token', status: 'fail', message: 'No management token configured; the stack setup cannot be discovered' });
+      report.status = overallStatus(checks);
+      return report;
+    }
+
+    try {
+      const [stack, environments, locales] = await Promise.all([
+        contentstack.getStack(),
+        contentstack.getEnvironments(),
+        contentstack.getLocales(),
+      ]);
+      report.stack.name = stack?.name || null;
+      report.stack.masterLocale = normalizeLocale(stack?.master_locale);
+      report.environments = environments.map((environment) => environment.name).filter(Boolean);
+      report.locales = locales.map((locale) => ({
+        code: normalizeLocale(locale.code) || locale.code,
+        name: locale.name || locale.code,
+        fallback: normalizeLocale(locale.fallback_locale),
+      }));
+      checks.push({ id: 'management_token', status: 'pass', message: `Management token can read stack '${report.stack.name || 'unnamed'}'` });
+    } catch (error) {
+      checks.push({ id: 'management_token', status: 'fail', message: `Management API request failed: ${describeError(error)}` });
+      report.status = overallStatus(checks);
+      return report;
+    }
+
+    checks.push(report.environments.includes(config.environment)
+      ? { id: 'environment', status: 'pass', message: `Environment '${config.environment}' exists` }
+      : { id: 'environment', status: 'fail', message: `Environment '${config.environment}' not found; the stack has: ${report.environments.join(', ') || 'none'}` });
+
+    this.checkLocales(tenant, report);
+    await this.discoverContentTypes(tenant, contentstack, report, delivery.ok);
+    this.proposeConfiguration(report);
+
+    report.status = overallStatus(checks);
+    return report;
+  }
+
+  private checkLocales(tenant: TenantRecord | null, report: ReadinessReport): void {
+    const codes = report.locales.map((locale) => locale.code);
+    if (codes.length === 0) return;
+
+    report.proposal.locales = {
+      supported: codes.slice(0, 10),
+      default: report.stack.masterLocale && codes.includes(report.stack.masterLocale) ? report.stack.masterLocale : codes[0]!,
+    };
+
+    const missing = getLocaleSettings(tenant).supported.filter((locale) => !codes.includes(locale));
+    report.checks.push(missing.length === 0
+      ? { id: 'locales', status: 'pass', message: `Configured locales exist on the stack (${codes.join(', ')})` }
+      : { id: 'locales', status: 'warn', message: `Configured locales not on the stack: ${missing.join(', ')}; the stack has ${codes.join(', ')}` });
+  }
+
+  // One content type at a time to stay well inside the API rate limits
+  private async discoverContentTypes(
+    tenant: TenantRecord | null,
+    contentstack: ContentstackService,
+    report: ReadinessReport,
+    canDeliver: boolean
+  ): Promise<void> {
+    let contentTypes: any[];
+    try {
+      contentTypes = await contentstack.getStackContentTypes();
+    } catch (error) {
+      report.checks.push({ id: 'content_types', status: 'fail', message: `Content types could not be listed: ${describeError(error)}` });
+      return;
+    }
+
+    if (contentTypes.length === 0) {
+      report.checks.push({ id: 'content_types', status: 'fail', message: 'The stack has no content types' });
+      return;
+    }
+
+    const overrides: Record<string, FieldMappingOverride> = tenant?.contentstack_config?.fieldMappings || {};
+    const urlPatterns: Record<string, string> = tenant?.contentstack_config?.urlPatterns || {};
+    const sampled = contentTypes.slice(0, MAX_SAMPLED_TYPES);
+
+    for (const contentType of sampled) {
+      const schema: any[] = Array.isArray(contentType.schema) ? contentType.schema : [];
+      const mapping = applyFieldMappingOverride(detectFieldMapping(schema), overrides[contentType.uid]);
+      const samples = await contentstack.getSampleEntries(contentType.uid, SAMPLE_SIZE).catch(() => null);
+      const published = canDeliver ? await contentstack.countPublishedEntries(contentType.uid).catch(() => null) : null;
+      const entries = samples?.entries || [];
+
+      report.contentTypes.push({
+        uid: contentType.uid,
+        title: contentType.title || contentType.uid,
+        totalEntries: samples ? samples.count : null,
+        publishedEntries: published,
+        sampleEntries: entries.map((entry) => ({ uid: entry.uid, title: typeof entry.title === 'string' ? entry.title : null })),
+        mapping,
+        emptyFields: entries.length > 0 ? mapping.searchFields.filter((path) => !entries.some((entry) => isFilled(getFieldValue(entry, path)))) : [],
+      });
+
+      const proposed = proposeFieldMapping(mapping, schema, entries);
+      if (Object.keys(proposed).length > 0) {
+        report.proposal.fieldMappings[contentType.uid] = proposed;
+      }
+    }
+
+    const skipped = contentTypes.length - sampled.length;
+    report.checks.push({
+      id: 'content_types',
+      status: 'pass',
+      message: `${contentTypes.length} content types found${skipped > 0 ? `; the first ${sampled.length} were sampled` : ''}`,
+    });
+
+    const withEntries = report.contentTypes.filter((discovered) => (discovered.totalEntries ?? 0) > 0);
+    const unpublished = withEntries.filter((discovered) => discovered.publishedEntries === 0).map((discovered) => discovered.uid);
+    if (!canDeliver) {
+      report.checks.push({ id: 'published_entries', status: 'warn', message: 'Published entries could not be counted without delivery access' });
+    } else if (withEntries.length > 0 && unpublished.length === withEntries.length) {
+      report.checks.push({ id: 'published_entries', status: 'fail', message: `Nothing is published to '${report.stack.environment}' yet` });
+    } else if (unpublished.length > 0) {
+      report.checks.push({ id: 'published_entries', status: 'warn', message: `Entries exist but none are published to '${report.stack.environment}': ${unpublished.join(', ')}` });
+    } else {
+      report.checks.push({ id: 'published_entries', status: 'pass', message: 'Every content type with entries has published entries' });
+    }
+
+    const withoutUrls = withEntries
+      .filter((discovered) => {
+        const urlField = report.proposal.fieldMappings[discovered.uid]?.urlField || discovered.mapping.urlField;
+        return !urlField && !urlPatterns[discovered.uid];
+      })
+      .map((discovered) => discovered.uid);
+    report.checks.push(withoutUrls.length === 0
+      ? { id: 'urls', status: 'pass', message: 'Every content type with entries has a URL field or pattern' }
+      : { id: 'urls', status: 'warn', message: `No URL field or pattern, so answers cannot link these: ${withoutUrls.join(', ')}` });
+  }
+
+  private proposeConfiguration(report: ReadinessReport): void {
+    // Published counts when the delivery token works, otherwise what exists at all
+    const available = report.contentTypes
+      .map((discovered) => ({ uid: discovered.uid, entries: discovered.publishedEntries ?? discovered.totalEntries ?? 0 }))
+      .filter((discovered) => discovered.entries > 0)
+      .sort((a, b) => b.entries - a.entries);
+
+    const hasContent = available.length > 0;
+    report.proposal.tools = {
+      query_contentstack_content: hasContent,
+      get_entry: hasContent,
+      global_search: available.length > 1,
+      recommend_content: available.some((discovered) => RECOMMENDABLE_TYPES.has(discovered.uid)),
+    };
+    report.proposal.retrieval.contentTypes = available.slice(0, MAX_RETRIEVAL_TYPES).map((discovered) => discovered.uid);
+  }
+}
+
+export default StackOnboarding;
@@ -0,0 +1,118 @@
+import type { CacheService } from './cache-service.js';
+import { STREAM_DONE } from '../utils/stream-protocol.js';
+
+export interface BufferedEvent {
+  id: number;
+  data: string;
+}
+
+export interface StreamBufferOptions {
+  ttlSeconds?: number;
+  pollIntervalMs?: number;
+  idleTimeoutMs?: number;
+}
+
+/**
+ * Keeps the events of each chat stream in a Redis list for a short time so a
+ * client that lost its connection can reconnect with Last-Event-ID, get what
+ * it missed and keep following the answer live. Readers poll the list, which
+ * also works when the reconnect lands on another server instance.
+ */
+export class StreamBuffer {
+  private readonly ttlSeconds: number;
+  private readonly pollIntervalMs: number;
+  private readonly idleTimeoutMs: number;
+
+  constructor(private cache?: CacheService, options: StreamBufferOptions = {}) {
+    this.ttlSeconds = options.ttlSeconds ?? parseInt(process.env.STREAM_BUFFER_TTL_SECONDS || '300');
+    this.pollIntervalMs = options.pollIntervalMs ?? 250;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 60000;
+  }
+
+  public isEnabled(): boolean {
+    return !!this.cache;
+  }
+
+  public async open(streamId: string, tenantId: string | null): Promise<void> {
+    if (!this.cache) return;
+    await this.cache.set(this.metaKey(streamId), JSON.stringify({ tenantId }), this.ttlSeconds);
+  }
+
+  public async getOwner(streamId: string): Promise<{ tenantId: string | null } | null> {
+    if (!this.cache) return null;
+
+    const meta = await this.cache.get(this.metaKey(streamId));
+    return meta ? JSON.parse(meta) : null;
+  }
+
+  public async append(streamId: string, event: BufferedEvent): Promise<void> {
+    if (!this.cache) return;
+
+    const key = this.eventsKey(streamId);
+    await this.cache.rpush(key, JSON.stringify(event));
+    await this.cache.expire(key, this.ttlSeconds);
+  }
+
+  /**
+   * Yield the events after `lastEventId`, then keep polling for new ones until
+   * the stream is done, goes idle or the reader goes away.
+   */
+  public async *replay(streamId: string, lastEventId: number, signal?: AbortSignal): AsyncIterable<BufferedEvent> {
+    if (!this.cache) return;
+
+    const key = this.eventsKey(streamId);
+    let cursor = 0;
+    let lastId = lastEventId;
+    let idleSince = Date.now();
+
+    while (!signal?.aborted) {
+      await this.markReader(streamId);
+      const entries = await this.cache.lrange(key, cursor, -1);
+      cursor += entries.length;
+
+      for (const entry of entries) {
+        const event: BufferedEvent = JSON.parse(entry);
+        if (event.data === STREAM_DONE) {
+          yield event;
+          return;
+        }
+        if (event.id > lastId) {
+          lastId = event.id;
+          yield event;
+        }
+      }
+
+      if (entries.length > 0) {
+        idleSince = Date.now();
+      } else if (Date.now() - idleSince > this.idleTimeoutMs) {
+        return;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+    }
+  }
+
+  // A resumed reader keeps the generation alive after the original client left
+  public async hasReader(streamId: string): Promise<boolean> {
+    if (!this.cache) return false;
+    return this.cache.exists(this.readerKey(streamId));
+  }
+
+  private async markReader(streamId: string): Promise<void> {
+    await this.cache?.set(this.readerKey(streamId), '1', Math.max(Math.ceil(this.pollIntervalMs / 1000) * 4, 5));
+  }
+
+  private eventsKey(streamId: string): string {
+    return `stream:${streamId}:events`;
+  }
+
+  private metaKey(streamId: string): string {
+    return `stream:${streamId}:meta`;
+  }
+
+  private readerKey(streamId: string): string {
+    return `stream:${streamId}:reader`;
+  }
+}
+
+export default StreamBuffer;
@@ -0,0 +1,129 @@
+import type { ContentstackEntry } from './contentstack-service.js';
+
+export interface ChunkOptions {
+  // Target chunk size and overlap, in words
+  chunkSize?: number;
+  overlap?: number;
+}
+
+// System and presentation fields that carry no searchable text
+const SKIPPED_FIELDS = new Set([
+  'uid', 'url', 'locale', 'created_at', 'updated_at', 'created_by', 'updated_by', 'publish_details',
+  'ACL', '_version', '_in_progress', '_metadata', '_content_type_uid', 'content_type_uid',
+  'filename', 'file_size', 'content_type', 'parent_uid', 'attrs',
+]);
+
+const decodeEntities = (text: string): string => {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+};
+
+// HTML rich text: block elements become paragraph breaks
+export const htmlToText = (html: string): string => {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<\/(p|div|h[1-6]|li|tr|blockquote|section)>|<br\s*\/?>/gi, '\n\n')
+      .replace(/<[^>]*>/g, ' ')
+  )
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*(\n\s*)+/g, '\n\n')
+    .trim();
+};
+
+// JSON rich text: leaf nodes hold `text`, block nodes hold `children`
+export const jsonRteToText = (node: any): string => {
+  if (typeof node?.text === 'string') return node.text;
+  if (!Array.isArray(node?.children)) return '';
+
+  const inner = node.children.map(jsonRteToText).join('');
+  return ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'blockquote', 'code'].includes(node.type) ? `${inner}\n\n` : inner;
+};
+
+const collectText = (value: unknown, parts: string[], depth: number): void => {
+  if (depth > 6 || value === null || value === undefined) return;
+
+  if (typeof value === 'string') {
+    // Skip identifiers, dates and links; keep anything that reads like text
+    if (/^(https?:\/\/|\/)\S*$/.test(value) || /^[a-z0-9_]+$/.test(value) || !/\p{L}/u.test(value)) return;
+    parts.push(/<[a-z][^>]*>/i.test(value) ? htmlToText(value) : value.trim());
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectText(item, parts, depth + 1));
+  } else if (typeof value === 'object') {
+    const node = value as Record<string, any>;
+    if (node.type === 'doc' && Array.isArray(node.children)) {
+      parts.push(jsonRteToText(node).trim());
+      return;
+    }
+    for (const [key, child] of Object.entries(node)) {
+      if (!SKIPPED_FIELDS.has(key) && key !== 'title') collectText(child, parts, depth + 1);
+    }
+  }
+};
+
+// Plain text of a single field value: text, rich text, groups and blocks
+export const fieldToText = (value: unknown): string => {
+  const parts: string[] = [];
+  collectText(value, parts, 0);
+  return parts.filter(Boolean).join('\n\n');
+};
+
+/**
+ * Plain text of an entry: the title first, then every text, rich text (HTML
+ * or JSON RTE) and nested group/modular block field in field order.
+ */
+export const entryToText = (entry: ContentstackEntry): string => {
+  const parts: string[] = [];
+  if (typeof entry.title === 'string') parts.push(entry.title.trim());
+  collectText(entry, parts, 0);
+  return parts.filter(Boolean).join('\n\n');
+};
+
+/**
+ * Split text into overlapping chunks of roughly `chunkSize` words, breaking
+ * at paragraph boundaries where possible so chunks stay readable as context.
+ */
+export const chunkText = (text: string, options: ChunkOptions = {}): string[] => {
+  const chunkSize = options.chunkSize ?? 200;
+  const overlap = Math.min(options.overlap ?? 40, Math.floor(chunkSize / 2));
+
+  const paragraphs = text.split(/\n{2,}/).map((paragraph) => paragraph.split(/\s+/).filter(Boolean));
+  const chunks: string[] = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push(current.join(' '));
+    current = overlap > 0 ? current.slice(-overlap) : [];
+  };
+
+  for (let words of paragraphs) {
+    // Paragraphs longer than a chunk are cut into chunk-sized pieces
+    while (words.length > 0) {
+      const room = chunkSize - current.length;
+      if (words.length <= room) {
+        current.push(...words);
+        break;
+      }
+      if (current.length > overlap && words.length <= chunkSize) {
+        flush();
+        continue;
+      }
+      current.push(...words.slice(0, room));
+      words = words.slice(room);
+      flush();
+    }
+  }
+
+  // The trailing overlap alone is not a chunk of its own
+  if (current.length > 0 && (chunks.length === 0 || current.length > overlap)) {
+    chunks.push(current.join(' '));
+  }
+
+  return chunks;
+};
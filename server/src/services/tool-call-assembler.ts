@@ -0,0 +1,140 @@
+import type { StreamChunk, ToolCall } from './llm-service.js';
+
+type ToolCallDelta = NonNullable<
+  NonNullable<NonNullable<StreamChunk['choices']>[number]['delta']>['tool_calls']
+>[number];
+
+const isRunnable = (call: ToolCall): boolean => {
+  if (!call.function.name) return false;
+
+  try {
+    JSON.parse(call.function.arguments || '{}');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Buffers streamed tool-call deltas until the provider finishes the turn.
+ *
+ * OpenAI-compatible providers send the id and name of a call in its first
+ * delta and the JSON arguments in arbitrary fragments afterwards. Deltas for
+ * parallel calls are told apart by `index`; providers that omit it are
+ * matched by `id`, and id-less fragments continue the most recent call.
+ */
+export class ToolCallAssembler {
+  private calls: Map<number, ToolCall> = new Map();
+  private idToIndex: Map<string, number> = new Map();
+  private lastIndex: number | null = null;
+  private finishReason: string | null = null;
+  private ended = false;
+
+  public push(deltas: ToolCallDelta[] | undefined): void {
+    for (const delta of deltas || []) {
+      const index = this.resolveIndex(delta);
+      let call = this.calls.get(index);
+
+      if (!call) {
+        call = {
+          id: delta.id || '',
+          type: 'function',
+          function: { name: '', arguments: '' },
+        };
+        this.calls.set(index, call);
+      }
+
+      if (delta.id && !call.id) {
+        call.id = delta.id;
+      }
+      if (delta.id) {
+        this.idToIndex.set(delta.id, index);
+      }
+
+      // Names normally arrive whole, but some providers split them too
+      if (delta.function?.name) {
+        call.function.name += delta.function.name;
+      }
+      if (delta.function?.arguments) {
+        call.function.arguments += delta.function.arguments;
+      }
+
+      this.lastIndex = index;
+    }
+  }
+
+  /**
+   * Feed a whole stream chunk. Returns true once the provider has signalled
+   * that the turn ended with tool calls.
+   */
+  public pushChunk(chunk: StreamChunk): boolean {
+    const choice = chunk.choices?.[0];
+    if (!choice) return this.isComplete();
+
+    this.push(choice.delta?.tool_calls);
+
+    if (choice.finish_reason) {
+      this.finishReason = choice.finish_reason;
+    }
+
+    return this.isComplete();
+  }
+
+  /**
+   * Mark the end of the provider's stream. Returns true when the turn
+   * produced tool calls to run.
+   */
+  public end(): boolean {
+    this.ended = true;
+    return this.isComplete();
+  }
+
+  /**
+   * Complete once the provider finishes with `tool_calls`. Some
+   * OpenAI-compatible models stream tool calls and then finish with `stop`;
+   * at the end of the stream those count as well, as long as every call has
+   * a name and parseable arguments.
+   */
+  public isComplete(): boolean {
+    if (this.calls.size === 0) return false;
+    if (this.finishReason === 'tool_calls') return true;
+    return this.ended && Array.from(this.calls.values()).every(isRunnable);
+  }
+
+  /**
+   * The assembled calls in the order the provider numbered them. Calls that
+   * never received an id get a stable synthetic one.
+   */
+  public getToolCalls(): ToolCall[] {
+    return Array.from(this.calls.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([index, call]) => ({
+        ...call,
+        id: call.id || `call_${index}`,
+        function: { ...call.function },
+      }));
+  }
+
+  public reset(): void {
+    this.calls.clear();
+    this.idToIndex.clear();
+    this.lastIndex = null;
+    this.finishReason = null;
+    this.ended = false;
+  }
+
+  private resolveIndex(delta: ToolCallDelta): number {
+    if (typeof delta.index === 'number') {
+      return delta.index;
+    }
+
+    if (delta.id) {
+      const known = this.idToIndex.get(delta.id);
+      return known ?? this.calls.size;
+    }
+
+    return this.lastIndex ?? 0;
+  }
+}
+
+export default ToolCallAssembler;
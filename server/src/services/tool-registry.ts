@@ -0,0 +1,171 @@
+import type { ContentstackService } from './contentstack-service.js';
+import type { TenantRecord } from './database-service.js';
+import type { EscalationService } from './escalation-service.js';
+import type { ResolvedLocale } from './locale-resolver.js';
+import type { RetrievalService } from './retrieval-service.js';
+import type { SourceCollector } from './source-collector.js';
+
+export interface ToolParameterSchema {
+  type: 'object';
+  properties: Record<string, any>;
+  required?: string[];
+}
+
+export interface ToolContext {
+  // The tenant's stack; tools that query it are unavailable without one
+  contentstack: ContentstackService | null;
+  tenant?: TenantRecord | null;
+  websiteContext?: any;
+  // Visitor's content locale and its fallbacks; Contentstack's default locale without it
+  locale?: ResolvedLocale;
+  signal?: AbortSignal;
+  // Local search index; tools fall back to Contentstack queries without it
+  retrieval?: RetrievalService;
+  // Numbers retrieved entries so answers can cite them
+  sources?: SourceCollector;
+  // Stored conversation of the request; tools acting on it are unavailable without one
+  conversationId?: string;
+  escalations?: EscalationService;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: ToolParameterSchema;
+  handler: (args: Record<string, any>, context: ToolContext) => Promise<unknown>;
+  // Parameters adapted to the request, e.g. listing the tenant's content types
+  resolveParameters?: (context: ToolContext) => Promise<ToolParameterSchema>;
+  timeoutMs?: number;
+  enabledByDefault?: boolean;
+  requiresContentstack?: boolean;
+}
+
+// Shape expected by OpenAI-compatible chat completion APIs
+export interface ToolSpec {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: ToolParameterSchema;
+  };
+}
+
+// Per-tenant overrides, stored as `widget_config.tools`, e.g. { get_entry: false }
+export type TenantToolConfig = Record<string, boolean>;
+
+const DEFAULT_TOOL_TIMEOUT_MS = 10000;
+
+export class ToolRegistry {
+  private tools: Map<string, ToolDefinition> = new Map();
+
+  public register(tool: ToolDefinition): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool ${tool.name} is already registered`);
+    }
+
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  public get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  public list(): ToolDefinition[] {
+    return Array.from(this.tools.values());
+  }
+
+  /**
+   * Tools the tenant has switched on, falling back to each tool's default
+   */
+  public getEnabledTools(tenant?: TenantRecord | null): ToolDefinition[] {
+    const overrides: TenantToolConfig = tenant?.widget_config?.tools || {};
+
+    return this.list().filter((tool) => {
+      const override = overrides[tool.name];
+      return typeof override === 'boolean' ? override : tool.enabledByDefault !== false;
+    });
+  }
+
+  // Enabled tools that can run in this context
+  private getAvailableTools(context: ToolContext): ToolDefinition[] {
+    return this.getEnabledTools(context.tenant).filter((tool) => !tool.requiresContentstack || context.contentstack);
+  }
+
+  public toToolSpecs(tools: ToolDefinition[]): ToolSpec[] {
+    return tools.map((tool) => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+
+  /**
+   * Specs of the tenant's enabled tools with their parameters resolved for
+   * this request; a tool whose resolution fails keeps its static parameters
+   */
+  public async getToolSpecs(context: ToolContext): Promise<ToolSpec[]> {
+    const tools = await Promise.all(
+      this.getAvailableTools(context).map(async (tool) => {
+        if (!tool.resolveParameters) return tool;
+
+        try {
+          return { ...tool, parameters: await tool.resolveParameters(context) };
+        } catch (error) {
+          console.warn(`⚠️ Failed to resolve parameters of ${tool.name}:`, error instanceof Error ? error.message : error);
+          return tool;
+        }
+      })
+    );
+
+    return this.toToolSpecs(tools);
+  }
+
+  public async execute(
+    name: string,
+    args: Record<string, any>,
+    context: ToolContext
+  ): Promise<unknown> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    if (!this.getAvailableTools(context).includes(tool)) {
+      throw new Error(`Tool ${name} is not enabled for this tenant`);
+    }
+
+    const missing = (tool.parameters.required || []).filter((param) => args[param] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Missing required arguments for ${name}: ${missing.join(', ')}`);
+    }
+
+    context.signal?.throwIfAborted();
+
+    const timeoutMs = tool.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+    let timer: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Tool ${name} timed out after ${timeoutMs}ms`)), timeoutMs);
+    });
+
+    // Handlers that cannot be interrupted are simply no longer waited for
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => reject(new Error(`Tool ${name} was cancelled`));
+      context.signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      return await Promise.race([tool.handler(args, context), timeout, aborted]);
+    } finally {
+      clearTimeout(timer);
+      if (onAbort) context.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+export default ToolRegistry;
@@ -0,0 +1,247 @@
+import type { RetrievedChunk } from '../services/content-index.js';
+import type { ContentTypeSummary } from '../services/content-schema.js';
+import type { ContentstackService } from '../services/contentstack-service.js';
+import { SEARCH_MODES } from '../services/contentstack-query.js';
+import { compactEntry, CompactEntryOptions } from '../services/entry-summary.js';
+import { toLocaleChain } from '../services/locale-resolver.js';
+import type { CitableEntry } from '../services/source-collector.js';
+import type { ToolContext, ToolDefinition, ToolParameterSchema, ToolRegistry } from '../services/tool-registry.js';
+
+const MAX_LISTED_CONTENT_TYPES = 30;
+const MAX_LISTED_FIELDS = 8;
+const DEFAULT_RESULT_LIMIT = 5;
+const MAX_RESULT_LIMIT = 20;
+
+// The model's `limit`, kept within 1-20 whatever it asks for
+const resultLimit = (limit: unknown): number => {
+  const value = Math.floor(Number(limit));
+  return Number.isFinite(value) && value > 0 ? Math.min(value, MAX_RESULT_LIMIT) : DEFAULT_RESULT_LIMIT;
+};
+
+// Compact entries for the model, tagged with their citation number when the request collects sources
+const cite = (entries: CitableEntry[], { sources }: ToolContext, contentType?: string, options?: CompactEntryOptions) => {
+  return entries.map((entry) => ({
+    ...compactEntry(entry, options),
+    ...(sources && { citation: sources.cite(entry, contentType) }),
+  }));
+};
+
+// Query options for the visitor's locale, falling back along its chain when nothing is published in it
+const localeOptions = ({ locale }: ToolContext) => {
+  return locale ? { locale: locale.locale, fallbackLocales: locale.fallbacks } : {};
+};
+
+// The registry offers these tools only when the tenant has a stack
+const stackOf = ({ contentstack }: ToolContext): ContentstackService => {
+  if (!contentstack) throw new Error('No Contentstack stack is configured for this site');
+  return contentstack;
+};
+
+// Search the local index; null means it is not ready and the caller should query Contentstack
+const retrieve = async (
+  query: string,
+  limit: number,
+  context: ToolContext,
+  contentTypes?: string[]
+): Promise<RetrievedChunk[] | null> => {
+  if (!context.retrieval || !query.trim()) return null;
+  return context.retrieval.retrieve(context.tenant, query, limit, {
+    ...(contentTypes && { contentTypes }),
+    ...(context.locale && { locales: toLocaleChain(context.locale) }),
+  });
+};
+
+// Retrieved chunks as tool results, cited under the entry they come from
+const citeChunks = (chunks: RetrievedChunk[], context: ToolContext) => {
+  return chunks.map((chunk) => {
+    const { id, score, ...rest } = chunk;
+    return {
+      ...rest,
+      score: Math.round(score * 1000) / 1000,
+      ...(context.sources && { citation: context.sources.cite(rest, chunk.contentType) }),
+    };
+  });
+};
+
+// e.g. "product (Product: title, description, price)"
+const describeContentType = (summary: ContentTypeSummary): string => {
+  const fields = summary.fields.slice(0, MAX_LISTED_FIELDS).map((field) => field.uid);
+  const more = summary.fields.length > MAX_LISTED_FIELDS ? ', ...' : '';
+  return `${summary.uid} (${summary.title}${fields.length > 0 ? `: ${fields.join(', ')}${more}` : ''})`;
+};
+
+/**
+ * The tool's parameters with `property` restricted to the stack's content
+ * types; unchanged when the schemas cannot be fetched
+ */
+const withContentTypes = async (
+  parameters: ToolParameterSchema,
+  property: string,
+  context: ToolContext
+): Promise<ToolParameterSchema> => {
+  const summaries = (await stackOf(context).getContentTypeSummaries()).slice(0, MAX_LISTED_CONTENT_TYPES);
+  if (summaries.length === 0) return parameters;
+
+  const uids = summaries.map((summary) => summary.uid);
+  const current = parameters.properties[property];
+  const description = `${current.description.replace(/\s*\(e\.g\..*\)$/, '')}. Available: ${summaries.map(describeContentType).join('; ')}`;
+
+  return {
+    ...parameters,
+    properties: {
+      ...parameters.properties,
+      [property]: current.type === 'array'
+        ? { ...current, items: { type: 'string', enum: uids }, description }
+        : { ...current, enum: uids, description },
+    },
+  };
+};
+
+export const queryContentstackContentTool: ToolDefinition = {
+  name: 'query_contentstack_content',
+  description: 'Query content from Contentstack CMS when users ask about products, articles, or other content-specific information',
+  parameters: {
+    type: 'object',
+    properties: {
+      content_type: {
+        type: 'string',
+        description: 'The content type to query (e.g., "product", "article", "event")',
+      },
+      query: {
+        type: 'string',
+        description: 'Search query to find relevant content',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of results to return',
+        minimum: 1,
+        maximum: MAX_RESULT_LIMIT,
+        default: DEFAULT_RESULT_LIMIT,
+      },
+      match: {
+        type: 'string',
+        enum: SEARCH_MODES,
+        description: 'How to match the query: "terms" (all words, any order; default), "any" (at least one word), "phrase" (words in order), "prefix" or "exact" (a field starts with or equals the query, e.g. a product name or SKU)',
+      },
+    },
+    required: ['content_type', 'query'],
+  },
+  resolveParameters: (context) => withContentTypes(queryContentstackContentTool.parameters, 'content_type', context),
+  timeoutMs: 10000,
+  requiresContentstack: true,
+  handler: async (args, context) => {
+    const match = SEARCH_MODES.includes(args.match) ? args.match : 'terms';
+    const limit = resultLimit(args.limit);
+
+    // The index ranks by relevance; literal matches go to Contentstack directly
+    if (match === 'terms') {
+      const chunks = await retrieve(args.query || '', limit, context, [args.content_type]);
+      if (chunks) return citeChunks(chunks, context);
+    }
+
+    const entries = await stackOf(context).queryContent(args.content_type, args.query || '', limit, {
+      ...localeOptions(context),
+      match,
+      referenceDepth: 1,
+    });
+    return cite(entries, context, args.content_type);
+  },
+};
+
+export const getEntryTool: ToolDefinition = {
+  name: 'get_entry',
+  description: 'Fetch a single Contentstack entry by its UID, e.g. to get full details of a result returned by another tool',
+  parameters: {
+    type: 'object',
+    properties: {
+      content_type: {
+        type: 'string',
+        description: 'The content type of the entry',
+      },
+      uid: {
+        type: 'string',
+        description: 'The UID of the entry',
+      },
+    },
+    required: ['content_type', 'uid'],
+  },
+  resolveParameters: (context) => withContentTypes(getEntryTool.parameters, 'content_type', context),
+  timeoutMs: 8000,
+  requiresContentstack: true,
+  handler: async (args, context) => {
+    const entry = await stackOf(context).getEntry(args.content_type, args.uid, { ...localeOptions(context), referenceDepth: 2 });
+    if (!entry) return { error: `Entry ${args.uid} not found` };
+
+    // Asked for in full, so it gets a larger budget than search results
+    return cite([entry], context, args.content_type, { maxLength: 8000, maxFieldLength: 2000, maxDepth: 2 })[0];
+  },
+};
+
+export const globalSearchTool: ToolDefinition = {
+  name: 'global_search',
+  description: 'Search several content types at once when it is unclear where the answer is stored',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Search query to find relevant content',
+      },
+      content_types: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Content types to search (defaults to the first ten of the stack)',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of results per content type',
+        minimum: 1,
+        maximum: MAX_RESULT_LIMIT,
+        default: DEFAULT_RESULT_LIMIT,
+      },
+    },
+    required: ['query'],
+  },
+  resolveParameters: (context) => withContentTypes(globalSearchTool.parameters, 'content_types', context),
+  timeoutMs: 15000,
+  requiresContentstack: true,
+  handler: async (args, context) => {
+    const limit = resultLimit(args.limit);
+    const chunks = await retrieve(args.query, limit, context, args.content_types);
+    if (chunks) return citeChunks(chunks, context);
+
+    const entries = await stackOf(context).globalSearch(args.query, args.content_types, limit, context.websiteContext, localeOptions(context));
+    return cite(entries, context);
+  },
+};
+
+export const recommendContentTool: ToolDefinition = {
+  name: 'recommend_content',
+  description: 'Recommend products, FAQs, articles and pages related to what the user is asking about',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'What the user is interested in',
+      },
+    },
+    required: ['query'],
+  },
+  timeoutMs: 15000,
+  requiresContentstack: true,
+  handler: async (args, context) => {
+    const entries = await stackOf(context).recommendContent(args.query, context.websiteContext, DEFAULT_RESULT_LIMIT, localeOptions(context));
+    return cite(entries, context);
+  },
+};
+
+export const registerContentstackTools = (registry: ToolRegistry): ToolRegistry => {
+  return registry
+    .register(queryContentstackContentTool)
+    .register(getEntryTool)
+    .register(globalSearchTool)
+    .register(recommendContentTool);
+};
+
+export default registerContentstackTools;
@@ -0,0 +1,35 @@
+import type { ToolDefinition, ToolRegistry } from '../services/tool-registry.js';
+
+export const escalateToHumanTool: ToolDefinition = {
+  name: 'escalate_to_human',
+  description: 'Hand the conversation to a human support agent when the user asks for a person, is frustrated, or needs help you cannot give (orders, billing, complaints, account changes). Tell the user a team member will join shortly.',
+  parameters: {
+    type: 'object',
+    properties: {
+      reason: {
+        type: 'string',
+        description: 'Short summary for the agent of what the user needs and why they are being handed over',
+      },
+    },
+    required: ['reason'],
+  },
+  timeoutMs: 5000,
+  handler: async (args, context) => {
+    if (!context.escalations || !context.conversationId) {
+      return { escalated: false, error: 'Human handoff is not available right now; keep helping the user yourself' };
+    }
+
+    const conversation = await context.escalations.escalate(context.conversationId, context.tenant?.id ?? null, {
+      source: 'assistant',
+      reason: typeof args.reason === 'string' ? args.reason : '',
+    });
+
+    return { escalated: true, status: conversation.handled_by };
+  },
+};
+
+export const registerEscalationTools = (registry: ToolRegistry): ToolRegistry => {
+  return registry.register(escalateToHumanTool);
+};
+
+export default registerEscalationTools;
@@ -0,0 +1,71 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+
+/**
+ * The SDK keeps its own copy of the stream protocol (sdk/src/protocol.ts),
+ * since the widget bundle cannot import server code. These tests fail as soon
+ * as the copy and the server's definitions drift apart.
+ */
+
+const serverSrc = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../..');
+const sdkProtocol = path.resolve(serverSrc, '../../sdk/src/protocol.ts');
+
+// Server helpers the SDK has no use for, and SDK additions the server does not need
+const SERVER_ONLY = ['encodeFrame', 'encodeEvent', 'encodeDone'];
+const SDK_ONLY = ['DecodedFrame', 'StreamDecoder'];
+
+// Types the protocol imports on the server and the SDK copies in
+const IMPORTED_TYPES: Record<string, string> = {
+  ModelTarget: 'services/llm-service.ts',
+  TokenUsage: 'services/llm-service.ts',
+  ContextReport: 'services/context-window.ts',
+};
+
+const printer = ts.createPrinter({ removeComments: true });
+
+// Exported top-level declarations by name, printed without comments or formatting
+const readDeclarations = (file: string): Map<string, string> => {
+  const source = ts.createSourceFile(file, fs.readFileSync(file, 'utf8'), ts.ScriptTarget.Latest, true);
+  const declarations = new Map<string, string>();
+
+  for (const statement of source.statements) {
+    const exported = ts.canHaveModifiers(statement)
+      && ts.getModifiers(statement)?.some((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword);
+    if (!exported) continue;
+
+    const names = ts.isVariableStatement(statement)
+      ? statement.declarationList.declarations.map((declaration) => declaration.name.getText(source))
+      : [(statement as ts.DeclarationStatement).name?.getText(source)];
+
+    for (const name of names) {
+      if (name) declarations.set(name, printer.printNode(ts.EmitHint.Unspecified, statement, source));
+    }
+  }
+
+  return declarations;
+};
+
+describe('SDK stream protocol copy', () => {
+  const server = readDeclarations(path.join(serverSrc, 'utils/stream-protocol.ts'));
+  const sdk = readDeclarations(sdkProtocol);
+
+  it('declares what the server declares, and nothing else', () => {
+    const expected = [...server.keys()].filter((name) => !SERVER_ONLY.includes(name));
+    const copied = [...sdk.keys()].filter((name) => !SDK_ONLY.includes(name) && !(name in IMPORTED_TYPES));
+
+    expect(copied.sort()).toEqual(expected.sort());
+  });
+
+  it.each([...server.keys()].filter((name) => !SERVER_ONLY.includes(name)))('matches the server definition of %s', (name) => {
+    expect(sdk.get(name)).toBe(server.get(name));
+  });
+
+  it.each(Object.entries(IMPORTED_TYPES))('matches the server definition of %s', (name, file) => {
+    const definition = readDeclarations(path.join(serverSrc, file)).get(name);
+
+    expect(definition).toBeDefined();
+    expect(sdk.get(name)).toBe(definition);
+  });
+});
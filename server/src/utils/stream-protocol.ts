@@ -0,0 +1,201 @@
+import type { ContextReport } from '../services/context-window.js';
+import type { ModelTarget, TokenUsage } from '../services/llm-service.js';
+
+/**
+ * Wire format of the chat stream endpoints. Every event is one SSE frame: an
+ * optional `id:` line, the JSON payload on `data:` lines and a blank line.
+ * A stream always ends with `data: [DONE]`.
+ *
+ * The SDK mirrors these types in sdk/src/protocol.ts, and
+ * utils/__tests__/stream-protocol.test.ts fails when the two differ. Additive
+ * changes (new optional fields, new event types clients may ignore) keep the
+ * version; anything else bumps STREAM_PROTOCOL_VERSION on both sides.
+ */
+export const STREAM_PROTOCOL_VERSION = 1;
+export const STREAM_PROTOCOL_HEADER = 'X-Stream-Protocol-Version';
+export const STREAM_DONE = '[DONE]';
+// Sent by clients that reconnect to dropped streams (GET /api/chat/stream/:id with
+// Last-Event-ID); only their answers keep running while the connection is down
+export const STREAM_RESUME_HEADER = 'X-Stream-Resume';
+
+// A Contentstack entry the answer is based on; `index` is its [n] marker in the text
+export interface SourceReference {
+  index: number;
+  title: string;
+  contentType: string;
+  uid: string;
+  url: string | null;
+  snippet: string | null;
+  locale?: string;
+  // Why a ranked search or recommendation returned the entry
+  relevance?: SourceRelevance;
+}
+
+export interface SourceRelevance {
+  score: number;
+  matchedFields: string[];
+}
+
+export interface ConversationStreamEvent {
+  type: 'conversation';
+  conversationId: string;
+}
+
+export interface ContentStreamEvent {
+  type: 'content';
+  content: string;
+}
+
+export interface ToolCallStreamEvent {
+  type: 'tool_call';
+  tool_call_id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface ToolResultStreamEvent {
+  type: 'tool_result';
+  tool_call_id: string;
+  name: string;
+  content: string;
+}
+
+export interface ToolErrorStreamEvent {
+  type: 'tool_error';
+  tool_call_id: string;
+  name: string;
+  error: string;
+}
+
+export interface SourcesStreamEvent {
+  type: 'sources';
+  sources: SourceReference[];
+}
+
+export interface ProviderSwitchedStreamEvent {
+  type: 'provider_switched';
+  from: ModelTarget;
+  to: ModelTarget;
+  reason: string;
+}
+
+export interface CompletionStreamEvent {
+  type: 'completion';
+  finish_reason: string;
+  usage: TokenUsage | null;
+  tool_rounds: number;
+  provider: string;
+  model: string | null;
+  context: ContextReport | null;
+}
+
+export interface ErrorStreamEvent {
+  type: 'error';
+  error: string;
+  details?: unknown;
+  timestamp: string;
+}
+
+// A human agent as the visitor sees them
+export interface AgentProfile {
+  name: string;
+}
+
+// Who answers the visitor changed: waiting for an agent, an agent took over, or back to the assistant
+export interface HandoffStreamEvent {
+  type: 'handoff';
+  status: 'queued' | 'agent' | 'bot';
+  agent?: AgentProfile;
+  message?: string;
+}
+
+export interface AgentMessageStreamEvent {
+  type: 'agent_message';
+  id: string;
+  content: string;
+  agent: AgentProfile;
+  timestamp: string;
+}
+
+export interface TypingStreamEvent {
+  type: 'typing';
+  author: 'agent' | 'assistant' | 'visitor';
+  isTyping: boolean;
+  agent?: AgentProfile;
+}
+
+export type StreamEvent =
+  | ConversationStreamEvent
+  | ContentStreamEvent
+  | ToolCallStreamEvent
+  | ToolResultStreamEvent
+  | ToolErrorStreamEvent
+  | SourcesStreamEvent
+  | ProviderSwitchedStreamEvent
+  | CompletionStreamEvent
+  | ErrorStreamEvent
+  | HandoffStreamEvent
+  | AgentMessageStreamEvent
+  | TypingStreamEvent;
+
+/**
+ * Socket.io transport. The widget connects with `auth: { apiKey, tenantId,
+ * sessionToken }` and is told its session on `chat_session`; a new session
+ * comes with a new token, which the widget keeps and connects with from then
+ * on. Every tab of a session shares a room and sees the same events. Stream
+ * events are the SSE payloads above, wrapped with the request they answer;
+ * `chat_done` plays the part of `data: [DONE]`.
+ */
+export const SOCKET_EVENTS = {
+  // Widget -> server
+  message: 'chat_message',
+  stop: 'chat_stop',
+  // Both ways: the visitor typing, or the assistant/agent typing for every tab
+  typing: 'typing',
+  // Server -> widget
+  session: 'chat_session',
+  event: 'chat_event',
+  done: 'chat_done',
+  sessionMessage: 'session_message',
+} as const;
+
+// The session a socket joined, sent on connect
+export interface SocketSession {
+  sessionId: string;
+  sessionToken: string;
+}
+
+export interface SocketStreamFrame {
+  requestId: string;
+  id: number;
+  event: StreamEvent;
+}
+
+export interface SocketStreamDone {
+  requestId: string;
+}
+
+// A visitor message sent from another tab of the same session
+export interface SocketSessionMessage {
+  requestId: string;
+  content: string;
+  timestamp: string;
+}
+
+export type SocketMessageAck =
+  | { ok: true; requestId: string }
+  | { ok: false; error: string; details?: unknown };
+
+/**
+ * Frame an already serialized payload. Payload newlines are split over
+ * several `data:` lines, which decoders join back together.
+ */
+export const encodeFrame = (data: string, id?: number): string => {
+  const idLine = id !== undefined ? `id: ${id}\n` : '';
+  const dataLines = data.split(/\r?\n/).map((line) => `data: ${line}\n`).join('');
+  return `${idLine}${dataLines}\n`;
+};
+
+export const encodeEvent = (event: StreamEvent, id?: number): string => encodeFrame(JSON.stringify(event), id);
+
+export const encodeDone = (): string => encodeFrame(STREAM_DONE);